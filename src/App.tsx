@@ -14,6 +14,11 @@ import YieldPredictor from "./pages/YieldPredictor";
 import MarketForecast from "./pages/MarketForecast";
 import LoanCalculator from "./pages/LoanCalculator";
 import ExpenseAnalyzer from "./pages/ExpenseAnalyzer";
+import PredictionHistory from "./pages/PredictionHistory";
+import Farms from "./pages/Farms";
+import FertilizerCalculator from "./pages/FertilizerCalculator";
+import ReferenceData from "./pages/ReferenceData";
+import ModelBacktest from "./pages/ModelBacktest";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import ForgotPassword from "./pages/ForgotPassword";
@@ -95,6 +100,41 @@ const App = () => (
                   </ErrorBoundary>
                 </ProtectedRoute>
               } />
+              <Route path="/predictions" element={
+                <ProtectedRoute>
+                  <ErrorBoundary>
+                    <PredictionHistory />
+                  </ErrorBoundary>
+                </ProtectedRoute>
+              } />
+              <Route path="/farms" element={
+                <ProtectedRoute>
+                  <ErrorBoundary>
+                    <Farms />
+                  </ErrorBoundary>
+                </ProtectedRoute>
+              } />
+              <Route path="/fertilizer-calculator" element={
+                <ProtectedRoute>
+                  <ErrorBoundary>
+                    <FertilizerCalculator />
+                  </ErrorBoundary>
+                </ProtectedRoute>
+              } />
+              <Route path="/admin/reference-data" element={
+                <ProtectedRoute>
+                  <ErrorBoundary>
+                    <ReferenceData />
+                  </ErrorBoundary>
+                </ProtectedRoute>
+              } />
+              <Route path="/admin/model-backtest" element={
+                <ProtectedRoute>
+                  <ErrorBoundary>
+                    <ModelBacktest />
+                  </ErrorBoundary>
+                </ProtectedRoute>
+              } />
               
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
@@ -1,9 +1,10 @@
 import { useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
-import { Menu, X, Sprout, BarChart3, Calculator, TrendingUp, Cloud, Wallet, LogIn, LogOut, User, Shield } from "lucide-react";
+import { Menu, X, Sprout, BarChart3, Calculator, TrendingUp, Cloud, Wallet, LogIn, LogOut, User, Shield, History, Tractor, FlaskConical } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
+import { useIsMobile } from "@/hooks/use-mobile";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,18 +13,23 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import NotificationBell from "@/components/NotificationBell";
 
 const Navigation = () => {
   const [isOpen, setIsOpen] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
   const { user, isAuthenticated, signOut, loading } = useAuth();
+  const isMobile = useIsMobile();
   
   const navItems = [
     { href: "/", label: "Home", icon: Sprout },
     { href: "/dashboard", label: "Dashboard", icon: BarChart3, protected: true },
     { href: "/weather", label: "Weather", icon: Cloud, protected: true },
     { href: "/yield-predictor", label: "Yield Predictor", icon: TrendingUp, protected: true },
+    { href: "/predictions", label: "History", icon: History, protected: true },
+    { href: "/farms", label: "Farms", icon: Tractor, protected: true },
+    { href: "/fertilizer-calculator", label: "Fertilizer", icon: FlaskConical, protected: true },
     { href: "/market-forecast", label: "Market", icon: BarChart3, protected: true },
     { href: "/loan-calculator", label: "Loans", icon: Calculator, protected: true },
     { href: "/expense-analyzer", label: "Profit Analyzer", icon: Wallet, protected: true },
@@ -90,39 +96,42 @@ const Navigation = () => {
             {loading ? (
               <div className="h-8 w-8 rounded-full bg-muted animate-pulse" />
             ) : isAuthenticated ? (
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="ghost" className="relative h-9 w-9 rounded-full">
-                    <Avatar className="h-9 w-9 border-2 border-primary/20">
-                      <AvatarFallback className="bg-primary/10 text-primary font-medium">
-                        {getInitials()}
-                      </AvatarFallback>
-                    </Avatar>
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent className="w-56" align="end" forceMount>
-                  <div className="flex items-center justify-start gap-2 p-2">
-                    <div className="flex flex-col space-y-1 leading-none">
-                      {user?.user_metadata?.full_name && (
-                        <p className="font-medium">{user.user_metadata.full_name}</p>
-                      )}
-                      <p className="text-xs text-muted-foreground truncate">
-                        {user?.email}
-                      </p>
+              <>
+                {!isMobile && <NotificationBell />}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" className="relative h-9 w-9 rounded-full">
+                      <Avatar className="h-9 w-9 border-2 border-primary/20">
+                        <AvatarFallback className="bg-primary/10 text-primary font-medium">
+                          {getInitials()}
+                        </AvatarFallback>
+                      </Avatar>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent className="w-56" align="end" forceMount>
+                    <div className="flex items-center justify-start gap-2 p-2">
+                      <div className="flex flex-col space-y-1 leading-none">
+                        {user?.user_metadata?.full_name && (
+                          <p className="font-medium">{user.user_metadata.full_name}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground truncate">
+                          {user?.email}
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem className="text-muted-foreground">
-                    <Shield className="mr-2 h-4 w-4" />
-                    <span>Secure Session</span>
-                  </DropdownMenuItem>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem onClick={handleSignOut} className="text-destructive focus:text-destructive">
-                    <LogOut className="mr-2 h-4 w-4" />
-                    <span>Sign out</span>
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem className="text-muted-foreground">
+                      <Shield className="mr-2 h-4 w-4" />
+                      <span>Secure Session</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={handleSignOut} className="text-destructive focus:text-destructive">
+                      <LogOut className="mr-2 h-4 w-4" />
+                      <span>Sign out</span>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </>
             ) : (
               <div className="flex items-center space-x-2">
                 <Link to="/login">
@@ -142,7 +151,8 @@ const Navigation = () => {
           </div>
 
           {/* Mobile menu button */}
-          <div className="md:hidden">
+          <div className="md:hidden flex items-center">
+            {isAuthenticated && isMobile && <NotificationBell />}
             <Button
               variant="ghost"
               size="icon"
@@ -0,0 +1,77 @@
+import { useNavigate } from "react-router-dom";
+import { Bell, TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { useNotifications, type UserNotification } from "@/hooks/useNotifications";
+
+const severityColor: Record<string, string> = {
+  critical: "text-red-600",
+  warning: "text-orange-500",
+  info: "text-primary",
+};
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { notifications, unread, markRead } = useNotifications();
+
+  const open = (notification: UserNotification) => {
+    if (!notification.is_read) markRead(notification.id);
+    if (notification.prediction_id) navigate("/predictions");
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread > 0 && (
+            <Button variant="link" size="sm" className="h-auto text-xs" onClick={() => markRead()}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => open(notification)}
+                className={cn("flex items-start gap-2 py-2 cursor-pointer", !notification.is_read && "bg-primary/5")}
+              >
+                <TrendingDown className={cn("h-4 w-4 mt-0.5 flex-shrink-0", severityColor[notification.severity] || "text-primary")} />
+                <div className="space-y-0.5">
+                  <div className={cn("text-sm", !notification.is_read && "font-medium")}>{notification.title}</div>
+                  <div className="text-xs text-muted-foreground">{notification.message}</div>
+                  <div className="text-[10px] text-muted-foreground">{new Date(notification.created_at).toLocaleString()}</div>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,150 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+
+export interface BacktestScore {
+  horizon_days: number;
+  sample_size: number;
+  mae: number;
+  rmse: number;
+  mape: number;
+  bias: number;
+  interval_coverage: number;
+}
+
+export interface BacktestModelResult {
+  model: string;
+  name: string;
+  version: string;
+  origins: number;
+  scores: BacktestScore[];
+}
+
+export interface BacktestResult {
+  request: {
+    state: string;
+    market: string;
+    commodity: string;
+    variety?: string;
+    horizons: number[];
+    origins: number;
+    step: number;
+  };
+  series: { records: number; start: string; end: string };
+  results: BacktestModelResult[];
+  stored: number;
+}
+
+export interface BacktestParams {
+  state: string;
+  market: string;
+  commodity: string;
+  variety?: string;
+  origins?: number;
+  step?: number;
+}
+
+interface BacktestState {
+  result: BacktestResult | null;
+  running: boolean;
+  error: string | null;
+  forbidden: boolean;
+}
+
+const SUPABASE_URL = "https://xllpedrhhzoljkfvkgef.supabase.co";
+
+const friendlyNetworkError = (error: unknown, action: string) => {
+  // Browsers throw TypeError("Failed to fetch") for CORS/preflight blocks and offline/network failures.
+  if (error instanceof TypeError && /failed to fetch/i.test(error.message)) {
+    return `Network error while trying to ${action}. Please check your connection and try again.`;
+  }
+  return error instanceof Error ? error.message : `Failed to ${action}.`;
+};
+
+export const useBacktest = () => {
+  const { session, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const isMountedRef = useRef(true);
+
+  const [state, setState] = useState<BacktestState>({
+    result: null,
+    running: false,
+    error: null,
+    forbidden: false,
+  });
+
+  // Cleanup on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Replay the market's price history through every in-process forecasting model
+  const runBacktest = useCallback(async (params: BacktestParams): Promise<BacktestResult | null> => {
+    if (!session?.access_token) {
+      return null;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, running: true, error: null }));
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/market-forecast`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'backtest', ...params }),
+      });
+
+      if (response.status === 403) {
+        if (isMountedRef.current) {
+          setState(prev => ({ ...prev, running: false, forbidden: true }));
+        }
+        return null;
+      }
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Backtest failed');
+      }
+
+      if (isMountedRef.current) {
+        setState({ result, running: false, error: null, forbidden: false });
+      }
+
+      toast({
+        title: "Backtest complete",
+        description: `${result.results.length} models scored over ${result.series.records} days of prices`,
+      });
+
+      return result;
+    } catch (error) {
+      console.error('Error running backtest:', error);
+      const message = friendlyNetworkError(error, 'run the backtest');
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, running: false, error: message }));
+      }
+
+      toast({
+        title: "Backtest failed",
+        description: message,
+        variant: "destructive",
+      });
+
+      return null;
+    }
+  }, [session?.access_token, toast]);
+
+  return {
+    ...state,
+    runBacktest,
+    isAuthenticated,
+  };
+};
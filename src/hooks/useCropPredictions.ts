@@ -0,0 +1,423 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type CropPredictionRecord = Tables<'crop_predictions'>;
+
+export interface PredictionFilters {
+  crop?: string;
+  season?: string;
+  state?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AccuracyMetrics {
+  mae: number;
+  rmse: number;
+  mape: number;
+  bias: number;
+  r2_score: number | null;
+  accuracy: number;
+  sample_size: number;
+}
+
+export interface GroupAccuracy extends AccuracyMetrics {
+  key: string;
+}
+
+export interface PredictionAccuracy {
+  overall: AccuracyMetrics | null;
+  by_crop: GroupAccuracy[];
+  by_state: GroupAccuracy[];
+  by_season: GroupAccuracy[];
+}
+
+// In-season re-estimate stored on crop_predictions.nowcasts by predict-yield's nowcast mode
+export interface Nowcast {
+  date: string;
+  yieldPerHectare: number;
+  yieldQuantiles: { p10: number; p50: number; p90: number };
+  changePercent: number;
+  rainfall: number;
+  temperature: number | null;
+  observedDays: number;
+  forecastDays: number;
+  remainingDays: number;
+  weatherSource: string;
+  notified: boolean;
+}
+
+interface CropPredictionsState {
+  predictions: CropPredictionRecord[];
+  accuracy: PredictionAccuracy | null;
+  loading: boolean;
+  deletingId: string | null;
+  recordingId: string | null;
+  nowcastingId: string | null;
+  error: string | null;
+}
+
+const SUPABASE_URL = "https://xllpedrhhzoljkfvkgef.supabase.co";
+
+const friendlyNetworkError = (error: unknown, action: string) => {
+  // Browsers throw TypeError("Failed to fetch") for CORS/preflight blocks and offline/network failures.
+  if (error instanceof TypeError && /failed to fetch/i.test(error.message)) {
+    return `Network error while trying to ${action}. Please check your connection and try again.`;
+  }
+  return error instanceof Error ? error.message : `Failed to ${action}.`;
+};
+
+// Narrow a stored jsonb column back to the shape the UI expects
+export const fromJson = <T>(value: Json | null): T | null => (value as unknown as T) ?? null;
+
+export const useCropPredictions = () => {
+  const { session, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isMountedRef = useRef(true);
+
+  const [state, setState] = useState<CropPredictionsState>({
+    predictions: [],
+    accuracy: null,
+    loading: false,
+    deletingId: null,
+    recordingId: null,
+    nowcastingId: null,
+    error: null,
+  });
+
+  // Cleanup on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+      }
+    };
+  }, []);
+
+  // Fetch the user's prediction history with optional filters
+  const fetchPredictions = useCallback(async (filters: PredictionFilters = {}) => {
+    if (!session?.access_token) {
+      return [];
+    }
+
+    // Cancel previous request
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+    }
+    abortControllerRef.current = new AbortController();
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/crop-predictions?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        signal: abortControllerRef.current.signal,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch predictions');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          predictions: result.data,
+          loading: false,
+        }));
+      }
+
+      return result.data as CropPredictionRecord[];
+    } catch (error) {
+      // Ignore abort errors
+      if (error instanceof Error && error.name === 'AbortError') {
+        return [];
+      }
+
+      console.error('Error fetching predictions:', error);
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          loading: false,
+          error: friendlyNetworkError(error, 'load your prediction history'),
+        }));
+      }
+      return [];
+    }
+  }, [session?.access_token]);
+
+  // Fetch a single saved prediction so it can be reopened
+  const fetchPrediction = useCallback(async (id: string): Promise<CropPredictionRecord | null> => {
+    if (!session?.access_token) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/crop-predictions?id=${encodeURIComponent(id)}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch prediction');
+      }
+
+      return result.data;
+    } catch (error) {
+      console.error('Error fetching prediction:', error);
+      toast({
+        title: "Could not open prediction",
+        description: friendlyNetworkError(error, 'load this prediction'),
+        variant: "destructive",
+      });
+      return null;
+    }
+  }, [session?.access_token, toast]);
+
+  // Delete a prediction from history
+  const deletePrediction = useCallback(async (id: string): Promise<boolean> => {
+    if (!session?.access_token) {
+      return false;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, deletingId: id, error: null }));
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/crop-predictions?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete prediction');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          predictions: prev.predictions.filter(p => p.id !== id),
+          deletingId: null,
+        }));
+      }
+
+      toast({
+        title: "Prediction deleted",
+        description: "The prediction has been removed from your history",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting prediction:', error);
+      const message = friendlyNetworkError(error, 'delete this prediction');
+
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          deletingId: null,
+          error: message,
+        }));
+      }
+
+      toast({
+        title: "Delete failed",
+        description: message,
+        variant: "destructive",
+      });
+
+      return false;
+    }
+  }, [session?.access_token, toast]);
+
+  // Record the harvested yield so the prediction can be scored
+  const recordActualYield = useCallback(async (id: string, actualYield: number, notes?: string): Promise<boolean> => {
+    if (!session?.access_token) {
+      return false;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, recordingId: id, error: null }));
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/crop-predictions?id=${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ actual_yield: actualYield, notes }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to record actual yield');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          predictions: prev.predictions.map(p => p.id === id ? result.data : p),
+          recordingId: null,
+        }));
+      }
+
+      toast({
+        title: "Harvest recorded",
+        description: `Prediction was off by ${Number(result.data.percentage_error).toFixed(1)}%`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error recording actual yield:', error);
+      const message = friendlyNetworkError(error, 'record the actual yield');
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, recordingId: null }));
+      }
+
+      toast({
+        title: "Could not record harvest",
+        description: message,
+        variant: "destructive",
+      });
+
+      return false;
+    }
+  }, [session?.access_token, toast]);
+
+  // Re-estimate an in-season prediction from the weather observed since sowing
+  const updateNowcast = useCallback(async (id: string): Promise<Nowcast | null> => {
+    if (!session?.access_token) {
+      return null;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, nowcastingId: id, error: null }));
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/predict-yield`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mode: 'nowcast', predictionId: id }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update the estimate');
+      }
+
+      const nowcast: Nowcast = result.results[0].nowcast;
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          predictions: prev.predictions.map(p => {
+            if (p.id !== id) return p;
+            const series = (fromJson<Nowcast[]>(p.nowcasts) || []).filter(n => n.date !== nowcast.date);
+            return { ...p, nowcasts: [...series, nowcast] as unknown as Json, last_nowcast_at: result.metadata.timestamp };
+          }),
+          nowcastingId: null,
+        }));
+      }
+
+      toast({
+        title: "Estimate updated",
+        description: `${nowcast.yieldPerHectare} tons/ha (${nowcast.changePercent > 0 ? "+" : ""}${nowcast.changePercent}% vs the original prediction)`,
+      });
+
+      return nowcast;
+    } catch (error) {
+      console.error('Error updating nowcast:', error);
+      const message = friendlyNetworkError(error, 'update the estimate');
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, nowcastingId: null }));
+      }
+
+      toast({
+        title: "Could not update the estimate",
+        description: message,
+        variant: "destructive",
+      });
+
+      return null;
+    }
+  }, [session?.access_token, toast]);
+
+  // Fetch accuracy metrics over every prediction with a recorded harvest
+  const fetchAccuracy = useCallback(async (): Promise<PredictionAccuracy | null> => {
+    if (!session?.access_token) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/crop-predictions?view=accuracy`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to compute accuracy');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, accuracy: result.data }));
+      }
+
+      return result.data;
+    } catch (error) {
+      console.error('Error fetching accuracy:', error);
+      return null;
+    }
+  }, [session?.access_token]);
+
+  return {
+    ...state,
+    fetchPredictions,
+    fetchPrediction,
+    deletePrediction,
+    recordActualYield,
+    updateNowcast,
+    fetchAccuracy,
+    isAuthenticated,
+  };
+};
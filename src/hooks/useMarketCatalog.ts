@@ -0,0 +1,127 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+
+// Record counts are days of prices; at the upper levels they add up the combinations below
+interface CatalogSummary {
+  records: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface CatalogVariety {
+  // null for prices recorded without a variety
+  variety: string | null;
+  records: number;
+  mandi_prices_records: number;
+  mandi_timeseries_records: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface CatalogCommodity extends CatalogSummary {
+  commodity: string;
+  varieties: CatalogVariety[];
+}
+
+export interface CatalogMarket extends CatalogSummary {
+  market: string;
+  commodities: CatalogCommodity[];
+}
+
+export interface CatalogDistrict extends CatalogSummary {
+  district: string;
+  markets: CatalogMarket[];
+}
+
+export interface CatalogState extends CatalogSummary {
+  state: string;
+  districts: CatalogDistrict[];
+}
+
+interface MarketCatalogState {
+  states: CatalogState[];
+  loading: boolean;
+  loaded: boolean;
+  error: string | null;
+}
+
+const SUPABASE_URL = "https://xllpedrhhzoljkfvkgef.supabase.co";
+
+const friendlyNetworkError = (error: unknown, action: string) => {
+  // Browsers throw TypeError("Failed to fetch") for CORS/preflight blocks and offline/network failures.
+  if (error instanceof TypeError && /failed to fetch/i.test(error.message)) {
+    return `Network error while trying to ${action}. Please check your connection and try again.`;
+  }
+  return error instanceof Error ? error.message : `Failed to ${action}.`;
+};
+
+export const useMarketCatalog = () => {
+  const { session, isAuthenticated } = useAuth();
+  const isMountedRef = useRef(true);
+
+  const [state, setState] = useState<MarketCatalogState>({
+    states: [],
+    loading: false,
+    loaded: false,
+    error: null,
+  });
+
+  // Cleanup on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Fetch the states, districts, markets, commodities and varieties that have recorded prices
+  const fetchCatalog = useCallback(async () => {
+    if (!session?.access_token) {
+      return;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/market-forecast?view=catalog`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch the market catalog');
+      }
+
+      if (isMountedRef.current) {
+        setState({ states: result.states, loading: false, loaded: true, error: null });
+      }
+    } catch (error) {
+      console.error('Error fetching market catalog:', error);
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          loading: false,
+          error: friendlyNetworkError(error, 'load the market catalog'),
+        }));
+      }
+    }
+  }, [session?.access_token]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchCatalog();
+    }
+  }, [isAuthenticated, fetchCatalog]);
+
+  return {
+    ...state,
+    fetchCatalog,
+  };
+};
@@ -0,0 +1,130 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type UserNotification = Tables<'user_notifications'>;
+
+interface NotificationsState {
+  notifications: UserNotification[];
+  unread: number;
+  loading: boolean;
+  error: string | null;
+}
+
+const SUPABASE_URL = "https://xllpedrhhzoljkfvkgef.supabase.co";
+
+// New in-season yield alerts arrive from the daily nowcast run, so a slow poll is enough
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+export const useNotifications = () => {
+  const { session, isAuthenticated } = useAuth();
+  const isMountedRef = useRef(true);
+
+  const [state, setState] = useState<NotificationsState>({
+    notifications: [],
+    unread: 0,
+    loading: false,
+    error: null,
+  });
+
+  // Cleanup on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Fetch the latest notifications and the unread count
+  const fetchNotifications = useCallback(async () => {
+    if (!session?.access_token) {
+      return;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/notifications`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch notifications');
+      }
+
+      if (isMountedRef.current) {
+        setState({ notifications: result.data, unread: result.unread, loading: false, error: null });
+      }
+    } catch (error) {
+      // Notifications are secondary - log and keep the last list rather than interrupting with a toast
+      console.error('Error fetching notifications:', error);
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          loading: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch notifications',
+        }));
+      }
+    }
+  }, [session?.access_token]);
+
+  // Mark one notification, or all of them when no id is given, as read
+  const markRead = useCallback(async (id?: string): Promise<boolean> => {
+    if (!session?.access_token) {
+      return false;
+    }
+
+    try {
+      const query = id ? `?id=${encodeURIComponent(id)}` : '';
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/notifications${query}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update notifications');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => {
+          const wasUnread = prev.notifications.some(n => n.id === id && !n.is_read);
+          const notifications = prev.notifications.map(n =>
+            !id || n.id === id ? { ...n, is_read: true, read_at: n.read_at || new Date().toISOString() } : n
+          );
+          return { ...prev, notifications, unread: id ? Math.max(0, prev.unread - (wasUnread ? 1 : 0)) : 0 };
+        });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      return false;
+    }
+  }, [session?.access_token]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchNotifications();
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isAuthenticated, fetchNotifications]);
+
+  return {
+    ...state,
+    fetchNotifications,
+    markRead,
+  };
+};
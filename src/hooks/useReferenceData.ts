@@ -0,0 +1,241 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ReferenceTable =
+  | 'reference_crops'
+  | 'reference_commodities'
+  | 'reference_msp'
+  | 'reference_cultivation_costs';
+
+export type ReferenceRow = Tables<ReferenceTable>;
+export type ReferenceAuditEntry = Tables<'reference_data_audit'>;
+
+type ReferenceTables = { [T in ReferenceTable]: Tables<T>[] };
+
+interface ReferenceDataState {
+  tables: ReferenceTables;
+  audit: ReferenceAuditEntry[];
+  loading: boolean;
+  saving: boolean;
+  deletingId: string | null;
+  error: string | null;
+  forbidden: boolean;
+}
+
+const SUPABASE_URL = "https://xllpedrhhzoljkfvkgef.supabase.co";
+
+const emptyTables: ReferenceTables = {
+  reference_crops: [],
+  reference_commodities: [],
+  reference_msp: [],
+  reference_cultivation_costs: [],
+};
+
+const friendlyNetworkError = (error: unknown, action: string) => {
+  // Browsers throw TypeError("Failed to fetch") for CORS/preflight blocks and offline/network failures.
+  if (error instanceof TypeError && /failed to fetch/i.test(error.message)) {
+    return `Network error while trying to ${action}. Please check your connection and try again.`;
+  }
+  return error instanceof Error ? error.message : `Failed to ${action}.`;
+};
+
+export const useReferenceData = () => {
+  const { session, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const isMountedRef = useRef(true);
+
+  const [state, setState] = useState<ReferenceDataState>({
+    tables: emptyTables,
+    audit: [],
+    loading: false,
+    saving: false,
+    deletingId: null,
+    error: null,
+    forbidden: false,
+  });
+
+  // Cleanup on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Fetch every reference table together with the latest audit entries
+  const fetchReferenceData = useCallback(async () => {
+    if (!session?.access_token) {
+      return;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const headers = {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      };
+      const [tablesResponse, auditResponse] = await Promise.all([
+        fetch(`${SUPABASE_URL}/functions/v1/reference-data`, { method: 'GET', headers }),
+        fetch(`${SUPABASE_URL}/functions/v1/reference-data?audit=true`, { method: 'GET', headers }),
+      ]);
+
+      if (tablesResponse.status === 403) {
+        if (isMountedRef.current) {
+          setState(prev => ({ ...prev, loading: false, forbidden: true }));
+        }
+        return;
+      }
+
+      const [tablesResult, auditResult] = await Promise.all([tablesResponse.json(), auditResponse.json()]);
+
+      if (!tablesResponse.ok || !auditResponse.ok) {
+        throw new Error(tablesResult.error || auditResult.error || 'Failed to fetch reference data');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          tables: { ...emptyTables, ...tablesResult.data },
+          audit: auditResult.data,
+          loading: false,
+          forbidden: false,
+        }));
+      }
+    } catch (error) {
+      console.error('Error fetching reference data:', error);
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          loading: false,
+          error: friendlyNetworkError(error, 'load reference data'),
+        }));
+      }
+    }
+  }, [session?.access_token]);
+
+  // Add a row, or update it when an id is given; the audit trail is refreshed afterwards
+  const saveRow = useCallback(async (table: ReferenceTable, record: Record<string, unknown>, id?: string): Promise<boolean> => {
+    if (!session?.access_token) {
+      return false;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, saving: true, error: null }));
+    }
+
+    try {
+      const query = id ? `?id=${encodeURIComponent(id)}` : '';
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/reference-data${query}`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ table, record }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save reference data');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, saving: false }));
+      }
+
+      toast({
+        title: id ? "Row updated" : "Row added",
+        description: "Functions will use the new value on their next request",
+      });
+
+      await fetchReferenceData();
+      return true;
+    } catch (error) {
+      console.error('Error saving reference data:', error);
+      const message = friendlyNetworkError(error, 'save this row');
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, saving: false }));
+      }
+
+      toast({
+        title: "Save failed",
+        description: message,
+        variant: "destructive",
+      });
+
+      return false;
+    }
+  }, [session?.access_token, toast, fetchReferenceData]);
+
+  // Delete a row
+  const deleteRow = useCallback(async (table: ReferenceTable, id: string): Promise<boolean> => {
+    if (!session?.access_token) {
+      return false;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, deletingId: id, error: null }));
+    }
+
+    try {
+      const response = await fetch(
+        `${SUPABASE_URL}/functions/v1/reference-data?table=${table}&id=${encodeURIComponent(id)}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete reference data');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, deletingId: null }));
+      }
+
+      toast({
+        title: "Row deleted",
+        description: "The reference row has been removed",
+      });
+
+      await fetchReferenceData();
+      return true;
+    } catch (error) {
+      console.error('Error deleting reference data:', error);
+      const message = friendlyNetworkError(error, 'delete this row');
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, deletingId: null }));
+      }
+
+      toast({
+        title: "Delete failed",
+        description: message,
+        variant: "destructive",
+      });
+
+      return false;
+    }
+  }, [session?.access_token, toast, fetchReferenceData]);
+
+  return {
+    ...state,
+    fetchReferenceData,
+    saveRow,
+    deleteRow,
+    isAuthenticated,
+  };
+};
@@ -0,0 +1,228 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+import type { FarmFormData, SoilTestData } from '@/lib/validations';
+import { fromJson } from './useCropPredictions';
+
+export type UserFarmRecord = Tables<'user_farms'>;
+
+interface UserFarmsState {
+  farms: UserFarmRecord[];
+  loading: boolean;
+  saving: boolean;
+  deletingId: string | null;
+  error: string | null;
+}
+
+const SUPABASE_URL = "https://xllpedrhhzoljkfvkgef.supabase.co";
+
+const friendlyNetworkError = (error: unknown, action: string) => {
+  // Browsers throw TypeError("Failed to fetch") for CORS/preflight blocks and offline/network failures.
+  if (error instanceof TypeError && /failed to fetch/i.test(error.message)) {
+    return `Network error while trying to ${action}. Please check your connection and try again.`;
+  }
+  return error instanceof Error ? error.message : `Failed to ${action}.`;
+};
+
+// Soil Health Card stored on the farm, if one has been entered
+export const soilTestOf = (farm: UserFarmRecord): SoilTestData | null =>
+  fromJson<SoilTestData>(farm.soil_test_results);
+
+export const useUserFarms = () => {
+  const { session, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const isMountedRef = useRef(true);
+
+  const [state, setState] = useState<UserFarmsState>({
+    farms: [],
+    loading: false,
+    saving: false,
+    deletingId: null,
+    error: null,
+  });
+
+  // Cleanup on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Fetch the user's farms
+  const fetchFarms = useCallback(async () => {
+    if (!session?.access_token) {
+      return [];
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/user-farms`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch farms');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, farms: result.data, loading: false }));
+      }
+
+      return result.data as UserFarmRecord[];
+    } catch (error) {
+      console.error('Error fetching farms:', error);
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          loading: false,
+          error: friendlyNetworkError(error, 'load your farms'),
+        }));
+      }
+      return [];
+    }
+  }, [session?.access_token]);
+
+  // Create a farm, or update it when an id is given
+  const saveFarm = useCallback(async (farm: FarmFormData, id?: string): Promise<UserFarmRecord | null> => {
+    if (!session?.access_token) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to save your farm",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, saving: true, error: null }));
+    }
+
+    try {
+      const query = id ? `?id=${encodeURIComponent(id)}` : '';
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/user-farms${query}`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(farm),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save farm');
+      }
+
+      const saved = result.data as UserFarmRecord;
+
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          farms: id
+            ? prev.farms.map(f => f.id === id ? saved : f)
+            : [...prev.farms, saved],
+          saving: false,
+        }));
+      }
+
+      toast({
+        title: id ? "Farm updated" : "Farm added",
+        description: `${saved.farm_name} has been saved`,
+      });
+
+      return saved;
+    } catch (error) {
+      console.error('Error saving farm:', error);
+      const message = friendlyNetworkError(error, 'save this farm');
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, saving: false, error: message }));
+      }
+
+      toast({
+        title: "Save failed",
+        description: message,
+        variant: "destructive",
+      });
+
+      return null;
+    }
+  }, [session?.access_token, toast]);
+
+  // Delete a farm
+  const deleteFarm = useCallback(async (id: string): Promise<boolean> => {
+    if (!session?.access_token) {
+      return false;
+    }
+
+    if (isMountedRef.current) {
+      setState(prev => ({ ...prev, deletingId: id, error: null }));
+    }
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/user-farms?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete farm');
+      }
+
+      if (isMountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          farms: prev.farms.filter(f => f.id !== id),
+          deletingId: null,
+        }));
+      }
+
+      toast({
+        title: "Farm deleted",
+        description: "The farm has been removed",
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting farm:', error);
+      const message = friendlyNetworkError(error, 'delete this farm');
+
+      if (isMountedRef.current) {
+        setState(prev => ({ ...prev, deletingId: null, error: message }));
+      }
+
+      toast({
+        title: "Delete failed",
+        description: message,
+        variant: "destructive",
+      });
+
+      return false;
+    }
+  }, [session?.access_token, toast]);
+
+  return {
+    ...state,
+    fetchFarms,
+    saveFarm,
+    deleteFarm,
+    isAuthenticated,
+  };
+};
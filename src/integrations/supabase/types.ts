@@ -58,17 +58,30 @@ export type Database = {
       }
       crop_predictions: {
         Row: {
+          absolute_error: number | null
+          actual_recorded_at: string | null
           actual_yield: number | null
+          analysis: Json | null
           area_hectares: number
           confidence_score: number | null
           created_at: string | null
           crop_type: string
           district: string | null
+          farm_id: string | null
+          fertilizer_usage: string | null
           financial_projection: Json | null
           humidity: number | null
           id: string
+          irrigation_type: string | null
+          last_nowcast_at: string | null
+          model_training_rows: number | null
+          model_version: string | null
           notes: string | null
+          nowcasts: Json
+          percentage_error: number | null
           predicted_yield: number
+          prediction_details: Json | null
+          previous_crop: string | null
           rainfall_mm: number
           recommendations: Json | null
           risk_assessment: Json | null
@@ -80,17 +93,30 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          absolute_error?: number | null
+          actual_recorded_at?: string | null
           actual_yield?: number | null
+          analysis?: Json | null
           area_hectares: number
           confidence_score?: number | null
           created_at?: string | null
           crop_type: string
           district?: string | null
+          farm_id?: string | null
+          fertilizer_usage?: string | null
           financial_projection?: Json | null
           humidity?: number | null
           id?: string
+          irrigation_type?: string | null
+          last_nowcast_at?: string | null
+          model_training_rows?: number | null
+          model_version?: string | null
           notes?: string | null
+          nowcasts?: Json
+          percentage_error?: number | null
           predicted_yield: number
+          prediction_details?: Json | null
+          previous_crop?: string | null
           rainfall_mm: number
           recommendations?: Json | null
           risk_assessment?: Json | null
@@ -102,17 +128,30 @@ export type Database = {
           user_id: string
         }
         Update: {
+          absolute_error?: number | null
+          actual_recorded_at?: string | null
           actual_yield?: number | null
+          analysis?: Json | null
           area_hectares?: number
           confidence_score?: number | null
           created_at?: string | null
           crop_type?: string
           district?: string | null
+          farm_id?: string | null
+          fertilizer_usage?: string | null
           financial_projection?: Json | null
           humidity?: number | null
           id?: string
+          irrigation_type?: string | null
+          last_nowcast_at?: string | null
+          model_training_rows?: number | null
+          model_version?: string | null
           notes?: string | null
+          nowcasts?: Json
+          percentage_error?: number | null
           predicted_yield?: number
+          prediction_details?: Json | null
+          previous_crop?: string | null
           rainfall_mm?: number
           recommendations?: Json | null
           risk_assessment?: Json | null
@@ -123,7 +162,15 @@ export type Database = {
           total_production?: number
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "crop_predictions_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "user_farms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       farm_finances: {
         Row: {
@@ -669,15 +716,18 @@ export type Database = {
       }
       ml_model_performance: {
         Row: {
+          bias: number | null
           commodity: string | null
           created_at: string
           evaluated_at: string
           evaluation_end: string | null
+          evaluation_method: string | null
           evaluation_start: string | null
           high_volatility_mae: number | null
           horizon_days: number | null
           hyperparameters: Json | null
           id: string
+          interval_coverage: number | null
           is_active: boolean | null
           mae: number | null
           mape: number | null
@@ -691,15 +741,18 @@ export type Database = {
           trained_at: string | null
         }
         Insert: {
+          bias?: number | null
           commodity?: string | null
           created_at?: string
           evaluated_at?: string
           evaluation_end?: string | null
+          evaluation_method?: string | null
           evaluation_start?: string | null
           high_volatility_mae?: number | null
           horizon_days?: number | null
           hyperparameters?: Json | null
           id?: string
+          interval_coverage?: number | null
           is_active?: boolean | null
           mae?: number | null
           mape?: number | null
@@ -713,15 +766,18 @@ export type Database = {
           trained_at?: string | null
         }
         Update: {
+          bias?: number | null
           commodity?: string | null
           created_at?: string
           evaluated_at?: string
           evaluation_end?: string | null
+          evaluation_method?: string | null
           evaluation_start?: string | null
           high_volatility_mae?: number | null
           horizon_days?: number | null
           hyperparameters?: Json | null
           id?: string
+          interval_coverage?: number | null
           is_active?: boolean | null
           mae?: number | null
           mape?: number | null
@@ -746,6 +802,7 @@ export type Database = {
           confidence_lower: number | null
           confidence_upper: number | null
           created_at: string
+          data_source: string | null
           district: string
           ensemble_prediction: number
           feature_importance: Json | null
@@ -753,6 +810,7 @@ export type Database = {
           id: string
           lstm_prediction: number | null
           market: string
+          model_name: string | null
           model_version: string | null
           model_weights: Json | null
           percentage_error: number | null
@@ -772,6 +830,7 @@ export type Database = {
           confidence_lower?: number | null
           confidence_upper?: number | null
           created_at?: string
+          data_source?: string | null
           district: string
           ensemble_prediction: number
           feature_importance?: Json | null
@@ -779,6 +838,7 @@ export type Database = {
           id?: string
           lstm_prediction?: number | null
           market: string
+          model_name?: string | null
           model_version?: string | null
           model_weights?: Json | null
           percentage_error?: number | null
@@ -798,6 +858,7 @@ export type Database = {
           confidence_lower?: number | null
           confidence_upper?: number | null
           created_at?: string
+          data_source?: string | null
           district?: string
           ensemble_prediction?: number
           feature_importance?: Json | null
@@ -805,6 +866,7 @@ export type Database = {
           id?: string
           lstm_prediction?: number | null
           market?: string
+          model_name?: string | null
           model_version?: string | null
           model_weights?: Json | null
           percentage_error?: number | null
@@ -874,6 +936,7 @@ export type Database = {
           confidence_lower: number | null
           confidence_upper: number | null
           created_at: string
+          data_source: string | null
           district: string
           feature_importance: Json | null
           forecast_date: string
@@ -899,6 +962,7 @@ export type Database = {
           confidence_lower?: number | null
           confidence_upper?: number | null
           created_at?: string
+          data_source?: string | null
           district: string
           feature_importance?: Json | null
           forecast_date: string
@@ -924,6 +988,7 @@ export type Database = {
           confidence_lower?: number | null
           confidence_upper?: number | null
           created_at?: string
+          data_source?: string | null
           district?: string
           feature_importance?: Json | null
           forecast_date?: string
@@ -970,6 +1035,216 @@ export type Database = {
         }
         Relationships: []
       }
+      reference_commodities: {
+        Row: {
+          aliases: string[]
+          base_price: number | null
+          commodity: string
+          created_at: string
+          harvest_months: number[]
+          id: string
+          is_active: boolean
+          max_ratio: number
+          min_ratio: number
+          seasonal_strength: number
+          sowing_months: number[]
+          updated_at: string
+          volatility: number
+        }
+        Insert: {
+          aliases?: string[]
+          base_price?: number | null
+          commodity: string
+          created_at?: string
+          harvest_months?: number[]
+          id?: string
+          is_active?: boolean
+          max_ratio?: number
+          min_ratio?: number
+          seasonal_strength?: number
+          sowing_months?: number[]
+          updated_at?: string
+          volatility?: number
+        }
+        Update: {
+          aliases?: string[]
+          base_price?: number | null
+          commodity?: string
+          created_at?: string
+          harvest_months?: number[]
+          id?: string
+          is_active?: boolean
+          max_ratio?: number
+          min_ratio?: number
+          seasonal_strength?: number
+          sowing_months?: number[]
+          updated_at?: string
+          volatility?: number
+        }
+        Relationships: []
+      }
+      reference_crops: {
+        Row: {
+          base_yield: number
+          best_seasons: string[]
+          best_soils: string[]
+          created_at: string
+          crop: string
+          growing_days: number
+          id: string
+          is_active: boolean
+          optimal_humidity_max: number
+          optimal_humidity_min: number
+          optimal_rainfall_max: number
+          optimal_rainfall_min: number
+          optimal_temp_max: number
+          optimal_temp_min: number
+          price_per_quintal: number
+          season_conditions: Json
+          stage_fractions: number[]
+          stage_names: string[]
+          updated_at: string
+          water_requirement: number
+        }
+        Insert: {
+          base_yield: number
+          best_seasons?: string[]
+          best_soils?: string[]
+          created_at?: string
+          crop: string
+          growing_days: number
+          id?: string
+          is_active?: boolean
+          optimal_humidity_max: number
+          optimal_humidity_min: number
+          optimal_rainfall_max: number
+          optimal_rainfall_min: number
+          optimal_temp_max: number
+          optimal_temp_min: number
+          price_per_quintal: number
+          season_conditions?: Json
+          stage_fractions?: number[]
+          stage_names?: string[]
+          updated_at?: string
+          water_requirement: number
+        }
+        Update: {
+          base_yield?: number
+          best_seasons?: string[]
+          best_soils?: string[]
+          created_at?: string
+          crop?: string
+          growing_days?: number
+          id?: string
+          is_active?: boolean
+          optimal_humidity_max?: number
+          optimal_humidity_min?: number
+          optimal_rainfall_max?: number
+          optimal_rainfall_min?: number
+          optimal_temp_max?: number
+          optimal_temp_min?: number
+          price_per_quintal?: number
+          season_conditions?: Json
+          stage_fractions?: number[]
+          stage_names?: string[]
+          updated_at?: string
+          water_requirement?: number
+        }
+        Relationships: []
+      }
+      reference_cultivation_costs: {
+        Row: {
+          cost_per_hectare: number
+          created_at: string
+          crop: string
+          id: string
+          source: string | null
+          state: string
+          updated_at: string
+        }
+        Insert: {
+          cost_per_hectare: number
+          created_at?: string
+          crop: string
+          id?: string
+          source?: string | null
+          state?: string
+          updated_at?: string
+        }
+        Update: {
+          cost_per_hectare?: number
+          created_at?: string
+          crop?: string
+          id?: string
+          source?: string | null
+          state?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      reference_data_audit: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      reference_msp: {
+        Row: {
+          commodity: string
+          created_at: string
+          id: string
+          marketing_year: string
+          msp: number
+          season: string | null
+          updated_at: string
+        }
+        Insert: {
+          commodity: string
+          created_at?: string
+          id?: string
+          marketing_year: string
+          msp: number
+          season?: string | null
+          updated_at?: string
+        }
+        Update: {
+          commodity?: string
+          created_at?: string
+          id?: string
+          marketing_year?: string
+          msp?: number
+          season?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_farms: {
         Row: {
           created_at: string | null
@@ -1012,6 +1287,56 @@ export type Database = {
         }
         Relationships: []
       }
+      user_notifications: {
+        Row: {
+          created_at: string
+          details: Json | null
+          id: string
+          is_read: boolean
+          message: string
+          notification_type: string
+          prediction_id: string | null
+          read_at: string | null
+          severity: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json | null
+          id?: string
+          is_read?: boolean
+          message: string
+          notification_type: string
+          prediction_id?: string | null
+          read_at?: string | null
+          severity?: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json | null
+          id?: string
+          is_read?: boolean
+          message?: string
+          notification_type?: string
+          prediction_id?: string | null
+          read_at?: string | null
+          severity?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_notifications_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "crop_predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -1033,11 +1358,80 @@ export type Database = {
         }
         Relationships: []
       }
+      yield_models: {
+        Row: {
+          coefficients: Json
+          created_at: string
+          id: string
+          is_active: boolean
+          metrics: Json | null
+          model_version: string
+          trained_at: string
+          trained_by: string | null
+          training_rows: number
+        }
+        Insert: {
+          coefficients: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          metrics?: Json | null
+          model_version: string
+          trained_at?: string
+          trained_by?: string | null
+          training_rows?: number
+        }
+        Update: {
+          coefficients?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          metrics?: Json | null
+          model_version?: string
+          trained_at?: string
+          trained_by?: string | null
+          training_rows?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      market_catalog: {
+        Row: {
+          commodity: string | null
+          district: string | null
+          first_seen: string | null
+          last_seen: string | null
+          mandi_prices_count: number | null
+          mandi_timeseries_count: number | null
+          market: string | null
+          record_count: number | null
+          state: string | null
+          variety: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      activate_yield_model: {
+        Args: { _model_version: string }
+        Returns: undefined
+      }
+      get_market_catalog: {
+        Args: never
+        Returns: {
+          commodity: string
+          district: string
+          first_seen: string
+          last_seen: string
+          mandi_prices_count: number
+          mandi_timeseries_count: number
+          market: string
+          record_count: number
+          state: string
+          variety: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1045,6 +1439,7 @@ export type Database = {
         }
         Returns: boolean
       }
+      refresh_market_catalog: { Args: never; Returns: undefined }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
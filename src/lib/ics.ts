@@ -0,0 +1,79 @@
+// Minimal RFC 5545 calendar export for all-day events (escaped text, folded lines, CRLF)
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  // YYYY-MM-DD; end is exclusive and defaults to the day after start
+  start: string;
+  end?: string;
+  description?: string;
+  // Days before the start to remind, e.g. 1 for the evening before
+  reminderDays?: number;
+}
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const icsDate = (date: string) => date.replace(/-/g, "");
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().split("T")[0];
+};
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 73) {
+    parts.push(line.slice(i, i + 73));
+  }
+  return parts.join("\r\n ");
+};
+
+export function buildIcs(calendarName: string, events: IcsEvent[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AgriYield//Crop Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.start)}`,
+      `DTEND;VALUE=DATE:${icsDate(event.end || nextDay(event.start))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.reminderDays !== undefined) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-P${event.reminderDays}D`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function downloadIcs(filename: string, ics: string) {
+  const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -29,11 +29,79 @@ export const yieldPredictorSchema = z.object({
     .optional(),
   irrigationType: z.string().optional(),
   fertilizerUsage: z.string().optional(),
-  previousCrop: z.string().optional()
+  previousCrop: z.string().optional(),
+  sowingDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Sowing date must be a valid date")
+    .optional()
 });
 
 export type YieldPredictorFormData = z.infer<typeof yieldPredictorSchema>;
 
+// Crop recommendation ranks every crop, so no crop is picked and rainfall may come from state history
+export const cropRecommendationSchema = yieldPredictorSchema.omit({ crop: true }).extend({
+  rainfall: yieldPredictorSchema.shape.rainfall.optional()
+});
+
+export type CropRecommendationFormData = z.infer<typeof cropRecommendationSchema>;
+
+// Soil Health Card values (N, P, K in kg/ha; micronutrients and sulphur in ppm)
+const soilValue = (label: string, max: number) => z.number({
+  invalid_type_error: `${label} must be a number`
+})
+  .min(0, `${label} cannot be negative`)
+  .max(max, `${label} value seems unrealistic (max ${max})`);
+
+export const soilTestSchema = z.object({
+  nitrogen: soilValue("Nitrogen", 1500),
+  phosphorus: soilValue("Phosphorus", 300),
+  potassium: soilValue("Potassium", 2000),
+  ph: z.number({ invalid_type_error: "pH must be a number" })
+    .min(3, "pH must be at least 3")
+    .max(11, "pH must be at most 11"),
+  organicCarbon: soilValue("Organic carbon", 5).optional(),
+  ec: soilValue("EC", 20).optional(),
+  sulphur: soilValue("Sulphur", 200).optional(),
+  zinc: soilValue("Zinc", 50).optional(),
+  iron: soilValue("Iron", 300).optional(),
+  manganese: soilValue("Manganese", 200).optional(),
+  copper: soilValue("Copper", 50).optional(),
+  boron: soilValue("Boron", 20).optional(),
+  testDate: z.string().optional(),
+  cardNumber: z.string().max(50, "Card number is too long").optional()
+});
+
+export type SoilTestData = z.infer<typeof soilTestSchema>;
+
+export const farmSchema = z.object({
+  farm_name: z.string().trim().min(1, "Farm name is required").max(100, "Farm name is too long"),
+  state: z.string().min(1, "State is required"),
+  district: z.string().optional(),
+  total_area: z.number({
+    required_error: "Area is required",
+    invalid_type_error: "Area must be a number"
+  })
+    .positive("Area must be a positive number")
+    .max(100000, "Area value seems unrealistic (max 100,000 hectares)"),
+  soil_test_results: soilTestSchema.optional()
+});
+
+export type FarmFormData = z.infer<typeof farmSchema>;
+
+// Fertilizer calculator: dose for a crop and target yield, optionally adjusted by a soil test
+export const fertilizerCalculatorSchema = z.object({
+  crop: z.string().min(1, "Crop is required"),
+  targetYield: z.number({
+    required_error: "Target yield is required",
+    invalid_type_error: "Target yield must be a number"
+  })
+    .positive("Target yield must be a positive number")
+    .max(500, "Target yield seems unrealistic (max 500 tons/hectare)"),
+  area: yieldPredictorSchema.shape.area,
+  soilTest: soilTestSchema.pick({ nitrogen: true, phosphorus: true, potassium: true }).optional()
+});
+
+export type FertilizerCalculatorFormData = z.infer<typeof fertilizerCalculatorSchema>;
+
 // Weather location validation (for any future manual input)
 export const locationSchema = z.object({
   latitude: z.number()
@@ -1,9 +1,245 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, BarChart3, Calculator, Upload, Sprout, DollarSign, Wallet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { TrendingUp, BarChart3, Calculator, Upload, Sprout, DollarSign, Wallet, Download, Loader2, FileText } from "lucide-react";
 import { Link } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useCropPredictions } from "@/hooks/useCropPredictions";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { yieldPredictorSchema } from "@/lib/validations";
+import { parseCsv, toCsv, downloadCsv } from "@/lib/csv";
+
+const PREDICT_YIELD_URL = "https://xllpedrhhzoljkfvkgef.supabase.co/functions/v1/predict-yield";
+const MAX_BATCH_ROWS = 200;
+
+// Upload columns mirror the yield predictor's request fields; "plot" is a free-text label
+const BATCH_COLUMNS = [
+  "plot", "crop", "state", "district", "soilType", "rainfall", "area", "season",
+  "temperature", "humidity", "irrigationType", "fertilizerUsage", "previousCrop", "farmId"
+];
+const NUMERIC_COLUMNS = ["rainfall", "area", "temperature", "humidity"];
+const RESULT_COLUMNS = [
+  ...BATCH_COLUMNS, "status", "error", "predicted_yield_t_ha", "yield_p10", "yield_p90",
+  "total_production_t", "confidence", "expected_profit_inr", "risk_level", "prediction_id"
+];
+
+const TEMPLATE_ROWS = [
+  { plot: "North field", crop: "Wheat", state: "Punjab", district: "Ludhiana", soilType: "Alluvial", rainfall: 450, area: 2, season: "Rabi", irrigationType: "Canal", fertilizerUsage: "Mixed", previousCrop: "Rice" },
+  { plot: "River plot", crop: "Rice", state: "West Bengal", soilType: "Alluvial", rainfall: 1400, area: 1.5, season: "Kharif" },
+];
+
+interface BatchResult {
+  row: number;
+  error: string | null;
+  yieldPerHectare?: number;
+  yieldQuantiles?: { p10: number; p50: number; p90: number };
+  totalProduction?: number;
+  confidence?: number;
+  expectedProfit?: number;
+  riskLevel?: string;
+  predictionId?: string | null;
+}
+
+interface BatchOutput {
+  fileName: string;
+  rows: Record<string, unknown>[];
+  predicted: number;
+  saved: number;
+  failed: number;
+}
+
+// Parses a row's text cells into the predictor's request shape
+const toRequest = (raw: Record<string, string>) => Object.fromEntries(
+  Object.entries(raw)
+    .filter(([key, value]) => BATCH_COLUMNS.includes(key) && key !== "plot" && value !== "")
+    .map(([key, value]) => [key, NUMERIC_COLUMNS.includes(key) ? Number(value) : value])
+);
+
+const BatchPredictionCard = () => {
+  const { session } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [output, setOutput] = useState<BatchOutput | null>(null);
+
+  const processFile = async (file: File) => {
+    if (!session?.access_token) {
+      toast({ title: "Authentication required", description: "Please log in to run batch predictions", variant: "destructive" });
+      return;
+    }
+
+    const rows = parseCsv(await file.text());
+    if (rows.length === 0 || rows.length > MAX_BATCH_ROWS) {
+      toast({
+        title: "Invalid file",
+        description: rows.length === 0 ? "The CSV has no data rows" : `A batch can contain at most ${MAX_BATCH_ROWS} plots`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Validate every row with the same schema as the single predictor form
+    const validated = rows.map(raw => {
+      const request = toRequest(raw);
+      const result = yieldPredictorSchema.safeParse(request);
+      return result.success
+        ? { raw, request: { ...result.data, farmId: raw.farmId || undefined }, error: null }
+        : { raw, request: null, error: result.error.errors.map(e => `${e.path.join(".") || "row"}: ${e.message}`).join("; ") };
+    });
+    const valid = validated.filter(v => v.request);
+
+    setIsProcessing(true);
+    try {
+      let results: BatchResult[] = [];
+      let saved = 0;
+
+      if (valid.length > 0) {
+        const response = await fetch(PREDICT_YIELD_URL, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${session.access_token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ mode: "batch", rows: valid.map(v => v.request) }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Batch prediction failed");
+        }
+        results = data.results;
+        saved = data.summary.saved;
+      }
+
+      // Server results are indexed by position among the rows that passed validation
+      let validIndex = 0;
+      const outputRows = validated.map(v => {
+        const result = v.request ? results[validIndex++] : null;
+        const error = v.error || result?.error || null;
+        return {
+          ...v.raw,
+          status: error ? "error" : "ok",
+          error: error || "",
+          predicted_yield_t_ha: result?.yieldPerHectare ?? "",
+          yield_p10: result?.yieldQuantiles?.p10 ?? "",
+          yield_p90: result?.yieldQuantiles?.p90 ?? "",
+          total_production_t: result?.totalProduction ?? "",
+          confidence: result?.confidence ?? "",
+          expected_profit_inr: result?.expectedProfit ?? "",
+          risk_level: result?.riskLevel ?? "",
+          prediction_id: result?.predictionId ?? "",
+        };
+      });
+
+      const failed = outputRows.filter(r => r.status === "error").length;
+      setOutput({ fileName: file.name, rows: outputRows, predicted: outputRows.length - failed, saved, failed });
+      toast({
+        title: "Batch complete",
+        description: `${outputRows.length - failed} of ${outputRows.length} plots predicted${saved ? `, ${saved} saved to your history` : ""}`,
+      });
+    } catch (error) {
+      console.error("Batch prediction error:", error);
+      toast({
+        title: "Batch prediction failed",
+        description: error instanceof Error ? error.message : "Unable to run the batch. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    if (!file.name.toLowerCase().endsWith(".csv")) {
+      toast({ title: "Invalid file", description: "Please upload a .csv file", variant: "destructive" });
+      return;
+    }
+    processFile(file);
+  };
+
+  return (
+    <Card className="bg-gradient-card border-0 shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Upload className="h-6 w-6 text-primary" />
+          <span>Quick Data Upload</span>
+        </CardTitle>
+        <CardDescription>
+          Upload a CSV with one plot per row to predict yields in bulk. Results are saved to your prediction history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${isDragging ? "border-primary bg-primary/5" : "border-primary/30 hover:border-primary/50"}`}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => { e.preventDefault(); setIsDragging(false); handleFiles(e.dataTransfer.files); }}
+        >
+          {isProcessing ? (
+            <Loader2 className="h-12 w-12 text-primary mx-auto mb-4 animate-spin" />
+          ) : (
+            <Upload className="h-12 w-12 text-primary mx-auto mb-4" />
+          )}
+          <p className="text-lg font-medium text-primary mb-2">
+            {isProcessing ? "Predicting your plots..." : "Drop your CSV file here or click to browse"}
+          </p>
+          <p className="text-muted-foreground mb-4">
+            Columns: {BATCH_COLUMNS.join(", ")} (up to {MAX_BATCH_ROWS} rows)
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => { handleFiles(e.target.files); e.target.value = ""; }}
+          />
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isProcessing}>
+              Choose File
+            </Button>
+            <Button variant="ghost" onClick={() => downloadCsv("yield-batch-template.csv", toCsv(BATCH_COLUMNS, TEMPLATE_ROWS))}>
+              <FileText className="h-4 w-4 mr-2" />
+              Download template
+            </Button>
+          </div>
+        </div>
+
+        {output && (
+          <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-lg bg-muted/50">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{output.fileName}</span>
+              <Badge className="bg-green-500 text-white">{output.predicted} predicted</Badge>
+              {output.failed > 0 && <Badge variant="destructive">{output.failed} with errors</Badge>}
+              <Badge variant="outline">{output.saved} saved</Badge>
+            </div>
+            <Button
+              variant="hero"
+              size="sm"
+              onClick={() => downloadCsv(output.fileName.replace(/\.csv$/i, "") + "-results.csv", toCsv(RESULT_COLUMNS, output.rows))}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download results CSV
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
 
 const Dashboard = () => {
+  const { accuracy, fetchAccuracy, isAuthenticated } = useCropPredictions();
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchAccuracy();
+    }
+  }, [isAuthenticated, fetchAccuracy]);
+
   const features = [
     {
       title: "Crop Yield Predictor",
@@ -37,7 +273,12 @@ const Dashboard = () => {
 
   const quickStats = [
     { label: "Active Predictions", value: "12", icon: Sprout },
-    { label: "Avg. Yield Accuracy", value: "94%", icon: TrendingUp },
+    {
+      label: "Avg. Yield Accuracy",
+      // Scored against harvests recorded in Prediction History
+      value: accuracy?.overall ? `${accuracy.overall.accuracy}%` : "—",
+      icon: TrendingUp
+    },
     { label: "Market Alerts", value: "3", icon: BarChart3 },
     { label: "Savings Potential", value: "₹25K", icon: DollarSign }
   ];
@@ -106,31 +347,7 @@ const Dashboard = () => {
         </div>
 
         {/* Quick Upload Section */}
-        <Card className="bg-gradient-card border-0 shadow-card">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Upload className="h-6 w-6 text-primary" />
-              <span>Quick Data Upload</span>
-            </CardTitle>
-            <CardDescription>
-              Upload your CSV files for batch predictions and analysis
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="border-2 border-dashed border-primary/30 rounded-lg p-8 text-center hover:border-primary/50 transition-colors">
-              <Upload className="h-12 w-12 text-primary mx-auto mb-4" />
-              <p className="text-lg font-medium text-primary mb-2">
-                Drop your CSV files here or click to browse
-              </p>
-              <p className="text-muted-foreground mb-4">
-                Supports crop data, weather data, and market price files
-              </p>
-              <Button variant="outline">
-                Choose Files
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+        <BatchPredictionCard />
       </div>
     </div>
   );
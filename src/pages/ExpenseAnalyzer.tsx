@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback, useEffect } from "react";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -43,6 +43,14 @@ interface OtherExpense {
   amount: number;
 }
 
+interface FertilizerPlanHandoff {
+  cost: number;
+  planName: string;
+  cropType: string;
+  area: number;
+  timestamp: string;
+}
+
 interface PredictionData {
   predictedYield: number | null;
   yieldUnit: string;
@@ -65,6 +73,20 @@ const formatPercentage = (value: number): string => {
   return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
 };
 
+// Fertilizer plan handed over by the Fertilizer Calculator (expires after 24h like the yield handoff)
+const readFertilizerHandoff = (): FertilizerPlanHandoff | null => {
+  try {
+    const saved = sessionStorage.getItem('fertilizerPlanForExpenseAnalyzer');
+    if (!saved) return null;
+    const parsed = JSON.parse(saved) as FertilizerPlanHandoff;
+    const ageHours = (Date.now() - new Date(parsed.timestamp).getTime()) / 36e5;
+    return ageHours <= 24 && parsed.cost > 0 ? parsed : null;
+  } catch (e) {
+    console.error('Failed to parse fertilizer plan:', e);
+    return null;
+  }
+};
+
 // Initial expense categories
 const initialExpenseCategories: ExpenseCategory[] = [
   { id: 'labor', name: 'Labor / Workers Cost', amount: 0, isRequired: true },
@@ -102,6 +124,9 @@ const ExpenseAnalyzer = () => {
     cropType: null,
     isFromYieldPredictor: false,
   });
+  const [fertilizerPlan] = useState<FertilizerPlanHandoff | null>(readFertilizerHandoff);
+  // Cleared once the plan has survived the saved data load, or the user has edited or saved
+  const fertilizerPlanPending = useRef(fertilizerPlan !== null);
 
   // Load saved data from database when available
   useEffect(() => {
@@ -179,9 +204,23 @@ const ExpenseAnalyzer = () => {
     }
   }, [savedData]);
 
+  // Apply the fertilizer plan on top of the saved data when it first loads, then consume the handoff;
+  // later refetches (e.g. after saving) must not overwrite the user's own fertilizer cost
+  useEffect(() => {
+    sessionStorage.removeItem('fertilizerPlanForExpenseAnalyzer');
+    if (fertilizerPlan && fertilizerPlanPending.current) {
+      setExpenseCategories(prev =>
+        prev.map(cat => cat.id === 'fertilizer' ? { ...cat, amount: fertilizerPlan.cost } : cat)
+      );
+      setHasUnsavedChanges(true);
+      if (savedData) fertilizerPlanPending.current = false;
+    }
+  }, [fertilizerPlan, savedData]);
+
   // Handle expense category change
   const handleExpenseChange = useCallback((id: string, value: string) => {
     const numValue = Math.max(0, parseFloat(value) || 0);
+    fertilizerPlanPending.current = false;
     setExpenseCategories(prev => 
       prev.map(cat => cat.id === id ? { ...cat, amount: numValue } : cat)
     );
@@ -279,6 +318,7 @@ const ExpenseAnalyzer = () => {
 
   // Save data to database
   const handleSave = useCallback(async () => {
+    fertilizerPlanPending.current = false;
     const ok = await saveFinanceData({
       expense_categories: expenseCategories,
       other_expenses: otherExpenses,
@@ -430,6 +470,11 @@ const ExpenseAnalyzer = () => {
                       <Label htmlFor={category.id} className="flex items-center gap-2">
                         {category.name}
                         <Badge variant="outline" className="text-xs">Required</Badge>
+                        {category.id === 'fertilizer' && fertilizerPlan && category.amount === fertilizerPlan.cost && (
+                          <Badge className="bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300 border-0 text-xs">
+                            From Fertilizer Calculator
+                          </Badge>
+                        )}
                       </Label>
                       <div className="relative">
                         <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
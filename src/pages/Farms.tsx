@@ -0,0 +1,378 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Tractor, Loader2, Trash2, Plus, Pencil, FlaskConical, AlertCircle, TrendingUp } from "lucide-react";
+import { useUserFarms, soilTestOf, type UserFarmRecord } from "@/hooks/useUserFarms";
+import { farmSchema, type FarmFormData, type SoilTestData } from "@/lib/validations";
+
+const states = [
+  "Andhra Pradesh", "Assam", "Bihar", "Chhattisgarh", "Gujarat", "Haryana",
+  "Jharkhand", "Karnataka", "Kerala", "Madhya Pradesh", "Maharashtra", "Odisha",
+  "Punjab", "Rajasthan", "Tamil Nadu", "Telangana", "Uttar Pradesh", "West Bengal"
+];
+
+// Soil Health Card parameters in the order the card prints them
+const soilFields: { key: keyof SoilTestData; label: string; unit: string; required?: boolean }[] = [
+  { key: "nitrogen", label: "Available N", unit: "kg/ha", required: true },
+  { key: "phosphorus", label: "Available P", unit: "kg/ha", required: true },
+  { key: "potassium", label: "Available K", unit: "kg/ha", required: true },
+  { key: "ph", label: "pH", unit: "", required: true },
+  { key: "organicCarbon", label: "Organic Carbon", unit: "%" },
+  { key: "ec", label: "EC", unit: "dS/m" },
+  { key: "sulphur", label: "Sulphur (S)", unit: "ppm" },
+  { key: "zinc", label: "Zinc (Zn)", unit: "ppm" },
+  { key: "iron", label: "Iron (Fe)", unit: "ppm" },
+  { key: "manganese", label: "Manganese (Mn)", unit: "ppm" },
+  { key: "copper", label: "Copper (Cu)", unit: "ppm" },
+  { key: "boron", label: "Boron (B)", unit: "ppm" },
+];
+
+type SoilInputs = Partial<Record<keyof SoilTestData, string>>;
+
+const toSoilInputs = (soilTest: SoilTestData | null): SoilInputs => {
+  if (!soilTest) return {};
+  const inputs: SoilInputs = {};
+  Object.entries(soilTest).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) inputs[key as keyof SoilTestData] = String(value);
+  });
+  return inputs;
+};
+
+// Builds the soil test payload; an empty card means "no soil test"
+const toSoilTest = (inputs: SoilInputs): SoilTestData | undefined => {
+  const hasValues = soilFields.some(f => inputs[f.key]?.trim());
+  if (!hasValues) return undefined;
+
+  const soilTest: Record<string, number | string | undefined> = {};
+  soilFields.forEach(({ key }) => {
+    const raw = inputs[key]?.trim();
+    soilTest[key] = raw ? Number(raw) : undefined;
+  });
+  soilTest.testDate = inputs.testDate || undefined;
+  soilTest.cardNumber = inputs.cardNumber?.trim() || undefined;
+  return soilTest as unknown as SoilTestData;
+};
+
+interface FarmDialogProps {
+  farm?: UserFarmRecord;
+  saving: boolean;
+  onSave: (data: FarmFormData) => Promise<boolean>;
+}
+
+const FarmDialog = ({ farm, saving, onSave }: FarmDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [farmName, setFarmName] = useState(farm?.farm_name || "");
+  const [state, setState] = useState(farm?.state || "");
+  const [district, setDistrict] = useState(farm?.district || "");
+  const [area, setArea] = useState(farm?.total_area?.toString() || "");
+  const [soil, setSoil] = useState<SoilInputs>(farm ? toSoilInputs(soilTestOf(farm)) : {});
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const parsed = farmSchema.safeParse({
+      farm_name: farmName,
+      state,
+      district: district.trim() || undefined,
+      total_area: area ? Number(area) : undefined,
+      soil_test_results: toSoilTest(soil),
+    });
+
+    if (!parsed.success) {
+      setValidationError(parsed.error.errors[0]?.message || "Please check the farm details");
+      return;
+    }
+
+    setValidationError(null);
+    const saved = await onSave(parsed.data as FarmFormData);
+    if (saved) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {farm ? (
+          <Button variant="outline" size="sm" className="flex-1">
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+        ) : (
+          <Button variant="hero">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Farm
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{farm ? `Edit ${farm.farm_name}` : "Add a farm"}</DialogTitle>
+          <DialogDescription>
+            Enter the values from your Soil Health Card so yield predictions use your measured nutrients instead of a generic soil type.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="farm-name">Farm name</Label>
+              <Input id="farm-name" value={farmName} onChange={(e) => setFarmName(e.target.value)} placeholder="e.g., North field" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="farm-area">Area (hectares)</Label>
+              <Input id="farm-area" type="number" step="0.01" min="0" value={area} onChange={(e) => setArea(e.target.value)} placeholder="e.g., 2.5" />
+            </div>
+            <div className="space-y-2">
+              <Label>State</Label>
+              <Select value={state} onValueChange={setState}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {states.map(s => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="farm-district">District (optional)</Label>
+              <Input id="farm-district" value={district} onChange={(e) => setDistrict(e.target.value)} placeholder="e.g., Ludhiana" />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h4 className="font-semibold flex items-center gap-2">
+              <FlaskConical className="h-4 w-4 text-primary" />
+              Soil Health Card (optional)
+            </h4>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {soilFields.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`soil-${field.key}`} className="text-xs">
+                    {field.label}{field.unit ? ` (${field.unit})` : ""}{field.required ? " *" : ""}
+                  </Label>
+                  <Input
+                    id={`soil-${field.key}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={soil[field.key] || ""}
+                    onChange={(e) => setSoil(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  />
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label htmlFor="soil-testDate" className="text-xs">Test date</Label>
+                <Input
+                  id="soil-testDate"
+                  type="date"
+                  value={soil.testDate || ""}
+                  onChange={(e) => setSoil(prev => ({ ...prev, testDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="soil-cardNumber" className="text-xs">Card number</Label>
+                <Input
+                  id="soil-cardNumber"
+                  value={soil.cardNumber || ""}
+                  onChange={(e) => setSoil(prev => ({ ...prev, cardNumber: e.target.value }))}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">* N, P, K and pH are required when entering a soil test.</p>
+          </div>
+
+          {validationError && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 text-red-700 border border-red-200 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              <span>{validationError}</span>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button variant="hero" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save farm
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Farms = () => {
+  const navigate = useNavigate();
+  const {
+    farms,
+    loading,
+    saving,
+    deletingId,
+    error,
+    fetchFarms,
+    saveFarm,
+    deleteFarm,
+    isAuthenticated,
+  } = useUserFarms();
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchFarms();
+    }
+  }, [isAuthenticated, fetchFarms]);
+
+  const handleSave = async (data: FarmFormData, id?: string) => {
+    const saved = await saveFarm(data, id);
+    return saved !== null;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-primary mb-2 flex items-center gap-2">
+              <Tractor className="h-8 w-8" />
+              My Farms
+            </h1>
+            <p className="text-muted-foreground text-lg">
+              Save your fields and their Soil Health Card results to get predictions and fertilizer advice based on measured nutrients.
+            </p>
+          </div>
+          <FarmDialog saving={saving} onSave={(data) => handleSave(data)} />
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 mb-6 rounded-lg bg-red-50 text-red-700 border border-red-200">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : farms.length === 0 ? (
+          <Card className="bg-gradient-card border-0 shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <Tractor className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-xl font-semibold text-primary mb-2">No farms yet</h3>
+              <p className="text-muted-foreground max-w-md">
+                Add a farm with its Soil Health Card values to use it in the yield predictor.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {farms.map(farm => {
+              const soilTest = soilTestOf(farm);
+              return (
+                <Card key={farm.id} className="bg-gradient-card border-0 shadow-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle className="text-lg">{farm.farm_name}</CardTitle>
+                        <CardDescription>
+                          {farm.district ? `${farm.district}, ` : ""}{farm.state} • {farm.total_area} ha
+                        </CardDescription>
+                      </div>
+                      <Badge variant={soilTest ? "default" : "outline"}>
+                        {soilTest ? "Soil tested" : "No soil test"}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {soilTest ? (
+                      <div className="grid grid-cols-4 gap-2 text-sm">
+                        {soilFields.filter(f => soilTest[f.key] !== undefined && soilTest[f.key] !== null).map(field => (
+                          <div key={field.key} className="p-2 bg-muted/50 rounded-lg text-center">
+                            <div className="font-semibold">{soilTest[field.key]}</div>
+                            <div className="text-xs text-muted-foreground">{field.label.replace("Available ", "")}</div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        Predictions for this farm use the generic soil type until a soil test is added.
+                      </p>
+                    )}
+                    {soilTest?.testDate && (
+                      <div className="text-xs text-muted-foreground">
+                        Tested {new Date(soilTest.testDate).toLocaleDateString()}
+                        {soilTest.cardNumber ? ` • Card ${soilTest.cardNumber}` : ""}
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <FarmDialog farm={farm} saving={saving} onSave={(data) => handleSave(data, farm.id)} />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => navigate(`/yield-predictor?farm=${farm.id}`)}
+                      >
+                        <TrendingUp className="h-4 w-4 mr-2" />
+                        Predict
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" disabled={deletingId === farm.id}>
+                            {deletingId === farm.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            )}
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {farm.farm_name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The farm and its soil test will be removed. Saved predictions for it are kept.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteFarm(farm.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Farms;
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -9,6 +10,7 @@ import {
   Activity, Target, AlertTriangle, Zap, Database, Brain
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useMarketCatalog } from "@/hooks/useMarketCatalog";
 import { supabase } from "@/integrations/supabase/client";
 
 interface Forecast {
@@ -19,25 +21,63 @@ interface Forecast {
   predicted_max: number;
   confidence_lower: number;
   confidence_upper: number;
+  model: string;
+  model_version: string;
+  data_source: string;
+}
+
+interface ForecastModelInfo {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  // Set when the requested model failed and the default model answered instead
+  fallback_from?: string;
+}
+
+interface TrackRecordScore {
+  evaluated: number;
+  mae: number;
+  mape: number;
+  bias: number;
+  interval_coverage: number | null;
 }
 
-interface ModelPrediction {
-  arima_prediction?: number;
-  xgboost_prediction?: number;
-  lstm_prediction?: number;
-  ensemble_prediction: number;
+// How the model's stored forecasts for this market compared with the prices on their target dates
+interface TrackRecord extends TrackRecordScore {
+  by_horizon: Array<TrackRecordScore & { label: string }>;
+  recent: Array<{
+    target_date: string;
+    horizon_days: number;
+    predicted_modal: number;
+    actual_modal: number;
+    percentage_error: number | null;
+  }>;
 }
 
 interface ForecastResult {
   success: boolean;
-  source: string;
+  model: ForecastModelInfo;
+  data_source: string;
   request: {
     state: string;
     district: string;
     market: string;
     commodity: string;
     horizon: number;
+    harvest_date?: string;
   };
+  harvest_window?: {
+    harvest_date: string;
+    start: string;
+    end: string;
+    days: number;
+    average_modal: number;
+    lowest_modal: number | null;
+    highest_modal: number | null;
+    confidence_lower: number | null;
+    confidence_upper: number | null;
+  } | null;
   historical_summary: {
     days_analyzed: number;
     latest_price: number;
@@ -45,8 +85,6 @@ interface ForecastResult {
     price_range?: { min: number; max: number };
   };
   forecasts: Forecast[];
-  model_used: string;
-  model_version: string;
   feature_importance: Record<string, number>;
   top_drivers: Array<{ driver: string; impact: string; strength: number }>;
   statistics: {
@@ -59,65 +97,79 @@ interface ForecastResult {
     coefficient_of_variation?: number;
   };
   model_weights?: Record<string, number>;
-  model_predictions?: ModelPrediction;
+  // Last-horizon prediction per component, keyed `<component>_prediction`, plus ensemble_prediction
+  model_predictions?: Record<string, number>;
+  track_record: TrackRecord | null;
 }
 
+const FORECAST_URL = "https://xllpedrhhzoljkfvkgef.supabase.co/functions/v1/market-forecast";
+const DEFAULT_ML_API_URL: string = import.meta.env.VITE_ML_API_URL || "";
+// Select value for "any variety"; Radix selects can't use an empty string
+const ALL_VARIETIES = "all";
+
 const MarketForecast = () => {
   const { toast } = useToast();
-  const [selectedState, setSelectedState] = useState("");
-  const [selectedDistrict, setSelectedDistrict] = useState("");
+  // Opened from a yield prediction with ?state=&district=&commodity=&harvest=YYYY-MM-DD
+  const [searchParams] = useSearchParams();
+  const [selectedState, setSelectedState] = useState(searchParams.get("state") || "");
+  const [selectedDistrict, setSelectedDistrict] = useState(searchParams.get("district") || "");
   const [selectedMarket, setSelectedMarket] = useState("");
-  const [selectedCommodity, setSelectedCommodity] = useState("");
+  const [selectedCommodity, setSelectedCommodity] = useState(searchParams.get("commodity") || "");
+  const [selectedVariety, setSelectedVariety] = useState(ALL_VARIETIES);
   const [selectedHorizon, setSelectedHorizon] = useState("7");
+  const [harvestDate, setHarvestDate] = useState(searchParams.get("harvest") || "");
   const [forecast, setForecast] = useState<ForecastResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [mlApiUrl, setMlApiUrl] = useState(import.meta.env.VITE_ML_API_URL || "");
-
-  const states = [
-    "Andhra Pradesh", "Karnataka", "Maharashtra", "Tamil Nadu", 
-    "Madhya Pradesh", "Gujarat", "Rajasthan", "Uttar Pradesh",
-    "Punjab", "Haryana", "Bihar", "West Bengal", "Telangana"
-  ];
-
-  const districtsByState: Record<string, string[]> = {
-    "Andhra Pradesh": ["East Godavari", "West Godavari", "Krishna", "Guntur", "Prakasam", "Nellore"],
-    "Karnataka": ["Raichur", "Bellary", "Davangere", "Shimoga", "Belgaum", "Hubli-Dharwad"],
-    "Maharashtra": ["Nashik", "Pune", "Ahmednagar", "Solapur", "Kolhapur", "Sangli"],
-    "Tamil Nadu": ["Thanjavur", "Tiruchirapalli", "Salem", "Erode", "Coimbatore", "Madurai"],
-    "Madhya Pradesh": ["Indore", "Ujjain", "Dewas", "Ratlam", "Mandsaur", "Neemuch"],
-    "Gujarat": ["Rajkot", "Junagadh", "Ahmedabad", "Mehsana", "Banaskantha", "Sabarkantha"],
-    "Rajasthan": ["Jaipur", "Jodhpur", "Kota", "Udaipur", "Bikaner", "Alwar"],
-    "Uttar Pradesh": ["Agra", "Lucknow", "Kanpur", "Varanasi", "Allahabad", "Meerut"],
-    "Punjab": ["Ludhiana", "Amritsar", "Jalandhar", "Patiala", "Bathinda", "Moga"],
-    "Haryana": ["Karnal", "Hisar", "Sirsa", "Fatehabad", "Kurukshetra", "Ambala"],
-    "Bihar": ["Patna", "Muzaffarpur", "Bhagalpur", "Darbhanga", "Gaya", "Vaishali"],
-    "West Bengal": ["Bardhaman", "Hooghly", "Nadia", "Murshidabad", "Birbhum", "Malda"],
-    "Telangana": ["Nizamabad", "Karimnagar", "Warangal", "Khammam", "Nalgonda", "Mahbubnagar"]
-  };
-
-  const marketsByDistrict: Record<string, string[]> = {
-    "East Godavari": ["Kakinada", "Rajahmundry", "Amalapuram", "Ramachandrapuram", "Peddapuram"],
-    "Raichur": ["Raichur", "Sindhanur", "Manvi", "Devadurga", "Lingasugur"],
-    "Nashik": ["Nashik", "Pimpalgaon", "Lasalgaon", "Deola", "Malegaon"],
-    "Thanjavur": ["Thanjavur", "Kumbakonam", "Pattukkottai", "Orathanadu", "Papanasam"],
-    "Indore": ["Indore", "Mhow", "Depalpur", "Sanwer", "Hatod"],
+  const [mlApiUrl, setMlApiUrl] = useState(DEFAULT_ML_API_URL);
+  const [models, setModels] = useState<ForecastModelInfo[]>([]);
+  const [selectedModel, setSelectedModel] = useState("");
+
+  // Models registered with the forecasting service; a configured ML API URL preselects the external model
+  useEffect(() => {
+    const loadModels = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        const response = await fetch(FORECAST_URL, {
+          method: 'GET',
+          headers: { 'Authorization': `Bearer ${session?.access_token}` }
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) return;
+        setModels(data.models);
+        setSelectedModel(current => current || (DEFAULT_ML_API_URL ? 'external' : data.default_model));
+      } catch (error) {
+        console.error('Error loading forecast models:', error);
+      }
+    };
+    loadModels();
+  }, []);
+
+  // Only places and commodities with recorded mandi prices can be selected
+  const { states: catalogStates, loading: catalogLoading, loaded: catalogLoaded, error: catalogError } = useMarketCatalog();
+  const stateEntry = catalogStates.find(s => s.state === selectedState);
+  const districts = stateEntry?.districts || [];
+  const districtEntry = districts.find(d => d.district === selectedDistrict);
+  const markets = districtEntry?.markets || [];
+  const marketEntry = markets.find(m => m.market === selectedMarket);
+  const commodities = marketEntry?.commodities || [];
+  const varieties = (commodities.find(c => c.commodity === selectedCommodity)?.varieties || [])
+    .filter(v => v.variety !== null);
+
+  // A state or district passed in the URL may have no price history
+  const unavailablePlace = !catalogLoaded ? null
+    : selectedState && !stateEntry ? selectedState
+    : selectedDistrict && !districtEntry ? `${selectedDistrict}, ${selectedState}`
+    : null;
+
+  // Keep a commodity passed in the URL when the chosen market trades it, matching the catalog's spelling
+  const selectMarket = (market: string) => {
+    setSelectedMarket(market);
+    const traded = markets.find(m => m.market === market)?.commodities || [];
+    const match = traded.find(c => c.commodity.toLowerCase() === selectedCommodity.toLowerCase());
+    setSelectedCommodity(match ? match.commodity : "");
+    setSelectedVariety(ALL_VARIETIES);
   };
 
-  const commodities = [
-    { name: "Paddy", unit: "₹/quintal" },
-    { name: "Rice", unit: "₹/quintal" },
-    { name: "Wheat", unit: "₹/quintal" },
-    { name: "Cotton", unit: "₹/quintal" },
-    { name: "Maize", unit: "₹/quintal" },
-    { name: "Onion", unit: "₹/quintal" },
-    { name: "Potato", unit: "₹/quintal" },
-    { name: "Tomato", unit: "₹/quintal" },
-    { name: "Soybean", unit: "₹/quintal" },
-    { name: "Groundnut", unit: "₹/quintal" },
-    { name: "Chilli", unit: "₹/quintal" },
-    { name: "Turmeric", unit: "₹/quintal" }
-  ];
-
   const horizons = [
     { value: "1", label: "1 Day" },
     { value: "3", label: "3 Days" },
@@ -126,9 +178,6 @@ const MarketForecast = () => {
     { value: "30", label: "30 Days" }
   ];
 
-  const districts = selectedState ? districtsByState[selectedState] || [] : [];
-  const markets = selectedDistrict ? (marketsByDistrict[selectedDistrict] || [`${selectedDistrict} Main`]) : [];
-
   const generateForecast = async () => {
     if (!selectedState || !selectedMarket || !selectedCommodity) {
       toast({
@@ -144,7 +193,7 @@ const MarketForecast = () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
       const response = await fetch(
-        `https://xllpedrhhzoljkfvkgef.supabase.co/functions/v1/market-forecast`,
+        FORECAST_URL,
         {
           method: 'POST',
           headers: { 
@@ -157,17 +206,20 @@ const MarketForecast = () => {
             district: selectedDistrict,
             market: selectedMarket,
             commodity: selectedCommodity,
+            variety: selectedVariety === ALL_VARIETIES ? undefined : selectedVariety,
             horizon: parseInt(selectedHorizon),
-            ml_api_url: mlApiUrl || undefined
+            harvest_date: harvestDate || undefined,
+            model: selectedModel || undefined,
+            ml_api_url: selectedModel === 'external' ? mlApiUrl || undefined : undefined
           })
         }
       );
 
+      const data = await response.json().catch(() => ({}));
+
       if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
+        throw new Error(data.error || `API error: ${response.status}`);
       }
-
-      const data = await response.json();
       
       if (!data.success) {
         throw new Error(data.error || 'Forecast failed');
@@ -176,7 +228,9 @@ const MarketForecast = () => {
       setForecast(data);
       toast({
         title: "Forecast Generated",
-        description: `${selectedHorizon}-day forecast for ${selectedCommodity} at ${selectedMarket}`
+        description: harvestDate
+          ? `Harvest-window forecast for ${selectedCommodity} at ${selectedMarket}`
+          : `${selectedHorizon}-day forecast for ${selectedCommodity} at ${selectedMarket}`
       });
     } catch (error) {
       console.error('Forecast error:', error);
@@ -190,6 +244,12 @@ const MarketForecast = () => {
     }
   };
 
+  const formatDay = (date: string) =>
+    new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const historyLabel = (records: number, lastSeen: string) =>
+    `${records.toLocaleString('en-IN')} records · last ${formatDay(lastSeen)}`;
+
   const getTrendIcon = (current: number, predicted: number) => {
     const change = ((predicted - current) / current) * 100;
     if (change > 1) return <TrendingUp className="h-4 w-4 text-green-600" />;
@@ -213,8 +273,8 @@ const MarketForecast = () => {
             Ultra Super Market Forecaster
           </h1>
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-            ML-powered price predictions with ARIMA, XGBoost, LSTM ensemble models. 
-            Connect to your external ML API for production-grade accuracy.
+            Price predictions from Holt-Winters, ARIMA and market-feature regression models, ensembled by backtest accuracy.
+            Connect your own ML API to compare it against them.
           </p>
         </div>
 
@@ -229,15 +289,19 @@ const MarketForecast = () => {
               <CardDescription>Choose market, commodity, and forecast horizon</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {catalogError && (
+                <p className="text-sm text-red-600">{catalogError}</p>
+              )}
+
               <div>
                 <label className="text-sm font-medium mb-2 block">State</label>
                 <Select value={selectedState} onValueChange={(v) => { setSelectedState(v); setSelectedDistrict(""); setSelectedMarket(""); }}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select State" />
+                    <SelectValue placeholder={catalogLoading ? "Loading markets..." : "Select State"} />
                   </SelectTrigger>
                   <SelectContent>
-                    {states.map(state => (
-                      <SelectItem key={state} value={state}>{state}</SelectItem>
+                    {catalogStates.map(s => (
+                      <SelectItem key={s.state} value={s.state}>{s.state}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
@@ -245,27 +309,35 @@ const MarketForecast = () => {
 
               <div>
                 <label className="text-sm font-medium mb-2 block">District</label>
-                <Select value={selectedDistrict} onValueChange={(v) => { setSelectedDistrict(v); setSelectedMarket(""); }} disabled={!selectedState}>
+                <Select value={selectedDistrict} onValueChange={(v) => { setSelectedDistrict(v); setSelectedMarket(""); }} disabled={!stateEntry}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select District" />
                   </SelectTrigger>
                   <SelectContent>
-                    {districts.map(district => (
-                      <SelectItem key={district} value={district}>{district}</SelectItem>
+                    {districts.map(d => (
+                      <SelectItem key={d.district} value={d.district}>{d.district}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {unavailablePlace && (
+                <p className="text-xs text-muted-foreground">
+                  No mandi prices are recorded for {unavailablePlace}. Choose a place with price history.
+                </p>
+              )}
+
               <div>
                 <label className="text-sm font-medium mb-2 block">Market (Mandi)</label>
-                <Select value={selectedMarket} onValueChange={setSelectedMarket} disabled={!selectedDistrict}>
+                <Select value={selectedMarket} onValueChange={selectMarket} disabled={!districtEntry}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select Market" />
                   </SelectTrigger>
                   <SelectContent>
-                    {markets.map(market => (
-                      <SelectItem key={market} value={market}>{market}</SelectItem>
+                    {markets.map(m => (
+                      <SelectItem key={m.market} value={m.market}>
+                        {m.market} <span className="text-xs text-muted-foreground">({historyLabel(m.records, m.last_seen)})</span>
+                      </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
@@ -273,45 +345,99 @@ const MarketForecast = () => {
 
               <div>
                 <label className="text-sm font-medium mb-2 block">Commodity</label>
-                <Select value={selectedCommodity} onValueChange={setSelectedCommodity}>
+                <Select value={selectedCommodity} onValueChange={(v) => { setSelectedCommodity(v); setSelectedVariety(ALL_VARIETIES); }} disabled={!marketEntry}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select Commodity" />
                   </SelectTrigger>
                   <SelectContent>
                     {commodities.map(c => (
-                      <SelectItem key={c.name} value={c.name}>{c.name} ({c.unit})</SelectItem>
+                      <SelectItem key={c.commodity} value={c.commodity}>
+                        {c.commodity} <span className="text-xs text-muted-foreground">({historyLabel(c.records, c.last_seen)})</span>
+                      </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {varieties.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Variety</label>
+                  <Select value={selectedVariety} onValueChange={setSelectedVariety}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_VARIETIES}>All varieties</SelectItem>
+                      {varieties.map(v => (
+                        <SelectItem key={v.variety} value={v.variety as string}>
+                          {v.variety} <span className="text-xs text-muted-foreground">({historyLabel(v.records, v.last_seen)})</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div>
                 <label className="text-sm font-medium mb-2 block">Forecast Horizon</label>
-                <Select value={selectedHorizon} onValueChange={setSelectedHorizon}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {horizons.map(h => (
-                      <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                {harvestDate ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="secondary" className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      Harvest window: {formatDay(harvestDate)} ± 7 days
+                    </Badge>
+                    <Button variant="ghost" size="sm" onClick={() => setHarvestDate("")}>
+                      Clear
+                    </Button>
+                  </div>
+                ) : (
+                  <Select value={selectedHorizon} onValueChange={setSelectedHorizon}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {horizons.map(h => (
+                        <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
 
-              <div>
-                <label className="text-sm font-medium mb-2 block">External ML API (Optional)</label>
-                <input 
-                  type="text"
-                  value={mlApiUrl}
-                  onChange={(e) => setMlApiUrl(e.target.value)}
-                  placeholder="https://your-ml-api.com/forecast"
-                  className="w-full px-3 py-2 border rounded-md text-sm bg-background"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Connect your trained ARIMA/XGBoost/LSTM model
-                </p>
-              </div>
+              {models.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Model</label>
+                  <Select value={selectedModel} onValueChange={setSelectedModel}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select Model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models.map(m => (
+                        <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {models.find(m => m.id === selectedModel)?.description}
+                  </p>
+                </div>
+              )}
+
+              {selectedModel === 'external' && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">External ML API</label>
+                  <input 
+                    type="text"
+                    value={mlApiUrl}
+                    onChange={(e) => setMlApiUrl(e.target.value)}
+                    placeholder="https://your-ml-api.com/forecast"
+                    className="w-full px-3 py-2 border rounded-md text-sm bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Connect your own trained forecasting model
+                  </p>
+                </div>
+              )}
 
               <Button 
                 className="w-full" 
@@ -360,7 +486,7 @@ const MarketForecast = () => {
                       </CardDescription>
                     </div>
                     <Badge variant="outline" className="text-xs">
-                      {forecast.source === 'external_ml' ? 'External ML' : 'Statistical Model'}
+                      {forecast.model.name}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -374,6 +500,26 @@ const MarketForecast = () => {
                     </TabsList>
 
                     <TabsContent value="forecast" className="space-y-4">
+                      {forecast.harvest_window && forecast.harvest_window.days > 0 && (
+                        <div className="border border-primary/30 p-4 rounded-lg">
+                          <p className="text-sm text-muted-foreground">
+                            Harvest window {formatDay(forecast.harvest_window.start)} – {formatDay(forecast.harvest_window.end)}
+                          </p>
+                          <div className="flex flex-wrap justify-between items-end gap-4 mt-1">
+                            <div>
+                              <p className="text-xs text-muted-foreground">Average modal price</p>
+                              <p className="text-2xl font-bold text-primary">₹{forecast.harvest_window.average_modal}</p>
+                            </div>
+                            <div className="text-right text-sm">
+                              <p>Modal range ₹{forecast.harvest_window.lowest_modal} - ₹{forecast.harvest_window.highest_modal}</p>
+                              <p className="text-xs text-muted-foreground">
+                                95% CI ₹{forecast.harvest_window.confidence_lower} - ₹{forecast.harvest_window.confidence_upper}
+                              </p>
+                            </div>
+                          </div>
+                        </div>
+                      )}
+
                       {/* Current Price */}
                       <div className="bg-primary/10 p-4 rounded-lg">
                         <div className="flex justify-between items-center">
@@ -536,15 +682,20 @@ const MarketForecast = () => {
                       <div className="grid grid-cols-2 gap-4">
                         <div className="p-4 border rounded-lg">
                           <p className="text-sm text-muted-foreground">Model Used</p>
-                          <p className="font-semibold">{forecast.model_used}</p>
+                          <p className="font-semibold">{forecast.model.name}</p>
+                          {forecast.model.fallback_from && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              The {forecast.model.fallback_from} model was unavailable
+                            </p>
+                          )}
                         </div>
                         <div className="p-4 border rounded-lg">
                           <p className="text-sm text-muted-foreground">Version</p>
-                          <p className="font-semibold">{forecast.model_version}</p>
+                          <p className="font-semibold">{forecast.model.version}</p>
                         </div>
                         <div className="p-4 border rounded-lg">
                           <p className="text-sm text-muted-foreground">Data Source</p>
-                          <p className="font-semibold">{forecast.source}</p>
+                          <p className="font-semibold">{forecast.data_source}</p>
                         </div>
                         <div className="p-4 border rounded-lg">
                           <p className="text-sm text-muted-foreground">Confidence Level</p>
@@ -552,14 +703,88 @@ const MarketForecast = () => {
                         </div>
                       </div>
 
-                      {/* Model Weights (from external ML API) */}
+                      {/* Track record from reconciled forecasts */}
+                      <div className="p-4 border rounded-lg">
+                        <h4 className="font-semibold mb-3">Track Record at {forecast.request.market}</h4>
+                        {forecast.track_record ? (
+                          <div className="space-y-4">
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                              <div className="bg-muted/50 p-3 rounded-lg text-center">
+                                <p className="text-xs text-muted-foreground">Forecasts scored</p>
+                                <p className="text-lg font-bold">{forecast.track_record.evaluated}</p>
+                              </div>
+                              <div className="bg-muted/50 p-3 rounded-lg text-center">
+                                <p className="text-xs text-muted-foreground">Mean error</p>
+                                <p className="text-lg font-bold">₹{forecast.track_record.mae.toFixed(0)}</p>
+                              </div>
+                              <div className="bg-muted/50 p-3 rounded-lg text-center">
+                                <p className="text-xs text-muted-foreground">MAPE</p>
+                                <p className="text-lg font-bold">{forecast.track_record.mape.toFixed(1)}%</p>
+                              </div>
+                              <div className="bg-muted/50 p-3 rounded-lg text-center">
+                                <p className="text-xs text-muted-foreground">Within 95% CI</p>
+                                <p className="text-lg font-bold">
+                                  {forecast.track_record.interval_coverage !== null
+                                    ? `${(forecast.track_record.interval_coverage * 100).toFixed(0)}%`
+                                    : '—'}
+                                </p>
+                              </div>
+                            </div>
+
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="border-b">
+                                  <th className="text-left py-2 px-2">Horizon</th>
+                                  <th className="text-right py-2 px-2">Scored</th>
+                                  <th className="text-right py-2 px-2">MAPE</th>
+                                  <th className="text-right py-2 px-2">Bias</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {forecast.track_record.by_horizon.map(band => (
+                                  <tr key={band.label} className="border-b">
+                                    <td className="py-2 px-2">{band.label}</td>
+                                    <td className="text-right py-2 px-2">{band.evaluated}</td>
+                                    <td className="text-right py-2 px-2">{band.mape.toFixed(1)}%</td>
+                                    <td className="text-right py-2 px-2">{band.bias > 0 ? '+' : ''}₹{band.bias.toFixed(0)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-2">Latest scored forecasts</p>
+                              <div className="space-y-1">
+                                {forecast.track_record.recent.map(r => (
+                                  <div key={`${r.target_date}-${r.horizon_days}`} className="flex justify-between text-sm">
+                                    <span>{formatDay(r.target_date)} <span className="text-muted-foreground">({r.horizon_days}d ahead)</span></span>
+                                    <span>
+                                      ₹{r.predicted_modal} vs ₹{r.actual_modal}
+                                      {r.percentage_error !== null && (
+                                        <span className="text-muted-foreground ml-2">{r.percentage_error}% off</span>
+                                      )}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            No scored forecasts yet for this model here. Forecasts are stored and compared with the
+                            mandi price once their target dates pass.
+                          </p>
+                        )}
+                      </div>
+
+                      {/* Ensemble model weights */}
                       {forecast.model_weights && Object.keys(forecast.model_weights).length > 0 && (
                         <div className="p-4 border rounded-lg">
                           <h4 className="font-semibold mb-3">Ensemble Model Weights</h4>
                           <div className="space-y-2">
                             {Object.entries(forecast.model_weights).map(([model, weight]) => (
                               <div key={model} className="flex items-center space-x-3">
-                                <span className="w-20 text-sm uppercase">{model}</span>
+                                <span className="w-28 text-sm uppercase">{model}</span>
                                 <div className="flex-1 h-3 bg-muted rounded-full overflow-hidden">
                                   <div 
                                     className="h-full bg-accent rounded-full transition-all"
@@ -578,28 +803,22 @@ const MarketForecast = () => {
                         <div className="p-4 border rounded-lg">
                           <h4 className="font-semibold mb-3">Individual Model Predictions</h4>
                           <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                            {forecast.model_predictions.arima_prediction && (
-                              <div className="bg-muted/50 p-3 rounded-lg text-center">
-                                <p className="text-xs text-muted-foreground">ARIMA</p>
-                                <p className="text-lg font-bold">₹{forecast.model_predictions.arima_prediction.toFixed(0)}</p>
-                              </div>
-                            )}
-                            {forecast.model_predictions.xgboost_prediction && (
-                              <div className="bg-muted/50 p-3 rounded-lg text-center">
-                                <p className="text-xs text-muted-foreground">XGBoost</p>
-                                <p className="text-lg font-bold">₹{forecast.model_predictions.xgboost_prediction.toFixed(0)}</p>
-                              </div>
-                            )}
-                            {forecast.model_predictions.lstm_prediction && (
-                              <div className="bg-muted/50 p-3 rounded-lg text-center">
-                                <p className="text-xs text-muted-foreground">LSTM</p>
-                                <p className="text-lg font-bold">₹{forecast.model_predictions.lstm_prediction.toFixed(0)}</p>
+                            {Object.entries(forecast.model_predictions)
+                              .filter(([key, value]) => key !== 'ensemble_prediction' && typeof value === 'number')
+                              .map(([key, value]) => (
+                                <div key={key} className="bg-muted/50 p-3 rounded-lg text-center">
+                                  <p className="text-xs text-muted-foreground uppercase">
+                                    {key.replace(/_prediction$/, '').replace(/_/g, '-')}
+                                  </p>
+                                  <p className="text-lg font-bold">₹{value.toFixed(0)}</p>
+                                </div>
+                              ))}
+                            {typeof forecast.model_predictions.ensemble_prediction === 'number' && (
+                              <div className="bg-primary/10 p-3 rounded-lg text-center">
+                                <p className="text-xs text-muted-foreground">Ensemble</p>
+                                <p className="text-lg font-bold text-primary">₹{forecast.model_predictions.ensemble_prediction.toFixed(0)}</p>
                               </div>
                             )}
-                            <div className="bg-primary/10 p-3 rounded-lg text-center">
-                              <p className="text-xs text-muted-foreground">Ensemble</p>
-                              <p className="text-lg font-bold text-primary">₹{forecast.model_predictions.ensemble_prediction.toFixed(0)}</p>
-                            </div>
                           </div>
                         </div>
                       )}
@@ -607,12 +826,12 @@ const MarketForecast = () => {
                       <div className="p-4 border rounded-lg bg-muted/30">
                         <h4 className="font-semibold mb-2">Connect External ML API</h4>
                         <p className="text-sm text-muted-foreground mb-3">
-                          For production-grade accuracy, connect your trained ensemble model (ARIMA + XGBoost + LSTM) 
+                          To compare your own trained model with the built-in ones, connect a forecasting service
                           hosted on Railway, Render, or AWS Lambda.
                         </p>
                         <div className="text-xs font-mono bg-background p-2 rounded">
                           POST /forecast<br/>
-                          {`{ state, district, market, commodity, variety, horizon, features, historical_prices }`}
+                          {`{ state, district, market, commodity, variety, horizon, harvest_date, features, history }`}
                         </div>
                         <p className="text-xs text-muted-foreground mt-2">
                           Set <code className="bg-background px-1 rounded">VITE_ML_API_URL</code> environment variable or enter URL above.
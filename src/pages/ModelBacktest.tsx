@@ -0,0 +1,187 @@
+import { useState, type ChangeEvent } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FlaskConical, Loader2, AlertCircle, ShieldAlert, Play } from "lucide-react";
+import { useBacktest, type BacktestModelResult } from "@/hooks/useBacktest";
+
+// Forecast intervals are nominally 95%; coverage well below that means they are too narrow
+const COVERAGE_TARGET = 0.95;
+
+const formatRupees = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const ModelResultCard = ({ result }: { result: BacktestModelResult }) => (
+  <Card className="bg-gradient-card border-0 shadow-card">
+    <CardHeader>
+      <CardTitle className="text-lg">{result.name}</CardTitle>
+      <CardDescription>
+        {result.model} v{result.version} • {result.origins} forecast origins
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Horizon</TableHead>
+            <TableHead className="text-right">Samples</TableHead>
+            <TableHead className="text-right">MAE</TableHead>
+            <TableHead className="text-right">RMSE</TableHead>
+            <TableHead className="text-right">MAPE</TableHead>
+            <TableHead className="text-right">Bias</TableHead>
+            <TableHead className="text-right">Interval coverage</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.scores.map(score => (
+            <TableRow key={score.horizon_days}>
+              <TableCell className="font-medium">{score.horizon_days} day{score.horizon_days === 1 ? '' : 's'}</TableCell>
+              <TableCell className="text-right">{score.sample_size}</TableCell>
+              {score.sample_size === 0 ? (
+                <TableCell colSpan={5} className="text-right text-muted-foreground">
+                  No observed prices on the target dates
+                </TableCell>
+              ) : (
+                <>
+                  <TableCell className="text-right">{formatRupees(score.mae)}</TableCell>
+                  <TableCell className="text-right">{formatRupees(score.rmse)}</TableCell>
+                  <TableCell className="text-right">{score.mape.toFixed(1)}%</TableCell>
+                  <TableCell className={`text-right ${score.bias > 0 ? 'text-orange-600' : 'text-blue-600'}`}>
+                    {score.bias > 0 ? '+' : ''}{formatRupees(score.bias)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={score.interval_coverage >= COVERAGE_TARGET - 0.1 ? "secondary" : "destructive"}>
+                      {(score.interval_coverage * 100).toFixed(0)}%
+                    </Badge>
+                  </TableCell>
+                </>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </CardContent>
+  </Card>
+);
+
+const ModelBacktest = () => {
+  const { result, running, error, forbidden, runBacktest } = useBacktest();
+  const [form, setForm] = useState({ state: "", market: "", commodity: "", variety: "", origins: "30", step: "7" });
+
+  const update = (key: keyof typeof form) => (e: ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [key]: e.target.value }));
+
+  const canRun = form.state.trim() && form.market.trim() && form.commodity.trim() && !running;
+
+  const handleRun = () => {
+    runBacktest({
+      state: form.state.trim(),
+      market: form.market.trim(),
+      commodity: form.commodity.trim(),
+      variety: form.variety.trim() || undefined,
+      origins: parseInt(form.origins) || undefined,
+      step: parseInt(form.step) || undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-primary mb-2 flex items-center gap-2">
+            <FlaskConical className="h-8 w-8" />
+            Price Model Backtest
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Replay a market's recorded prices from rolling forecast origins and score each forecasting model by horizon.
+          </p>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 mb-6 rounded-lg bg-red-50 text-red-700 border border-red-200">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {forbidden ? (
+          <Card className="bg-gradient-card border-0 shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <ShieldAlert className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-xl font-semibold text-primary mb-2">Admin access required</h3>
+              <p className="text-muted-foreground max-w-md">
+                Only administrators can run model backtests.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card className="bg-gradient-card border-0 shadow-card">
+              <CardHeader>
+                <CardTitle>Market</CardTitle>
+                <CardDescription>
+                  Names must match mandi_timeseries exactly. Results are saved to model performance history.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="backtest-state">State</Label>
+                    <Input id="backtest-state" value={form.state} onChange={update("state")} placeholder="Karnataka" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="backtest-market">Market</Label>
+                    <Input id="backtest-market" value={form.market} onChange={update("market")} placeholder="Raichur" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="backtest-commodity">Commodity</Label>
+                    <Input id="backtest-commodity" value={form.commodity} onChange={update("commodity")} placeholder="Paddy" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="backtest-variety">Variety (optional)</Label>
+                    <Input id="backtest-variety" value={form.variety} onChange={update("variety")} />
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2 w-32">
+                    <Label htmlFor="backtest-origins">Origins</Label>
+                    <Input id="backtest-origins" type="number" min={1} max={60} value={form.origins} onChange={update("origins")} />
+                  </div>
+                  <div className="space-y-2 w-32">
+                    <Label htmlFor="backtest-step">Step (trading days)</Label>
+                    <Input id="backtest-step" type="number" min={1} value={form.step} onChange={update("step")} />
+                  </div>
+                  <Button onClick={handleRun} disabled={!canRun}>
+                    {running ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="h-4 w-4 mr-2" />
+                    )}
+                    Run Backtest
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {result && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {result.request.commodity} at {result.request.market}, {result.request.state} • {result.series.records} days
+                  from {result.series.start} to {result.series.end} • {result.stored} results saved
+                </p>
+                {result.results.map(modelResult => (
+                  <ModelResultCard key={modelResult.model} result={modelResult} />
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModelBacktest;
@@ -0,0 +1,567 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { History, Loader2, Trash2, ExternalLink, Filter, Sprout, AlertCircle, Wheat, Target, RefreshCw, TrendingUp, TrendingDown } from "lucide-react";
+import {
+  useCropPredictions,
+  fromJson,
+  type CropPredictionRecord,
+  type GroupAccuracy,
+  type Nowcast,
+  type PredictionFilters,
+} from "@/hooks/useCropPredictions";
+
+const ALL = "all";
+
+const crops = [
+  "Rice", "Wheat", "Cotton", "Sugarcane", "Maize", "Barley", "Gram", "Groundnut",
+  "Soybean", "Sunflower", "Potato", "Onion", "Tomato", "Mustard", "Turmeric", "Chilli",
+  "Watermelon", "Muskmelon", "Cucumber", "Moong", "Fodder Sorghum"
+];
+
+const states = [
+  "Andhra Pradesh", "Assam", "Bihar", "Chhattisgarh", "Gujarat", "Haryana",
+  "Jharkhand", "Karnataka", "Kerala", "Madhya Pradesh", "Maharashtra", "Odisha",
+  "Punjab", "Rajasthan", "Tamil Nadu", "Telangana", "Uttar Pradesh", "West Bengal"
+];
+
+const seasons = ["Kharif", "Rabi", "Zaid"];
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0
+  }).format(amount);
+};
+
+const getRiskColor = (level?: string) => {
+  switch (level) {
+    case "Low": return "bg-green-500";
+    case "Medium": return "bg-yellow-500";
+    case "High": return "bg-red-500";
+    default: return "bg-muted";
+  }
+};
+
+const getAccuracyColor = (percentageError: number) => {
+  if (percentageError <= 10) return "bg-green-500";
+  if (percentageError <= 25) return "bg-yellow-500";
+  return "bg-red-500";
+};
+
+interface RecordHarvestDialogProps {
+  record: CropPredictionRecord;
+  saving: boolean;
+  onSave: (actualYield: number, notes?: string) => Promise<boolean>;
+}
+
+const RecordHarvestDialog = ({ record, saving, onSave }: RecordHarvestDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [actualYield, setActualYield] = useState(record.actual_yield?.toString() || "");
+  const [notes, setNotes] = useState(record.notes || "");
+
+  const parsedYield = parseFloat(actualYield);
+  const isValid = !isNaN(parsedYield) && parsedYield > 0;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    const saved = await onSave(parsedYield, notes.trim() || undefined);
+    if (saved) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-1">
+          <Wheat className="h-4 w-4 mr-2" />
+          {record.actual_yield ? "Edit harvest" : "Record harvest"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record actual harvest</DialogTitle>
+          <DialogDescription>
+            Enter the yield you harvested for {record.crop_type} ({record.season}, {record.state}). It is compared with the predicted {record.predicted_yield} tons/ha.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`actual-${record.id}`}>Actual yield (tons/hectare)</Label>
+            <Input
+              id={`actual-${record.id}`}
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="e.g., 4.2"
+              value={actualYield}
+              onChange={(e) => setActualYield(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`notes-${record.id}`}>Notes (optional)</Label>
+            <Textarea
+              id={`notes-${record.id}`}
+              placeholder="Weather events, pest outbreaks, changes in practice..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button variant="hero" onClick={handleSave} disabled={!isValid || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save harvest
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Saved predictions can be re-estimated from sowing until the harvest date, before a harvest is recorded
+const isInSeason = (record: CropPredictionRecord) => {
+  const phenology = fromJson<{ phenology?: { sowingDate: string; harvestDate: string } | null }>(record.analysis)?.phenology;
+  const today = new Date().toISOString().split("T")[0];
+  return !!phenology && record.actual_yield === null && phenology.sowingDate <= today && today < phenology.harvestDate;
+};
+
+// Original prediction followed by each in-season re-estimate, as bars scaled to the largest
+const NowcastTrend = ({ record, nowcasts }: { record: CropPredictionRecord; nowcasts: Nowcast[] }) => {
+  const latest = nowcasts[nowcasts.length - 1];
+  const points = [
+    { label: "At sowing", value: Number(record.predicted_yield) },
+    ...nowcasts.map(n => ({ label: new Date(n.date).toLocaleDateString(undefined, { day: "numeric", month: "short" }), value: n.yieldPerHectare })),
+  ];
+  const max = Math.max(...points.map(p => p.value), 1e-6);
+
+  return (
+    <div className="p-2 rounded-lg bg-muted/50 text-sm space-y-2">
+      <div className="flex items-center justify-between">
+        <span>
+          <span className="text-muted-foreground">In-season estimate </span>
+          <span className="font-semibold">{latest.yieldPerHectare} tons/ha</span>
+        </span>
+        <span className={`flex items-center gap-1 text-xs font-medium ${latest.changePercent < 0 ? "text-red-600" : "text-green-600"}`}>
+          {latest.changePercent < 0 ? <TrendingDown className="h-3 w-3" /> : <TrendingUp className="h-3 w-3" />}
+          {latest.changePercent > 0 ? "+" : ""}{latest.changePercent}%
+        </span>
+      </div>
+      <div className="flex items-end gap-1 h-10">
+        {points.map((point, index) => (
+          <div
+            key={`${point.label}-${index}`}
+            className={`flex-1 rounded-t ${index === 0 ? "bg-muted-foreground/40" : "bg-primary/70"}`}
+            style={{ height: `${(point.value / max) * 100}%` }}
+            title={`${point.label}: ${point.value} tons/ha`}
+          />
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {latest.observedDays} days observed • {latest.forecastDays} forecast • {latest.remainingDays} to go • {latest.rainfall} mm season rain
+      </div>
+    </div>
+  );
+};
+
+const AccuracyTable = ({ rows, label }: { rows: GroupAccuracy[]; label: string }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{label}</TableHead>
+        <TableHead className="text-right">Accuracy</TableHead>
+        <TableHead className="text-right">MAPE</TableHead>
+        <TableHead className="text-right">MAE (t/ha)</TableHead>
+        <TableHead className="text-right">Bias (t/ha)</TableHead>
+        <TableHead className="text-right">Harvests</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.map(row => (
+        <TableRow key={row.key}>
+          <TableCell className="font-medium">{row.key}</TableCell>
+          <TableCell className="text-right">{row.accuracy}%</TableCell>
+          <TableCell className="text-right">{row.mape}%</TableCell>
+          <TableCell className="text-right">{row.mae}</TableCell>
+          <TableCell className="text-right">{row.bias > 0 ? "+" : ""}{row.bias}</TableCell>
+          <TableCell className="text-right">{row.sample_size}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const PredictionHistory = () => {
+  const navigate = useNavigate();
+  const {
+    predictions,
+    accuracy,
+    loading,
+    deletingId,
+    recordingId,
+    nowcastingId,
+    error,
+    fetchPredictions,
+    fetchAccuracy,
+    deletePrediction,
+    recordActualYield,
+    updateNowcast,
+    isAuthenticated,
+  } = useCropPredictions();
+  const [filters, setFilters] = useState<PredictionFilters>({});
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchPredictions(filters);
+    }
+  }, [isAuthenticated, filters, fetchPredictions]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchAccuracy();
+    }
+  }, [isAuthenticated, fetchAccuracy]);
+
+  const handleRecordHarvest = async (id: string, actualYield: number, notes?: string) => {
+    const saved = await recordActualYield(id, actualYield, notes);
+    if (saved) fetchAccuracy();
+    return saved;
+  };
+
+  const handleDelete = async (id: string) => {
+    const deleted = await deletePrediction(id);
+    if (deleted) fetchAccuracy();
+  };
+
+  const handleFilterChange = (field: keyof PredictionFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value === ALL ? undefined : value || undefined }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-primary mb-2 flex items-center gap-2">
+            <History className="h-8 w-8" />
+            Prediction History
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Every yield prediction you run is saved here. Record your actual harvest to see how accurate the predictions were.
+          </p>
+        </div>
+
+        {/* Accuracy */}
+        {accuracy?.overall && (
+          <Card className="bg-gradient-card border-0 shadow-card mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Target className="h-5 w-5 text-primary" />
+                Prediction Accuracy
+              </CardTitle>
+              <CardDescription>
+                Based on {accuracy.overall.sample_size} recorded harvest{accuracy.overall.sample_size === 1 ? "" : "s"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <div className="text-center p-3 bg-primary/10 rounded-lg">
+                  <div className="text-2xl font-bold text-primary">{accuracy.overall.accuracy}%</div>
+                  <div className="text-xs text-muted-foreground">Accuracy</div>
+                </div>
+                <div className="text-center p-3 bg-muted/50 rounded-lg">
+                  <div className="text-2xl font-bold">{accuracy.overall.mape}%</div>
+                  <div className="text-xs text-muted-foreground">MAPE</div>
+                </div>
+                <div className="text-center p-3 bg-muted/50 rounded-lg">
+                  <div className="text-2xl font-bold">{accuracy.overall.mae}</div>
+                  <div className="text-xs text-muted-foreground">MAE (t/ha)</div>
+                </div>
+                <div className="text-center p-3 bg-muted/50 rounded-lg">
+                  <div className="text-2xl font-bold">{accuracy.overall.rmse}</div>
+                  <div className="text-xs text-muted-foreground">RMSE (t/ha)</div>
+                </div>
+                <div className="text-center p-3 bg-muted/50 rounded-lg">
+                  <div className="text-2xl font-bold">
+                    {accuracy.overall.bias > 0 ? "+" : ""}{accuracy.overall.bias}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {accuracy.overall.bias > 0 ? "Over-predicting" : accuracy.overall.bias < 0 ? "Under-predicting" : "Bias"} (t/ha)
+                  </div>
+                </div>
+              </div>
+
+              <Tabs defaultValue="crop">
+                <TabsList>
+                  <TabsTrigger value="crop">By Crop</TabsTrigger>
+                  <TabsTrigger value="state">By State</TabsTrigger>
+                  <TabsTrigger value="season">By Season</TabsTrigger>
+                </TabsList>
+                <TabsContent value="crop">
+                  <AccuracyTable rows={accuracy.by_crop} label="Crop" />
+                </TabsContent>
+                <TabsContent value="state">
+                  <AccuracyTable rows={accuracy.by_state} label="State" />
+                </TabsContent>
+                <TabsContent value="season">
+                  <AccuracyTable rows={accuracy.by_season} label="Season" />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Filters */}
+        <Card className="bg-gradient-card border-0 shadow-card mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Filter className="h-5 w-5 text-primary" />
+              Filters
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+              <div className="space-y-2">
+                <Label>Crop</Label>
+                <Select value={filters.crop || ALL} onValueChange={(value) => handleFilterChange("crop", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All crops</SelectItem>
+                    {crops.map(crop => (
+                      <SelectItem key={crop} value={crop}>{crop}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Season</Label>
+                <Select value={filters.season || ALL} onValueChange={(value) => handleFilterChange("season", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All seasons</SelectItem>
+                    {seasons.map(season => (
+                      <SelectItem key={season} value={season}>{season}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>State</Label>
+                <Select value={filters.state || ALL} onValueChange={(value) => handleFilterChange("state", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All states</SelectItem>
+                    {states.map(state => (
+                      <SelectItem key={state} value={state}>{state}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input
+                  type="date"
+                  value={filters.from || ""}
+                  onChange={(e) => handleFilterChange("from", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Input
+                  type="date"
+                  value={filters.to || ""}
+                  onChange={(e) => handleFilterChange("to", e.target.value)}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 mb-6 rounded-lg bg-red-50 text-red-700 border border-red-200">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Results */}
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : predictions.length === 0 ? (
+          <Card className="bg-gradient-card border-0 shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <Sprout className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-xl font-semibold text-primary mb-2">No predictions found</h3>
+              <p className="text-muted-foreground max-w-md mb-4">
+                Run the yield predictor and your results will appear here automatically.
+              </p>
+              <Button variant="hero" onClick={() => navigate("/yield-predictor")}>
+                Open Yield Predictor
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {predictions.map(record => {
+              const risk = fromJson<{ level: string }>(record.risk_assessment);
+              const finance = fromJson<{ estimatedProfit: number }>(record.financial_projection);
+              const nowcasts = fromJson<Nowcast[]>(record.nowcasts) || [];
+              return (
+                <Card key={record.id} className="bg-gradient-card border-0 shadow-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle className="text-lg">{record.crop_type}</CardTitle>
+                        <CardDescription>
+                          {record.district ? `${record.district}, ` : ""}{record.state} • {record.season}
+                        </CardDescription>
+                      </div>
+                      {risk?.level && (
+                        <Badge className={`${getRiskColor(risk.level)} text-white`}>
+                          {risk.level} Risk
+                        </Badge>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3 text-sm">
+                      <div>
+                        <span className="text-muted-foreground">Yield</span>
+                        <div className="font-semibold">{record.predicted_yield} tons/ha</div>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Production</span>
+                        <div className="font-semibold">{record.total_production} tons</div>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Area</span>
+                        <div className="font-semibold">{record.area_hectares} ha</div>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Profit</span>
+                        <div className={`font-semibold ${finance && finance.estimatedProfit < 0 ? "text-red-600" : "text-primary"}`}>
+                          {finance ? formatCurrency(finance.estimatedProfit) : "—"}
+                        </div>
+                      </div>
+                    </div>
+                    {record.actual_yield !== null && record.percentage_error !== null && (
+                      <div className="flex items-center justify-between p-2 rounded-lg bg-muted/50 text-sm">
+                        <span>
+                          <span className="text-muted-foreground">Harvested </span>
+                          <span className="font-semibold">{record.actual_yield} tons/ha</span>
+                        </span>
+                        <Badge className={`${getAccuracyColor(Number(record.percentage_error))} text-white`}>
+                          {Math.max(0, 100 - Number(record.percentage_error)).toFixed(1)}% accurate
+                        </Badge>
+                      </div>
+                    )}
+                    {nowcasts.length > 0 && <NowcastTrend record={record} nowcasts={nowcasts} />}
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{record.created_at ? new Date(record.created_at).toLocaleString() : ""}</span>
+                      {isInSeason(record) && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          disabled={nowcastingId === record.id}
+                          onClick={() => updateNowcast(record.id)}
+                        >
+                          {nowcastingId === record.id ? (
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-3 w-3 mr-1" />
+                          )}
+                          Update estimate
+                        </Button>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <RecordHarvestDialog
+                        record={record}
+                        saving={recordingId === record.id}
+                        onSave={(actualYield, notes) => handleRecordHarvest(record.id, actualYield, notes)}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => navigate(`/yield-predictor?prediction=${record.id}`)}
+                      >
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Reopen
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" disabled={deletingId === record.id}>
+                            {deletingId === record.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            )}
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this prediction?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The {record.crop_type} prediction from {record.created_at ? new Date(record.created_at).toLocaleDateString() : "this run"} will be permanently removed.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(record.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PredictionHistory;
@@ -0,0 +1,502 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Database, Loader2, Trash2, Plus, Pencil, AlertCircle, ShieldAlert, History } from "lucide-react";
+import {
+  useReferenceData,
+  type ReferenceTable,
+  type ReferenceRow,
+  type ReferenceAuditEntry,
+} from "@/hooks/useReferenceData";
+
+type FieldKind = "text" | "number" | "list" | "months" | "boolean" | "json";
+
+interface FieldConfig {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  required?: boolean;
+}
+
+// What each reference table holds and which functions read it
+const tableConfigs: Record<ReferenceTable, {
+  title: string;
+  description: string;
+  columns: string[];
+  fields: FieldConfig[];
+}> = {
+  reference_crops: {
+    title: "Crops",
+    description: "Crop profiles and market prices used by the yield predictor.",
+    columns: ["crop", "base_yield", "growing_days", "price_per_quintal", "best_seasons", "is_active"],
+    fields: [
+      { key: "crop", label: "Crop", kind: "text", required: true },
+      { key: "base_yield", label: "Base yield (t/ha)", kind: "number", required: true },
+      { key: "optimal_temp_min", label: "Optimal temp min (°C)", kind: "number", required: true },
+      { key: "optimal_temp_max", label: "Optimal temp max (°C)", kind: "number", required: true },
+      { key: "optimal_rainfall_min", label: "Optimal rainfall min (mm)", kind: "number", required: true },
+      { key: "optimal_rainfall_max", label: "Optimal rainfall max (mm)", kind: "number", required: true },
+      { key: "optimal_humidity_min", label: "Optimal humidity min (%)", kind: "number", required: true },
+      { key: "optimal_humidity_max", label: "Optimal humidity max (%)", kind: "number", required: true },
+      { key: "growing_days", label: "Growing days", kind: "number", required: true },
+      { key: "water_requirement", label: "Water requirement (mm)", kind: "number", required: true },
+      { key: "best_soils", label: "Best soils", kind: "list" },
+      { key: "best_seasons", label: "Best seasons", kind: "list" },
+      { key: "season_conditions", label: "Ranges by season (JSON)", kind: "json" },
+      { key: "price_per_quintal", label: "Price (₹/quintal)", kind: "number", required: true },
+      { key: "is_active", label: "Active", kind: "boolean" },
+    ],
+  },
+  reference_commodities: {
+    title: "Commodities",
+    description: "Mandi commodities: price simulation parameters for the market forecast and crop calendars for the ETL pipeline.",
+    columns: ["commodity", "aliases", "base_price", "volatility", "sowing_months", "harvest_months", "is_active"],
+    fields: [
+      { key: "commodity", label: "Commodity", kind: "text", required: true },
+      { key: "aliases", label: "Agmarknet aliases", kind: "list" },
+      { key: "base_price", label: "Base price (₹/quintal, blank = latest MSP)", kind: "number" },
+      { key: "min_ratio", label: "Min price ratio", kind: "number", required: true },
+      { key: "max_ratio", label: "Max price ratio", kind: "number", required: true },
+      { key: "volatility", label: "Daily volatility", kind: "number", required: true },
+      { key: "seasonal_strength", label: "Seasonal strength", kind: "number", required: true },
+      { key: "sowing_months", label: "Sowing months (1-12)", kind: "months" },
+      { key: "harvest_months", label: "Harvest months (1-12)", kind: "months" },
+      { key: "is_active", label: "Active", kind: "boolean" },
+    ],
+  },
+  reference_msp: {
+    title: "MSP",
+    description: "Minimum support price by marketing year. The ETL pipeline uses the year in force on each arrival date.",
+    columns: ["commodity", "marketing_year", "season", "msp"],
+    fields: [
+      { key: "commodity", label: "Commodity", kind: "text", required: true },
+      { key: "marketing_year", label: "Marketing year (e.g. 2025-26)", kind: "text", required: true },
+      { key: "season", label: "Season", kind: "text" },
+      { key: "msp", label: "MSP (₹/quintal)", kind: "number", required: true },
+    ],
+  },
+  reference_cultivation_costs: {
+    title: "Cultivation Costs",
+    description: "Cost of cultivation per hectare. 'All India' rows apply to states without their own figure.",
+    columns: ["crop", "state", "cost_per_hectare", "source"],
+    fields: [
+      { key: "crop", label: "Crop", kind: "text", required: true },
+      { key: "state", label: "State", kind: "text", required: true },
+      { key: "cost_per_hectare", label: "Cost (₹/ha)", kind: "number", required: true },
+      { key: "source", label: "Source", kind: "text" },
+    ],
+  },
+};
+
+const tableOrder = Object.keys(tableConfigs) as ReferenceTable[];
+
+type FormValues = Record<string, string | boolean>;
+
+const fieldValue = (row: ReferenceRow | undefined, key: string): unknown =>
+  row ? (row as unknown as Record<string, unknown>)[key] : undefined;
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") return value.toLocaleString();
+  if (typeof value === "object") return Object.keys(value).length ? JSON.stringify(value) : "—";
+  return String(value);
+};
+
+const toFormValues = (fields: FieldConfig[], row?: ReferenceRow): FormValues => {
+  const values: FormValues = {};
+  fields.forEach(({ key, kind }) => {
+    const value = fieldValue(row, key);
+    if (kind === "boolean") values[key] = value === undefined ? true : value === true;
+    else if (kind === "json") values[key] = value ? JSON.stringify(value) : "";
+    else if (Array.isArray(value)) values[key] = value.join(", ");
+    else values[key] = value === null || value === undefined ? "" : String(value);
+  });
+  return values;
+};
+
+// Builds the request record; list and month fields are entered comma-separated
+const toRecord = (fields: FieldConfig[], values: FormValues) => {
+  const record: Record<string, unknown> = {};
+  fields.forEach(({ key, kind }) => {
+    const value = values[key];
+    if (kind === "boolean") {
+      record[key] = value === true;
+      return;
+    }
+    const text = String(value ?? "").trim();
+    if (kind === "number") record[key] = text === "" ? null : Number(text);
+    else if (kind === "list") record[key] = text.split(",").map(v => v.trim()).filter(Boolean);
+    else if (kind === "months") record[key] = text.split(",").map(v => v.trim()).filter(Boolean).map(Number);
+    else if (kind === "json") record[key] = text === "" ? {} : JSON.parse(text);
+    else record[key] = text === "" ? null : text;
+  });
+  return record;
+};
+
+const isJsonObject = (text: string) => {
+  try {
+    const value = JSON.parse(text);
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  } catch {
+    return false;
+  }
+};
+
+const validateValues = (fields: FieldConfig[], values: FormValues) => {
+  const errors: Record<string, string> = {};
+  fields.forEach(({ key, kind, required, label }) => {
+    const text = typeof values[key] === "string" ? (values[key] as string).trim() : "";
+    if (required && text === "") errors[key] = `${label} is required`;
+    else if (kind === "number" && text !== "" && !Number.isFinite(Number(text))) errors[key] = "Enter a number";
+    else if (kind === "months" && text !== "" && text.split(",").some(v => {
+      const month = Number(v.trim());
+      return !Number.isInteger(month) || month < 1 || month > 12;
+    })) errors[key] = "Months must be 1-12, comma-separated";
+    else if (kind === "json" && text !== "" && !isJsonObject(text)) errors[key] = 'Enter a JSON object, e.g. {"Zaid": {"temp": [25, 35]}}';
+  });
+  return errors;
+};
+
+interface RowDialogProps {
+  table: ReferenceTable;
+  row?: ReferenceRow;
+  saving: boolean;
+  onSave: (record: Record<string, unknown>) => Promise<boolean>;
+}
+
+const RowDialog = ({ table, row, saving, onSave }: RowDialogProps) => {
+  const { title, fields } = tableConfigs[table];
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<FormValues>(() => toFormValues(fields, row));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setValues(toFormValues(fields, row));
+      setErrors({});
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async () => {
+    const validationErrors = validateValues(fields, values);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    if (await onSave(toRecord(fields, values))) {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {row ? (
+          <Button variant="ghost" size="sm">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="hero" size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Add row
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{row ? "Edit" : "Add"} {title.toLowerCase()} row</DialogTitle>
+          <DialogDescription>
+            Changes are recorded in the audit trail and take effect on the next prediction or forecast.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {fields.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`${table}-${field.key}`}>
+                {field.label}{field.required ? " *" : ""}
+              </Label>
+              {field.kind === "boolean" ? (
+                <div className="flex items-center h-10">
+                  <Switch
+                    id={`${table}-${field.key}`}
+                    checked={values[field.key] === true}
+                    onCheckedChange={(checked) => setValues(prev => ({ ...prev, [field.key]: checked }))}
+                  />
+                </div>
+              ) : (
+                <Input
+                  id={`${table}-${field.key}`}
+                  type={field.kind === "number" ? "number" : "text"}
+                  step="any"
+                  value={String(values[field.key] ?? "")}
+                  placeholder={field.kind === "list" || field.kind === "months" ? "Comma-separated" : field.kind === "json" ? '{"Zaid": {"temp": [25, 35]}}' : undefined}
+                  onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                />
+              )}
+              {errors[field.key] && <p className="text-sm text-destructive">{errors[field.key]}</p>}
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button variant="hero" onClick={handleSubmit} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Human-readable key of an audited row, e.g. "Wheat • 2025-26"
+const auditLabel = (entry: ReferenceAuditEntry) => {
+  const data = (entry.new_data || entry.old_data || {}) as Record<string, unknown>;
+  return ["crop", "commodity", "marketing_year", "state"]
+    .map(key => data[key])
+    .filter(Boolean)
+    .join(" • ");
+};
+
+const auditChanges = (entry: ReferenceAuditEntry) => {
+  if (entry.action !== "UPDATE") return null;
+  const before = (entry.old_data || {}) as Record<string, unknown>;
+  const after = (entry.new_data || {}) as Record<string, unknown>;
+  return Object.keys(after)
+    .filter(key => key !== "updated_at" && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => `${key}: ${formatCell(before[key])} → ${formatCell(after[key])}`);
+};
+
+const actionVariant = (action: string) =>
+  action === "DELETE" ? "destructive" : action === "INSERT" ? "default" : "secondary";
+
+const ReferenceData = () => {
+  const {
+    tables,
+    audit,
+    loading,
+    saving,
+    deletingId,
+    error,
+    forbidden,
+    fetchReferenceData,
+    saveRow,
+    deleteRow,
+    isAuthenticated,
+  } = useReferenceData();
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchReferenceData();
+    }
+  }, [isAuthenticated, fetchReferenceData]);
+
+  return (
+    <div className="min-h-screen bg-gradient-hero p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-primary mb-2 flex items-center gap-2">
+            <Database className="h-8 w-8" />
+            Reference Data
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Crop profiles, commodity parameters, MSP and cultivation costs used by the prediction and forecasting services.
+          </p>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 mb-6 rounded-lg bg-red-50 text-red-700 border border-red-200">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {forbidden ? (
+          <Card className="bg-gradient-card border-0 shadow-card">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <ShieldAlert className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-xl font-semibold text-primary mb-2">Admin access required</h3>
+              <p className="text-muted-foreground max-w-md">
+                Only administrators can view and edit reference data.
+              </p>
+            </CardContent>
+          </Card>
+        ) : loading && audit.length === 0 && tables.reference_crops.length === 0 ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="reference_crops">
+            <TabsList className="grid w-full grid-cols-5 mb-6">
+              {tableOrder.map(table => (
+                <TabsTrigger key={table} value={table}>{tableConfigs[table].title}</TabsTrigger>
+              ))}
+              <TabsTrigger value="audit">Audit Trail</TabsTrigger>
+            </TabsList>
+
+            {tableOrder.map(table => {
+              const config = tableConfigs[table];
+              const rows: ReferenceRow[] = tables[table];
+              return (
+                <TabsContent key={table} value={table}>
+                  <Card className="bg-gradient-card border-0 shadow-card">
+                    <CardHeader className="flex flex-row items-start justify-between gap-4">
+                      <div>
+                        <CardTitle>{config.title}</CardTitle>
+                        <CardDescription>{config.description}</CardDescription>
+                      </div>
+                      <RowDialog table={table} saving={saving} onSave={(record) => saveRow(table, record)} />
+                    </CardHeader>
+                    <CardContent className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            {config.columns.map(column => (
+                              <TableHead key={column}>
+                                {config.fields.find(f => f.key === column)?.label || column}
+                              </TableHead>
+                            ))}
+                            <TableHead className="w-24" />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {rows.length === 0 ? (
+                            <TableRow>
+                              <TableCell colSpan={config.columns.length + 1} className="text-center text-muted-foreground py-8">
+                                No rows yet
+                              </TableCell>
+                            </TableRow>
+                          ) : rows.map(row => (
+                            <TableRow key={row.id}>
+                              {config.columns.map(column => (
+                                <TableCell key={column}>{formatCell(fieldValue(row, column))}</TableCell>
+                              ))}
+                              <TableCell>
+                                <div className="flex justify-end">
+                                  <RowDialog table={table} row={row} saving={saving} onSave={(record) => saveRow(table, record, row.id)} />
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button variant="ghost" size="sm" disabled={deletingId === row.id}>
+                                        {deletingId === row.id ? (
+                                          <Loader2 className="h-4 w-4 animate-spin" />
+                                        ) : (
+                                          <Trash2 className="h-4 w-4 text-destructive" />
+                                        )}
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Delete this row?</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Functions fall back to their defaults for anything this row covered. The deleted values stay in the audit trail.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction onClick={() => deleteRow(table, row.id)}>Delete</AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              );
+            })}
+
+            <TabsContent value="audit">
+              <Card className="bg-gradient-card border-0 shadow-card">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Audit Trail
+                  </CardTitle>
+                  <CardDescription>The most recent changes to the reference tables, newest first.</CardDescription>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Table</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Changes</TableHead>
+                        <TableHead>By</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {audit.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                            No changes recorded yet
+                          </TableCell>
+                        </TableRow>
+                      ) : audit.map(entry => {
+                        const changes = auditChanges(entry);
+                        return (
+                          <TableRow key={entry.id}>
+                            <TableCell className="whitespace-nowrap">{new Date(entry.changed_at).toLocaleString()}</TableCell>
+                            <TableCell>
+                              {tableConfigs[entry.table_name as ReferenceTable]?.title || entry.table_name}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={actionVariant(entry.action)}>{entry.action}</Badge>
+                            </TableCell>
+                            <TableCell>{auditLabel(entry)}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {changes ? (changes.length ? changes.join("; ") : "No field changes") : "—"}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs">
+                              {entry.changed_by ? entry.changed_by.slice(0, 8) : "system"}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceData;
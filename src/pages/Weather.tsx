@@ -35,6 +35,40 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface IrrigationDay {
+  date: string;
+  day_after_sowing: number;
+  stage: string;
+  kc: number;
+  et0: number;
+  etc: number;
+  rainfall: number;
+  effective_rainfall: number;
+  deficit_mm: number;
+  irrigation_mm: number;
+  gross_irrigation_mm: number;
+  volume_m3: number;
+}
+
+interface IrrigationSchedule {
+  crop: string;
+  sowing_date: string;
+  area: number;
+  irrigation_type: string;
+  efficiency: number;
+  trigger_deficit_mm: number;
+  days: IrrigationDay[];
+  total_etc_mm: number;
+  total_effective_rainfall_mm: number;
+  total_irrigation_mm: number;
+  total_volume_m3: number;
+  next_irrigation: IrrigationDay | null;
+}
 
 interface WeatherData {
   location: {
@@ -97,6 +131,7 @@ interface WeatherData {
       recommendation: string;
       soil_moisture: number;
       evapotranspiration: number;
+      schedule?: IrrigationSchedule | null;
     };
     crop_stress: {
       level: string;
@@ -132,8 +167,18 @@ const Weather = () => {
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [locationError, setLocationError] = useState<string | null>(null);
+  const [coords, setCoords] = useState<{ latitude: number; longitude: number } | null>(null);
+  // Crop details for the irrigation schedule; sent with every weather request once crop and sowing date are set
+  const [cropPlan, setCropPlan] = useState({ crop: "", sowingDate: "", area: "", irrigationType: "" });
   const { toast } = useToast();
 
+  const crops = [
+    "Rice", "Wheat", "Cotton", "Sugarcane", "Maize", "Barley", "Gram", "Groundnut",
+    "Soybean", "Sunflower", "Potato", "Onion", "Tomato", "Mustard", "Turmeric", "Chilli",
+    "Watermelon", "Muskmelon", "Cucumber", "Moong", "Fodder Sorghum"
+  ];
+  const irrigationTypes = ["Drip", "Sprinkler", "Canal", "Tube Well", "Rain-fed", "Flood"];
+
   const getWeatherDescription = (code: number): string => {
     const weatherCodes: { [key: number]: string } = {
       0: "Clear sky",
@@ -195,6 +240,15 @@ const Weather = () => {
   const fetchWeather = async (latitude: number, longitude: number) => {
     setLoading(true);
     setLocationError(null);
+    setCoords({ latitude, longitude });
+    const plan = cropPlan.crop && cropPlan.sowingDate
+      ? {
+          crop: cropPlan.crop,
+          sowingDate: cropPlan.sowingDate,
+          area: parseFloat(cropPlan.area) || undefined,
+          irrigationType: cropPlan.irrigationType || undefined
+        }
+      : {};
     try {
       // Get the current session for authentication
       const { data: { session } } = await supabase.auth.getSession();
@@ -211,7 +265,7 @@ const Weather = () => {
             "Content-Type": "application/json",
             "Authorization": `Bearer ${session.access_token}`,
           },
-          body: JSON.stringify({ latitude, longitude }),
+          body: JSON.stringify({ latitude, longitude, ...plan }),
         }
       );
 
@@ -646,6 +700,131 @@ const Weather = () => {
                     </div>
                   </Card>
                 </div>
+
+                {/* Irrigation Schedule */}
+                <Card className="p-6">
+                  <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+                    <Droplets className="h-5 w-5 text-blue-500" />
+                    Crop Irrigation Schedule
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Daily crop water use (ET0 × crop coefficient for the growth stage) less effective rainfall, over the 10-day forecast
+                  </p>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end mb-4">
+                    <div className="space-y-2">
+                      <Label>Crop</Label>
+                      <Select value={cropPlan.crop} onValueChange={(value) => setCropPlan(prev => ({ ...prev, crop: value }))}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select crop" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {crops.map(crop => (
+                            <SelectItem key={crop} value={crop}>{crop}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Sowing Date</Label>
+                      <Input
+                        type="date"
+                        value={cropPlan.sowingDate}
+                        onChange={(e) => setCropPlan(prev => ({ ...prev, sowingDate: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Area (hectares)</Label>
+                      <Input
+                        type="number"
+                        placeholder="1"
+                        value={cropPlan.area}
+                        onChange={(e) => setCropPlan(prev => ({ ...prev, area: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Irrigation</Label>
+                      <Select value={cropPlan.irrigationType} onValueChange={(value) => setCropPlan(prev => ({ ...prev, irrigationType: value }))}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Tube Well" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {irrigationTypes.map(type => (
+                            <SelectItem key={type} value={type}>{type}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      onClick={() => coords && fetchWeather(coords.latitude, coords.longitude)}
+                      disabled={loading || !coords || !cropPlan.crop || !cropPlan.sowingDate}
+                    >
+                      {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sprout className="h-4 w-4 mr-2" />}
+                      Build Schedule
+                    </Button>
+                  </div>
+
+                  {weatherData.agricultural_insights.irrigation.schedule && (
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="p-3 bg-muted/50 rounded-lg">
+                          <p className="text-xs text-muted-foreground">Crop water use</p>
+                          <p className="text-xl font-bold">{weatherData.agricultural_insights.irrigation.schedule.total_etc_mm} mm</p>
+                        </div>
+                        <div className="p-3 bg-muted/50 rounded-lg">
+                          <p className="text-xs text-muted-foreground">Effective rainfall</p>
+                          <p className="text-xl font-bold">{weatherData.agricultural_insights.irrigation.schedule.total_effective_rainfall_mm} mm</p>
+                        </div>
+                        <div className="p-3 bg-muted/50 rounded-lg">
+                          <p className="text-xs text-muted-foreground">Irrigation to apply</p>
+                          <p className="text-xl font-bold">{weatherData.agricultural_insights.irrigation.schedule.total_irrigation_mm} mm</p>
+                        </div>
+                        <div className="p-3 bg-muted/50 rounded-lg">
+                          <p className="text-xs text-muted-foreground">Water volume ({weatherData.agricultural_insights.irrigation.schedule.area} ha)</p>
+                          <p className="text-xl font-bold">{weatherData.agricultural_insights.irrigation.schedule.total_volume_m3.toLocaleString("en-IN")} m³</p>
+                        </div>
+                      </div>
+                      <div className="overflow-x-auto">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Date</TableHead>
+                              <TableHead>Stage</TableHead>
+                              <TableHead className="text-right">Kc</TableHead>
+                              <TableHead className="text-right">ET0</TableHead>
+                              <TableHead className="text-right">Crop ET</TableHead>
+                              <TableHead className="text-right">Eff. rain</TableHead>
+                              <TableHead className="text-right">Deficit</TableHead>
+                              <TableHead className="text-right">Irrigate</TableHead>
+                              <TableHead className="text-right">Volume</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {weatherData.agricultural_insights.irrigation.schedule.days.map(day => (
+                              <TableRow key={day.date} className={day.irrigation_mm > 0 ? "bg-blue-500/10" : undefined}>
+                                <TableCell className="font-medium">{formatDate(day.date)}</TableCell>
+                                <TableCell>{day.stage}</TableCell>
+                                <TableCell className="text-right">{day.kc}</TableCell>
+                                <TableCell className="text-right">{day.et0} mm</TableCell>
+                                <TableCell className="text-right">{day.etc} mm</TableCell>
+                                <TableCell className="text-right">{day.effective_rainfall} mm</TableCell>
+                                <TableCell className="text-right">{day.deficit_mm} mm</TableCell>
+                                <TableCell className="text-right font-semibold">
+                                  {day.gross_irrigation_mm > 0 ? `${day.gross_irrigation_mm} mm` : "-"}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {day.volume_m3 > 0 ? `${day.volume_m3.toLocaleString("en-IN")} m³` : "-"}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {weatherData.agricultural_insights.irrigation.schedule.irrigation_type} irrigation at {Math.round(weatherData.agricultural_insights.irrigation.schedule.efficiency * 100)}% efficiency, applied when the root-zone deficit reaches {weatherData.agricultural_insights.irrigation.schedule.trigger_deficit_mm} mm. Rain under 5 mm a day is treated as ineffective.
+                      </p>
+                    </div>
+                  )}
+                </Card>
               </TabsContent>
 
               {/* 10-Day Forecast Tab */}
@@ -0,0 +1,405 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface CalibrationOptions {
+  activate?: boolean;
+  minRows?: number;
+}
+
+interface HistoricalRow {
+  crop_type: string;
+  state: string;
+  district: string | null;
+  year: number;
+  avg_yield: number;
+  soil_type: string | null;
+  rainfall_mm: number | null;
+  temperature: number | null;
+}
+
+interface Coefficient {
+  coefficient: number;
+  rows: number;
+}
+
+// Yield response to the season's weather, relative to the crop's mean recorded season:
+// factor = exp(rainfallEffect × (rainfall / rainfallMean - 1) + temperatureEffect × (temperature - temperatureMean))
+interface WeatherResponse {
+  rainfallMean: number;
+  temperatureMean: number;
+  rainfallEffect: number;
+  temperatureEffect: number;
+  rows: number;
+}
+
+const PAGE_SIZE = 1000;
+const DEFAULT_MIN_ROWS = 5;
+// Prior strength (in rows) pulling sparse state/soil coefficients back towards 1.0
+const SHRINKAGE = 5;
+
+// Districts are keyed within their state; names in historical_yields vary in case and spacing
+const districtKey = (state: string, district: string | null) =>
+  district?.trim() ? `${state}|${district.trim().toLowerCase()}` : null;
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+
+// Shrunk mean of yield ratios - a state with 2 rows should not swing a prediction by 40%
+function shrunkCoefficient(ratios: number[]): Coefficient {
+  const n = ratios.length;
+  return {
+    coefficient: round((ratios.reduce((s, r) => s + r, 0) + SHRINKAGE) / (n + SHRINKAGE)),
+    rows: n,
+  };
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string | null): Record<string, T[]> {
+  const groups: Record<string, T[]> = {};
+  items.forEach(item => {
+    const key = keyOf(item);
+    if (!key) return;
+    (groups[key] ||= []).push(item);
+  });
+  return groups;
+}
+
+// Linear yield trend by year (falls back to a flat mean with too few seasons)
+function fitTrend(rows: HistoricalRow[]) {
+  const years = rows.map(r => r.year);
+  const yields = rows.map(r => r.avg_yield);
+  const yMean = mean(yields);
+
+  if (new Set(years).size < 3) {
+    return { intercept: yMean, slope: 0 };
+  }
+
+  const xMean = mean(years);
+  const sxy = rows.reduce((s, r) => s + (r.year - xMean) * (r.avg_yield - yMean), 0);
+  const sxx = rows.reduce((s, r) => s + Math.pow(r.year - xMean, 2), 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+
+  return { intercept: yMean - slope * xMean, slope };
+}
+
+async function loadHistoricalYields(supabase: ReturnType<typeof createClient>): Promise<HistoricalRow[]> {
+  const rows: HistoricalRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('historical_yields')
+      .select('crop_type, state, district, year, avg_yield, soil_type, rainfall_mm, temperature')
+      .order('year', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    data.forEach(r => {
+      const avgYield = Number(r.avg_yield);
+      if (Number.isFinite(avgYield) && avgYield > 0) {
+        rows.push({
+          ...r,
+          avg_yield: avgYield,
+          rainfall_mm: r.rainfall_mm === null ? null : Number(r.rainfall_mm),
+          temperature: r.temperature === null ? null : Number(r.temperature),
+        });
+      }
+    });
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+// Weather factor of a season under a fitted response; seasons without readings count as average
+function weatherFactor(response: WeatherResponse | undefined, row: { rainfall_mm: number | null; temperature: number | null }) {
+  if (!response) return 1;
+  const rainfall = row.rainfall_mm && row.rainfall_mm > 0 ? row.rainfall_mm / response.rainfallMean - 1 : 0;
+  const temperature = row.temperature && row.temperature > 0 ? row.temperature - response.temperatureMean : 0;
+  return Math.exp(response.rainfallEffect * rainfall + response.temperatureEffect * temperature);
+}
+
+// Least squares of the log residual ratio on relative rainfall and temperature deviation. Both inputs are
+// centred on the crop's seasons, so the mean season keeps the fitted yield; a ridge prior worth SHRINKAGE
+// rows pulls sparse crops towards no weather effect.
+function fitWeatherResponse(samples: { row: HistoricalRow; ratio: number }[], minRows: number): WeatherResponse | undefined {
+  const usable = samples.filter(s => (s.row.rainfall_mm ?? 0) > 0 && (s.row.temperature ?? 0) > 0 && s.ratio > 0);
+  if (usable.length < minRows) return undefined;
+
+  const rainfallMean = mean(usable.map(s => s.row.rainfall_mm!));
+  const temperatureMean = mean(usable.map(s => s.row.temperature!));
+  const x1 = usable.map(s => s.row.rainfall_mm! / rainfallMean - 1);
+  const x2 = usable.map(s => s.row.temperature! - temperatureMean);
+  const logs = usable.map(s => Math.log(s.ratio));
+  const yMean = mean(logs);
+  const y = logs.map(v => v - yMean);
+
+  const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+  const s11 = dot(x1, x1) * (1 + SHRINKAGE / usable.length);
+  const s22 = dot(x2, x2) * (1 + SHRINKAGE / usable.length);
+  const s12 = dot(x1, x2);
+  const det = s11 * s22 - s12 * s12;
+  if (!(det > 1e-12)) return undefined;
+
+  const b1 = dot(x1, y);
+  const b2 = dot(x2, y);
+  return {
+    rainfallMean: round(rainfallMean, 1),
+    temperatureMean: round(temperatureMean, 2),
+    rainfallEffect: round((s22 * b1 - s12 * b2) / det, 4),
+    temperatureEffect: round((s11 * b2 - s12 * b1) / det, 4),
+    rows: usable.length,
+  };
+}
+
+function calibrate(rows: HistoricalRow[], minRows: number) {
+  const crops: Record<string, {
+    baseYield: number;
+    trendPerYear: number;
+    referenceYear: number;
+    rows: number;
+    residualCv: number;
+    mape: number;
+    states: Record<string, Coefficient>;
+    districts: Record<string, Coefficient>;
+    weather?: WeatherResponse;
+  }> = {};
+
+  // Trend-adjusted ratio of every row to its crop's expected yield that year
+  const ratios: { row: HistoricalRow; ratio: number }[] = [];
+  const trends: Record<string, { intercept: number; slope: number }> = {};
+
+  Object.entries(groupBy(rows, r => r.crop_type)).forEach(([crop, cropRows]) => {
+    if (cropRows.length < minRows) return;
+
+    const trend = fitTrend(cropRows);
+    const expectedAt = (year: number) => Math.max(trend.intercept + trend.slope * year, 0.01);
+    trends[crop] = trend;
+
+    cropRows.forEach(row => ratios.push({ row, ratio: row.avg_yield / expectedAt(row.year) }));
+
+    const referenceYear = Math.max(...cropRows.map(r => r.year));
+    crops[crop] = {
+      baseYield: round(expectedAt(referenceYear), 2),
+      trendPerYear: round(trend.slope),
+      referenceYear,
+      rows: cropRows.length,
+      residualCv: 0,
+      mape: 0,
+      states: {},
+      districts: {},
+    };
+  });
+
+  const calibratedRatios = ratios.filter(r => crops[r.row.crop_type]);
+
+  // Crop-specific state coefficients
+  Object.entries(groupBy(calibratedRatios, r => `${r.row.crop_type}|${r.row.state}`)).forEach(([key, group]) => {
+    const [crop, state] = key.split('|');
+    crops[crop].states[state] = shrunkCoefficient(group.map(g => g.ratio));
+  });
+
+  // Cross-crop state coefficients, used when a crop has no history in a state
+  const states: Record<string, Coefficient> = {};
+  Object.entries(groupBy(calibratedRatios, r => r.row.state)).forEach(([state, group]) => {
+    states[state] = shrunkCoefficient(group.map(g => g.ratio));
+  });
+
+  // District coefficients relative to their state, on what remains after the state effect
+  const stateAdjusted = calibratedRatios.map(r => ({
+    ...r,
+    ratio: r.ratio / crops[r.row.crop_type].states[r.row.state].coefficient,
+  }));
+  Object.entries(groupBy(stateAdjusted, r => {
+    const key = districtKey(r.row.state, r.row.district);
+    return key ? `${r.row.crop_type}#${key}` : null;
+  })).forEach(([key, group]) => {
+    const [crop, district] = key.split('#');
+    crops[crop].districts[district] = shrunkCoefficient(group.map(g => g.ratio));
+  });
+
+  // Cross-crop district coefficients, used when a crop has no history in a district
+  const districts: Record<string, Coefficient> = {};
+  Object.entries(groupBy(stateAdjusted, r => districtKey(r.row.state, r.row.district))).forEach(([key, group]) => {
+    districts[key] = shrunkCoefficient(group.map(g => g.ratio));
+  });
+
+  const districtCoefficient = (row: HistoricalRow) => {
+    const key = districtKey(row.state, row.district);
+    return key ? crops[row.crop_type].districts[key]?.coefficient ?? 1 : 1;
+  };
+
+  // Soil coefficients on what remains after the state and district effects
+  const soils: Record<string, Coefficient> = {};
+  Object.entries(groupBy(stateAdjusted, r => r.row.soil_type)).forEach(([soil, group]) => {
+    soils[soil] = shrunkCoefficient(group.map(g => g.ratio / districtCoefficient(g.row)));
+  });
+
+  const soilCoefficient = (row: HistoricalRow) =>
+    row.soil_type && soils[row.soil_type] ? soils[row.soil_type].coefficient : 1;
+
+  // Weather response per crop on what remains after the state, district and soil effects
+  Object.entries(groupBy(stateAdjusted, r => r.row.crop_type)).forEach(([crop, group]) => {
+    const weather = fitWeatherResponse(
+      group.map(g => ({ row: g.row, ratio: g.ratio / districtCoefficient(g.row) / soilCoefficient(g.row) })),
+      minRows
+    );
+    if (weather) crops[crop].weather = weather;
+  });
+
+  // In-sample fit and residual spread per crop
+  const absPctErrors: number[] = [];
+  Object.entries(groupBy(calibratedRatios, r => r.row.crop_type)).forEach(([crop, group]) => {
+    const trend = trends[crop];
+    const errors = group.map(({ row }) => {
+      const fitted = Math.max(trend.intercept + trend.slope * row.year, 0.01)
+        * crops[crop].states[row.state].coefficient
+        * districtCoefficient(row)
+        * soilCoefficient(row)
+        * weatherFactor(crops[crop].weather, row);
+      return (row.avg_yield - fitted) / fitted;
+    });
+
+    const errorMean = mean(errors);
+    const variance = errors.reduce((s, e) => s + Math.pow(e - errorMean, 2), 0) / Math.max(errors.length - 1, 1);
+    crops[crop].residualCv = round(Math.sqrt(variance));
+    crops[crop].mape = round(mean(errors.map(e => Math.abs(e) * 100)), 2);
+    errors.forEach(e => absPctErrors.push(Math.abs(e) * 100));
+  });
+
+  return {
+    coefficients: { crops, states, districts, soils, shrinkage: SHRINKAGE },
+    trainingRows: calibratedRatios.length,
+    metrics: {
+      mape: absPctErrors.length > 0 ? round(mean(absPctErrors), 2) : null,
+      crops_calibrated: Object.keys(crops).length,
+      crops_skipped: Object.keys(groupBy(rows, r => r.crop_type)).filter(c => !crops[c]),
+      states: Object.keys(states).length,
+      districts: Object.keys(districts).length,
+      soils: Object.keys(soils).length,
+      crops_with_weather: Object.keys(crops).filter(c => crops[c].weather),
+    },
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Verify authentication - this function requires admin role
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Check if user has admin role
+    const { data: roleData } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+
+    if (!roleData) {
+      return new Response(
+        JSON.stringify({ error: 'Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const options: CalibrationOptions = await req.json().catch(() => ({}));
+    const { activate = true } = options;
+
+    if (options.minRows !== undefined && (typeof options.minRows !== 'number' || !Number.isFinite(options.minRows))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'minRows must be a number' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    // A residual spread needs at least two rows per crop
+    const minRows = Math.max(2, Math.floor(options.minRows ?? DEFAULT_MIN_ROWS));
+
+    console.log('[Calibrate] Starting yield model calibration with options:', options);
+
+    const rows = await loadHistoricalYields(supabase);
+    console.log(`[Calibrate] Loaded ${rows.length} rows from historical_yields`);
+
+    const { coefficients, trainingRows, metrics } = calibrate(rows, minRows);
+
+    if (trainingRows === 0) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `No crop has at least ${minRows} historical yield rows to calibrate from`,
+      }), { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const modelVersion = `AgriYield-v3.0-cal.${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}`;
+
+    // Store the model inactive, then swap it in with one transaction so a failed insert or
+    // activation leaves the previous model serving
+    const { error: insertError } = await supabase
+      .from('yield_models')
+      .insert({
+        model_version: modelVersion,
+        coefficients,
+        training_rows: trainingRows,
+        metrics,
+        is_active: false,
+        trained_by: user.id,
+      });
+
+    if (insertError) throw insertError;
+
+    if (activate) {
+      const { error: activateError } = await supabase.rpc('activate_yield_model', { _model_version: modelVersion });
+      if (activateError) throw activateError;
+    }
+
+    console.log(`[Calibrate] Stored ${modelVersion} (${trainingRows} rows, active=${activate})`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      model_version: modelVersion,
+      training_rows: trainingRows,
+      is_active: activate,
+      metrics,
+    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (error) {
+    console.error('[Calibrate] Error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -0,0 +1,350 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+interface InsuranceRequest {
+  predictionId?: string;
+  crop?: string;
+  state?: string;
+  district?: string;
+  season?: string;
+  area?: number; // hectares
+  expectedYield?: number; // tons/hectare
+  downsideYield?: number; // tons/hectare, e.g. the P10 of the yield prediction
+  actualYield?: number; // tons/hectare
+  sumInsuredPerHectare?: number; // ₹, the district's scale of finance
+  indemnityLevel?: number; // percent: 70, 80 or 90
+  actuarialRate?: number; // percent of sum insured, as bid by the insurer
+}
+
+interface YieldYear {
+  year: number;
+  yield: number;
+}
+
+// PMFBY farmer premium share, as a fraction of the sum insured
+const PREMIUM_RATES = { Kharif: 0.02, Rabi: 0.015, Commercial: 0.05 } as const;
+
+// Annual commercial and horticultural crops pay the 5% share whatever the season
+const COMMERCIAL_CROPS = new Set([
+  "Cotton", "Sugarcane", "Potato", "Onion", "Tomato", "Turmeric", "Chilli", "Watermelon", "Muskmelon", "Cucumber",
+]);
+
+const INDEMNITY_LEVELS = [70, 80, 90];
+const DEFAULT_INDEMNITY_LEVEL = 70;
+
+// Threshold yield = average of the best 5 of the last 7 years, times the indemnity level
+const THRESHOLD_WINDOW_YEARS = 7;
+const THRESHOLD_BEST_YEARS = 5;
+// Fewer district years than this and the state series is used instead
+const MIN_DISTRICT_YEARS = 3;
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function premiumRateFor(crop: string, season: string) {
+  if (COMMERCIAL_CROPS.has(crop)) return { category: "Commercial/Horticultural", rate: PREMIUM_RATES.Commercial };
+  // Zaid crops are notified with the Rabi season
+  return { category: "Food & Oilseed", rate: season === "Kharif" ? PREMIUM_RATES.Kharif : PREMIUM_RATES.Rabi };
+}
+
+// Average the rows of each year, keep the most recent window and pick its best years
+function thresholdFrom(rows: { year: number; yield: number }[]) {
+  const byYear = new Map<number, number[]>();
+  rows.forEach(r => {
+    if (!Number.isFinite(r.yield) || r.yield <= 0) return;
+    byYear.set(r.year, [...(byYear.get(r.year) || []), r.yield]);
+  });
+
+  const years: YieldYear[] = [...byYear.entries()]
+    .map(([year, yields]) => ({ year, yield: yields.reduce((s, y) => s + y, 0) / yields.length }))
+    .sort((a, b) => b.year - a.year)
+    .slice(0, THRESHOLD_WINDOW_YEARS);
+  if (years.length === 0) return null;
+
+  const best = [...years].sort((a, b) => b.yield - a.yield).slice(0, THRESHOLD_BEST_YEARS);
+  const averageYield = best.reduce((s, y) => s + y.yield, 0) / best.length;
+  const bestYears = new Set(best.map(y => y.year));
+
+  return {
+    averageYield,
+    years: years.map(y => ({ year: y.year, yield: round(y.yield, 2), used: bestYears.has(y.year) })),
+  };
+}
+
+// PMFBY claim = shortfall in yield / threshold yield × sum insured
+function claimFor(yieldPerHectare: number, thresholdYield: number, sumInsured: number) {
+  const shortfall = Math.max(0, (thresholdYield - yieldPerHectare) / thresholdYield);
+  return {
+    yield: round(yieldPerHectare, 2),
+    shortfallPercent: round(shortfall * 100),
+    payout: Math.round(shortfall * sumInsured),
+  };
+}
+
+const validYield = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 500;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Authentication check
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authentication' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const userId = claimsData.claims.sub;
+
+    const data: InsuranceRequest = await req.json();
+
+    // A saved prediction supplies the crop, location, area and yields; RLS limits it to the caller's own records
+    let estimatedCost: number | null = null;
+    if (data.predictionId) {
+      const { data: record, error: recordError } = await supabase
+        .from('crop_predictions')
+        .select('crop_type, state, district, season, area_hectares, predicted_yield, actual_yield, prediction_details, financial_projection')
+        .eq('id', data.predictionId)
+        .maybeSingle();
+
+      if (recordError || !record) {
+        return new Response(
+          JSON.stringify({ error: 'Prediction not found' }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const details = record.prediction_details as { yieldQuantiles?: { p10?: number } } | null;
+      const financial = record.financial_projection as { estimatedCost?: number } | null;
+      data.crop = record.crop_type;
+      data.state = record.state;
+      data.district = record.district ?? undefined;
+      data.season = record.season;
+      data.area = Number(record.area_hectares);
+      data.expectedYield = Number(record.predicted_yield);
+      data.downsideYield = data.downsideYield ?? details?.yieldQuantiles?.p10;
+      data.actualYield = data.actualYield ?? (record.actual_yield !== null ? Number(record.actual_yield) : undefined);
+      estimatedCost = typeof financial?.estimatedCost === "number" ? financial.estimatedCost : null;
+    }
+
+    // Validate required fields
+    if (!data.crop || !data.state || !data.season) {
+      return new Response(
+        JSON.stringify({ error: 'Crop, state and season are required' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (typeof data.area !== "number" || data.area <= 0 || data.area > 100000) {
+      return new Response(
+        JSON.stringify({ error: 'Area must be between 0 and 100,000 hectares' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (!validYield(data.expectedYield)
+      || (data.downsideYield !== undefined && !validYield(data.downsideYield))
+      || (data.actualYield !== undefined && !validYield(data.actualYield))) {
+      return new Response(
+        JSON.stringify({ error: 'Yields must be between 0 and 500 tons/hectare' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const indemnityLevel = data.indemnityLevel ?? DEFAULT_INDEMNITY_LEVEL;
+    if (!INDEMNITY_LEVELS.includes(indemnityLevel)) {
+      return new Response(
+        JSON.stringify({ error: `Indemnity level must be one of ${INDEMNITY_LEVELS.join(", ")}%` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (data.actuarialRate !== undefined && (typeof data.actuarialRate !== "number" || data.actuarialRate <= 0 || data.actuarialRate > 100)) {
+      return new Response(
+        JSON.stringify({ error: 'Actuarial rate must be between 0 and 100%' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (data.sumInsuredPerHectare !== undefined && (typeof data.sumInsuredPerHectare !== "number" || data.sumInsuredPerHectare <= 0)) {
+      return new Response(
+        JSON.stringify({ error: 'Sum insured per hectare must be a positive amount' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const crop = data.crop;
+    const state = data.state;
+    const district = data.district?.trim() || null;
+    const notes: string[] = [];
+
+    const [{ data: costRows }, { data: historyRows, error: historyError }] = await Promise.all([
+      supabase
+        .from('reference_cultivation_costs')
+        .select('state, cost_per_hectare')
+        .eq('crop', crop)
+        .in('state', [state, 'All India']),
+      supabase
+        .from('historical_yields')
+        .select('year, avg_yield, district')
+        .eq('crop_type', crop)
+        .eq('state', state)
+        .order('year', { ascending: false })
+        .limit(1000),
+    ]);
+
+    // Sum insured follows the scale of finance; the cost of cultivation is the closest stand-in
+    let sumInsuredPerHectare: number | null = data.sumInsuredPerHectare ?? null;
+    let sumInsuredSource = "input";
+    if (sumInsuredPerHectare === null) {
+      const cost = (costRows || []).find(r => r.state === state) || (costRows || []).find(r => r.state === 'All India');
+      if (cost) {
+        sumInsuredPerHectare = Number(cost.cost_per_hectare);
+        sumInsuredSource = cost.state === state ? "state cultivation cost" : "national cultivation cost";
+      } else if (estimatedCost !== null && estimatedCost > 0) {
+        sumInsuredPerHectare = estimatedCost / data.area;
+        sumInsuredSource = "prediction cost estimate";
+      }
+    }
+    if (sumInsuredPerHectare === null) {
+      return new Response(
+        JSON.stringify({ error: `No cultivation cost on record for ${crop}; enter the sum insured per hectare` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (sumInsuredSource !== "input") {
+      notes.push("Sum insured is estimated from the cost of cultivation; the district's notified scale of finance may differ");
+    }
+
+    if (historyError) {
+      console.error('Failed to load historical yields:', historyError);
+    }
+
+    // Threshold yield from the district's history, then the state's, then the caller's own recorded harvests
+    const history = (historyError ? [] : historyRows || []).map(r => ({
+      year: r.year,
+      yield: Number(r.avg_yield),
+      district: r.district as string | null,
+    }));
+    const districtRows = district ? history.filter(r => r.district?.toLowerCase() === district.toLowerCase()) : [];
+
+    let level: "district" | "state" | "recorded harvests" = "district";
+    let threshold = new Set(districtRows.map(r => r.year)).size >= MIN_DISTRICT_YEARS ? thresholdFrom(districtRows) : null;
+    if (!threshold) {
+      level = "state";
+      threshold = thresholdFrom(history);
+    }
+    if (!threshold) {
+      level = "recorded harvests";
+      const { data: recorded } = await supabase
+        .from('crop_predictions')
+        .select('actual_yield, actual_recorded_at, created_at')
+        .eq('user_id', userId)
+        .eq('crop_type', crop)
+        .eq('state', state)
+        .not('actual_yield', 'is', null);
+      threshold = thresholdFrom((recorded || []).map(r => ({
+        year: new Date(r.actual_recorded_at || r.created_at || Date.now()).getUTCFullYear(),
+        yield: Number(r.actual_yield),
+      })));
+    }
+    if (!threshold) {
+      return new Response(
+        JSON.stringify({ error: `No yield history for ${crop} in ${state} to set a threshold yield` }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (level !== "district" && district) {
+      notes.push(`Too little ${district} history - the ${level} series sets the threshold yield`);
+    }
+    if (threshold.years.length < THRESHOLD_WINDOW_YEARS) {
+      notes.push(`Only ${threshold.years.length} year(s) of yields on record; PMFBY uses the best ${THRESHOLD_BEST_YEARS} of the last ${THRESHOLD_WINDOW_YEARS}`);
+    }
+
+    const thresholdYield = threshold.averageYield * indemnityLevel / 100;
+    const sumInsured = sumInsuredPerHectare * data.area;
+
+    // Farmers pay the lower of their share and the actuarial rate; the government pays the rest
+    const { category, rate } = premiumRateFor(crop, data.season);
+    const actuarialRate = data.actuarialRate !== undefined ? data.actuarialRate / 100 : null;
+    const farmerRate = actuarialRate !== null ? Math.min(rate, actuarialRate) : rate;
+    const farmerPremium = Math.round(sumInsured * farmerRate);
+    if (data.season === "Zaid" && !COMMERCIAL_CROPS.has(crop)) {
+      notes.push("Zaid crops are notified with the Rabi season and pay the 1.5% share");
+    }
+
+    const claims = [
+      { scenario: "expected", label: "Predicted yield", ...claimFor(data.expectedYield, thresholdYield, sumInsured) },
+      ...(data.downsideYield !== undefined
+        ? [{ scenario: "downside", label: "Poor season (P10 yield)", ...claimFor(data.downsideYield, thresholdYield, sumInsured) }]
+        : []),
+      ...(data.actualYield !== undefined
+        ? [{ scenario: "actual", label: "Actual yield", ...claimFor(data.actualYield, thresholdYield, sumInsured) }]
+        : []),
+    ];
+    notes.push("Claims are settled on the notified area's crop-cutting yield, not a single farm's harvest");
+
+    console.log(`Insurance estimate for ${crop} (${data.season}) in ${state}: premium ₹${farmerPremium}, TY ${round(thresholdYield, 2)} t/ha`);
+
+    return new Response(JSON.stringify({
+      crop,
+      state,
+      district,
+      season: data.season,
+      area: data.area,
+      predictionId: data.predictionId ?? null,
+      category,
+      premium: {
+        farmerRate: round(farmerRate * 100, 2),
+        farmerPremium,
+        perHectare: Math.round(sumInsuredPerHectare * farmerRate),
+        actuarialRate: data.actuarialRate ?? null,
+        governmentSubsidy: actuarialRate !== null ? Math.round(sumInsured * Math.max(0, actuarialRate - farmerRate)) : null,
+      },
+      sumInsured: {
+        perHectare: Math.round(sumInsuredPerHectare),
+        total: Math.round(sumInsured),
+        source: sumInsuredSource,
+      },
+      thresholdYield: {
+        value: round(thresholdYield, 2),
+        averageYield: round(threshold.averageYield, 2),
+        indemnityLevel,
+        level,
+        years: threshold.years,
+      },
+      claims,
+      notes,
+      timestamp: new Date().toISOString(),
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error('Error in crop-insurance function:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to estimate crop insurance',
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,317 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Methods": "GET,PATCH,DELETE,OPTIONS",
+};
+
+const MAX_LIMIT = 200;
+const MAX_ACTUAL_YIELD = 500; // tons/hectare - above sugarcane's best recorded yields
+
+interface HarvestUpdate {
+  actual_yield: number;
+  notes?: string;
+}
+
+interface EvaluatedPrediction {
+  crop_type: string;
+  state: string;
+  season: string;
+  predicted_yield: number;
+  actual_yield: number;
+}
+
+// Error metrics for evaluated predictions (same definitions ml-monitor uses for prices)
+function computeAccuracyMetrics(rows: EvaluatedPrediction[]) {
+  const n = rows.length;
+  const errors = rows.map(r => ({
+    predicted: Number(r.predicted_yield),
+    actual: Number(r.actual_yield),
+  }));
+
+  const mae = errors.reduce((s, e) => s + Math.abs(e.predicted - e.actual), 0) / n;
+  const mape = errors.reduce((s, e) => s + Math.abs(e.predicted - e.actual) / e.actual * 100, 0) / n;
+  const rmse = Math.sqrt(errors.reduce((s, e) => s + Math.pow(e.predicted - e.actual, 2), 0) / n);
+  const bias = errors.reduce((s, e) => s + (e.predicted - e.actual), 0) / n;
+
+  // R² score (undefined for a single sample or a constant actual series)
+  const actualMean = errors.reduce((s, e) => s + e.actual, 0) / n;
+  const ssTot = errors.reduce((s, e) => s + Math.pow(e.actual - actualMean, 2), 0);
+  const ssRes = errors.reduce((s, e) => s + Math.pow(e.actual - e.predicted, 2), 0);
+  const r2 = ssTot > 0 ? 1 - (ssRes / ssTot) : null;
+
+  return {
+    mae: Math.round(mae * 100) / 100,
+    rmse: Math.round(rmse * 100) / 100,
+    mape: Math.round(mape * 100) / 100,
+    bias: Math.round(bias * 100) / 100,
+    r2_score: r2 !== null ? Math.round(r2 * 1000) / 1000 : null,
+    accuracy: Math.round(Math.max(0, 100 - mape) * 10) / 10,
+    sample_size: n,
+  };
+}
+
+function groupMetrics(rows: EvaluatedPrediction[], keyOf: (r: EvaluatedPrediction) => string) {
+  const groups = new Map<string, EvaluatedPrediction[]>();
+  rows.forEach(r => {
+    const key = keyOf(r);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(r);
+  });
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, ...computeAccuracyMetrics(group) }))
+    .sort((a, b) => b.sample_size - a.sample_size);
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    console.log(`crop-predictions request: method=${req.method}`);
+    // Validate auth header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized - No valid auth token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Create Supabase client with user's auth so RLS scopes every query
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.error("JWT verification failed:", userError);
+      return new Response(
+        JSON.stringify({ error: "Unauthorized - Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userId = user.id;
+    const params = new URL(req.url).searchParams;
+    const id = params.get("id");
+
+    // GET - Fetch one prediction (?id=), accuracy metrics (?view=accuracy) or the filtered history list
+    if (req.method === "GET") {
+      if (params.get("view") === "accuracy") {
+        const { data, error } = await supabase
+          .from("crop_predictions")
+          .select("crop_type, state, season, predicted_yield, actual_yield")
+          .eq("user_id", userId)
+          .not("actual_yield", "is", null);
+
+        if (error) {
+          console.error("Error fetching evaluated predictions:", error);
+          return new Response(
+            JSON.stringify({ error: "Failed to compute accuracy" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        const rows = (data || []).filter(r => Number(r.actual_yield) > 0) as EvaluatedPrediction[];
+        if (rows.length === 0) {
+          return new Response(
+            JSON.stringify({ data: { overall: null, by_crop: [], by_state: [], by_season: [] } }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({
+            data: {
+              overall: computeAccuracyMetrics(rows),
+              by_crop: groupMetrics(rows, r => r.crop_type),
+              by_state: groupMetrics(rows, r => r.state),
+              by_season: groupMetrics(rows, r => r.season),
+            }
+          }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (id) {
+        const { data, error } = await supabase
+          .from("crop_predictions")
+          .select("*")
+          .eq("user_id", userId)
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          console.error("Error fetching prediction:", error);
+          return new Response(
+            JSON.stringify({ error: "Failed to fetch prediction" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        if (!data) {
+          return new Response(
+            JSON.stringify({ error: "Prediction not found" }),
+            { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ data }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(params.get("limit") || "50") || 50));
+
+      let query = supabase
+        .from("crop_predictions")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      const crop = params.get("crop");
+      const season = params.get("season");
+      const state = params.get("state");
+      const from = params.get("from");
+      const to = params.get("to");
+
+      if (crop) query = query.eq("crop_type", crop);
+      if (season) query = query.eq("season", season);
+      if (state) query = query.eq("state", state);
+      if (from) query = query.gte("created_at", from);
+      if (to) query = query.lte("created_at", `${to}T23:59:59.999Z`);
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error("Error fetching predictions:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to fetch predictions" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: data || [] }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // PATCH - Record the harvested yield against a saved prediction
+    if (req.method === "PATCH") {
+      if (!id) {
+        return new Response(
+          JSON.stringify({ error: "Missing prediction id" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const body: HarvestUpdate = await req.json();
+      const actualYield = Number(body.actual_yield);
+
+      if (!Number.isFinite(actualYield) || actualYield <= 0 || actualYield > MAX_ACTUAL_YIELD) {
+        return new Response(
+          JSON.stringify({ error: `Actual yield must be between 0 and ${MAX_ACTUAL_YIELD} tons/hectare` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from("crop_predictions")
+        .select("id, predicted_yield")
+        .eq("user_id", userId)
+        .eq("id", id)
+        .maybeSingle();
+
+      if (fetchError || !existing) {
+        return new Response(
+          JSON.stringify({ error: "Prediction not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const absoluteError = Math.abs(Number(existing.predicted_yield) - actualYield);
+      const percentageError = (absoluteError / actualYield) * 100;
+
+      const { data, error } = await supabase
+        .from("crop_predictions")
+        .update({
+          actual_yield: actualYield,
+          absolute_error: Math.round(absoluteError * 1000) / 1000,
+          percentage_error: Math.round(percentageError * 100) / 100,
+          actual_recorded_at: new Date().toISOString(),
+          ...(body.notes !== undefined ? { notes: String(body.notes).slice(0, 1000) } : {}),
+        })
+        .eq("user_id", userId)
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error("Error recording harvest:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to record actual yield" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      console.log(`Actual yield recorded for prediction ${id}: error ${percentageError.toFixed(1)}%`);
+
+      return new Response(
+        JSON.stringify({ data, message: "Actual yield recorded" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // DELETE - Remove a single prediction from the user's history
+    if (req.method === "DELETE") {
+      if (!id) {
+        return new Response(
+          JSON.stringify({ error: "Missing prediction id" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error } = await supabase
+        .from("crop_predictions")
+        .delete()
+        .eq("user_id", userId)
+        .eq("id", id);
+
+      if (error) {
+        console.error("Error deleting prediction:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to delete prediction" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ message: "Prediction deleted" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -15,24 +15,12 @@ interface ETLOptions {
   limit?: number;
 }
 
-// MSP data for major crops (₹ per quintal, 2024-25)
-const MSP_DATA: Record<string, number> = {
-  'PADDY': 2300,
-  'WHEAT': 2275,
-  'JOWAR': 3180,
-  'BAJRA': 2625,
-  'MAIZE': 2225,
-  'RAGI': 4290,
-  'ARHAR': 7550,
-  'MOONG': 8682,
-  'URAD': 7400,
-  'GROUNDNUT': 6783,
-  'SOYABEAN': 4892,
-  'SUNFLOWER': 7280,
-  'COTTON': 7121,
-  'SUGARCANE': 315,
-  'MUSTARD': 5650,
-};
+// MSP history and crop calendar for a commodity (reference_msp, reference_commodities)
+interface CommodityReference {
+  msp: { startYear: number; msp: number }[]; // newest marketing year first
+  sowing: number[];
+  harvest: number[];
+}
 
 // Festival dates (approximate, varies by year)
 const FESTIVAL_PERIODS = [
@@ -47,29 +35,56 @@ const FESTIVAL_PERIODS = [
   { start: '12-25', end: '12-26', name: 'Christmas' },
 ];
 
-// Crop calendar (month numbers)
-const CROP_CALENDAR: Record<string, { sowing: number[]; harvest: number[] }> = {
-  'PADDY': { sowing: [6, 7], harvest: [10, 11, 12] },
-  'WHEAT': { sowing: [10, 11], harvest: [3, 4] },
-  'MAIZE': { sowing: [6, 7], harvest: [9, 10] },
-  'COTTON': { sowing: [4, 5, 6], harvest: [10, 11, 12] },
-  'GROUNDNUT': { sowing: [6, 7], harvest: [10, 11] },
-  'SOYABEAN': { sowing: [6, 7], harvest: [9, 10] },
-  'MUSTARD': { sowing: [9, 10], harvest: [2, 3] },
-  'SUGARCANE': { sowing: [2, 3, 10], harvest: [11, 12, 1, 2, 3, 4] },
-  'ONION': { sowing: [6, 7, 10, 11], harvest: [1, 2, 3, 4, 5] },
-  'POTATO': { sowing: [10, 11], harvest: [1, 2, 3] },
-  'TOMATO': { sowing: [6, 7, 8, 9], harvest: [10, 11, 12, 1, 2] },
-};
+// Keyed by upper-cased commodity name and each of its Agmarknet aliases
+function buildReferenceLookup(
+  commodities: { commodity: string; aliases: string[]; sowing_months: number[]; harvest_months: number[] }[],
+  mspRows: { commodity: string; marketing_year: string; msp: number }[]
+): Map<string, CommodityReference> {
+  const byName = new Map<string, CommodityReference>();
+  const entryFor = (name: string) => {
+    const key = name.toUpperCase();
+    if (!byName.has(key)) byName.set(key, { msp: [], sowing: [], harvest: [] });
+    return byName.get(key)!;
+  };
+
+  commodities.forEach(c => {
+    const entry = entryFor(c.commodity);
+    entry.sowing = c.sowing_months;
+    entry.harvest = c.harvest_months;
+  });
+  mspRows.forEach(r => {
+    entryFor(r.commodity).msp.push({ startYear: parseInt(r.marketing_year, 10), msp: Number(r.msp) });
+  });
+  byName.forEach(entry => entry.msp.sort((a, b) => b.startYear - a.startYear));
+
+  const lookup = new Map(byName);
+  commodities.forEach(c => {
+    (c.aliases || []).forEach(alias => lookup.set(alias.toUpperCase(), byName.get(c.commodity.toUpperCase())!));
+  });
+  return lookup;
+}
+
+// MSP in force on a date; marketing years are taken to start in April
+function mspFor(reference: Map<string, CommodityReference>, commodity: string, date: Date): number | null {
+  const history = reference.get(commodity?.toUpperCase())?.msp || [];
+  if (history.length === 0) return null;
+  const marketingYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  // Dates before the earliest recorded year use the earliest MSP
+  return (history.find(h => h.startYear <= marketingYear) || history[history.length - 1]).msp;
+}
 
 function isFestivalPeriod(date: Date): boolean {
   const monthDay = `${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
   return FESTIVAL_PERIODS.some(f => monthDay >= f.start && monthDay <= f.end);
 }
 
-function getCropSeasonFlags(commodity: string, date: Date): { isSowing: boolean; isHarvest: boolean } {
+function getCropSeasonFlags(
+  reference: Map<string, CommodityReference>,
+  commodity: string,
+  date: Date
+): { isSowing: boolean; isHarvest: boolean } {
   const month = date.getMonth() + 1;
-  const calendar = CROP_CALENDAR[commodity.toUpperCase()] || { sowing: [], harvest: [] };
+  const calendar = reference.get(commodity.toUpperCase()) || { sowing: [], harvest: [] };
   return {
     isSowing: calendar.sowing.includes(month),
     isHarvest: calendar.harvest.includes(month),
@@ -81,7 +96,8 @@ function computeFeatures(
   current: any,
   history: any[],
   stateAvg: number | null,
-  nationalAvg: number | null
+  nationalAvg: number | null,
+  reference: Map<string, CommodityReference>
 ): Record<string, any> {
   const price = current.modal_price;
   const date = new Date(current.arrival_date);
@@ -127,7 +143,7 @@ function computeFeatures(
   const volatility30 = rollingMean30 && rollingStd30 ? rollingStd30 / rollingMean30 : null;
   
   // MSP gap
-  const msp = MSP_DATA[current.commodity.toUpperCase()] || null;
+  const msp = mspFor(reference, current.commodity, date);
   const mspGap = msp ? price - msp : null;
   const mspGapPct = msp ? ((price - msp) / msp) * 100 : null;
   
@@ -152,7 +168,7 @@ function computeFeatures(
   const isMonthStart = date.getDate() <= 5;
   const isMonthEnd = date.getDate() >= 25;
   const isFestival = isFestivalPeriod(date);
-  const { isSowing, isHarvest } = getCropSeasonFlags(current.commodity, date);
+  const { isSowing, isHarvest } = getCropSeasonFlags(reference, current.commodity, date);
   
   // Interaction features
   const rainfallXCrop = (current.rainfall_mm || 0) * (isHarvest ? -1 : 1);
@@ -250,6 +266,15 @@ serve(async (req) => {
 
     console.log('[ETL] Starting pipeline with options:', options);
 
+    // MSP by marketing year and crop calendars, maintained by admins in the reference tables
+    const [{ data: commodityRows, error: commodityError }, { data: mspRows, error: mspError }] = await Promise.all([
+      supabase.from('reference_commodities').select('commodity, aliases, sowing_months, harvest_months'),
+      supabase.from('reference_msp').select('commodity, marketing_year, msp'),
+    ]);
+    if (commodityError || mspError) throw commodityError || mspError;
+
+    const reference = buildReferenceLookup(commodityRows || [], mspRows || []);
+
     // Step 1: Query raw data from mandi_prices (existing table)
     let query = supabase
       .from('mandi_prices')
@@ -297,7 +322,7 @@ serve(async (req) => {
       is_harvest_season: r.is_harvest_season,
       week_of_year: Math.ceil((new Date(r.arrival_date).getTime() - new Date(new Date(r.arrival_date).getFullYear(), 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
       month: new Date(r.arrival_date).getMonth() + 1,
-      msp_price: MSP_DATA[r.commodity?.toUpperCase()] || null,
+      msp_price: mspFor(reference, r.commodity, new Date(r.arrival_date)),
       policy_event: r.policy_event,
       data_source: 'agmarknet',
     }));
@@ -311,6 +336,12 @@ serve(async (req) => {
 
     if (upsertError) {
       console.error('[ETL] Upsert error:', upsertError);
+    } else {
+      // New series can add markets, commodities or varieties to the forecast selectors
+      const { error: catalogError } = await supabase.rpc('refresh_market_catalog');
+      if (catalogError) {
+        console.error('[ETL] Market catalog refresh error:', catalogError);
+      }
     }
 
     console.log(`[ETL] Upserted ${timeseriesRecords.length} records to mandi_timeseries`);
@@ -364,7 +395,8 @@ serve(async (req) => {
             record,
             history,
             stateAvgMap[state] || null,
-            nationalAvg
+            nationalAvg,
+            reference
           );
 
           featureRecords.push({
@@ -0,0 +1,334 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+interface FertilizerRequest {
+  crop: string;
+  targetYield: number; // tons/hectare
+  area: number; // hectares
+  farmId?: string;
+  soilTest?: SoilTest;
+  prices?: Partial<Record<ProductId, number>>; // ₹ per bag overrides
+}
+
+interface SoilTest {
+  nitrogen: number;
+  phosphorus: number;
+  potassium: number;
+  ph?: number;
+  organicCarbon?: number;
+}
+
+type Nutrient = "N" | "P2O5" | "K2O";
+type ProductId = "urea" | "dap" | "mop" | "ssp" | "npk102626";
+
+interface Product {
+  name: string;
+  grade: string;
+  content: Record<Nutrient, number>; // fraction of each nutrient in the product
+  bagSizeKg: number;
+  pricePerBag: number; // ₹, subsidised retail price
+}
+
+interface ProductLine {
+  product: ProductId;
+  name: string;
+  grade: string;
+  kgPerHectare: number;
+  totalKg: number;
+  bags: number;
+  bagSizeKg: number;
+  pricePerBag: number;
+  cost: number;
+}
+
+// Recommended dose of fertilizer (kg/ha N-P2O5-K2O) at a reference yield (tons/ha), per ICAR package of practices
+const cropNutrientDoses: Record<string, { dose: Record<Nutrient, number>; referenceYield: number; legume?: boolean }> = {
+  "Rice": { dose: { N: 120, P2O5: 60, K2O: 40 }, referenceYield: 5.0 },
+  "Wheat": { dose: { N: 120, P2O5: 60, K2O: 40 }, referenceYield: 4.5 },
+  "Cotton": { dose: { N: 120, P2O5: 60, K2O: 60 }, referenceYield: 2.0 },
+  "Sugarcane": { dose: { N: 250, P2O5: 115, K2O: 115 }, referenceYield: 80 },
+  "Maize": { dose: { N: 150, P2O5: 75, K2O: 40 }, referenceYield: 5.0 },
+  "Barley": { dose: { N: 60, P2O5: 30, K2O: 20 }, referenceYield: 3.0 },
+  "Gram": { dose: { N: 20, P2O5: 40, K2O: 20 }, referenceYield: 1.5, legume: true },
+  "Groundnut": { dose: { N: 25, P2O5: 50, K2O: 45 }, referenceYield: 2.0, legume: true },
+  "Soybean": { dose: { N: 30, P2O5: 60, K2O: 40 }, referenceYield: 2.0, legume: true },
+  "Sunflower": { dose: { N: 80, P2O5: 60, K2O: 40 }, referenceYield: 1.8 },
+  "Potato": { dose: { N: 180, P2O5: 80, K2O: 100 }, referenceYield: 25 },
+  "Onion": { dose: { N: 100, P2O5: 50, K2O: 50 }, referenceYield: 25 },
+  "Tomato": { dose: { N: 120, P2O5: 60, K2O: 60 }, referenceYield: 30 },
+  "Mustard": { dose: { N: 80, P2O5: 40, K2O: 40 }, referenceYield: 1.8 },
+  "Turmeric": { dose: { N: 60, P2O5: 50, K2O: 120 }, referenceYield: 25 },
+  "Chilli": { dose: { N: 120, P2O5: 60, K2O: 60 }, referenceYield: 2.5 },
+  "Watermelon": { dose: { N: 100, P2O5: 60, K2O: 60 }, referenceYield: 25 },
+  "Muskmelon": { dose: { N: 100, P2O5: 60, K2O: 60 }, referenceYield: 15 },
+  "Cucumber": { dose: { N: 100, P2O5: 50, K2O: 50 }, referenceYield: 12 },
+  "Moong": { dose: { N: 20, P2O5: 40, K2O: 20 }, referenceYield: 1.0, legume: true },
+  "Fodder Sorghum": { dose: { N: 80, P2O5: 40, K2O: 20 }, referenceYield: 40 },
+};
+
+const products: Record<ProductId, Product> = {
+  urea: { name: "Urea", grade: "46-0-0", content: { N: 0.46, P2O5: 0, K2O: 0 }, bagSizeKg: 45, pricePerBag: 266.5 },
+  dap: { name: "DAP", grade: "18-46-0", content: { N: 0.18, P2O5: 0.46, K2O: 0 }, bagSizeKg: 50, pricePerBag: 1350 },
+  mop: { name: "MOP", grade: "0-0-60", content: { N: 0, P2O5: 0, K2O: 0.60 }, bagSizeKg: 50, pricePerBag: 1700 },
+  ssp: { name: "SSP", grade: "0-16-0", content: { N: 0, P2O5: 0.16, K2O: 0 }, bagSizeKg: 50, pricePerBag: 540 },
+  npk102626: { name: "NPK 10:26:26", grade: "10-26-26", content: { N: 0.10, P2O5: 0.26, K2O: 0.26 }, bagSizeKg: 50, pricePerBag: 1470 },
+};
+
+// Soil test rating limits (same as predict-yield) and the ±25% dose adjustment for Low/High soils
+const soilTestLimits: Record<Nutrient, { key: keyof SoilTest; low: number; high: number }> = {
+  N: { key: "nitrogen", low: 280, high: 560 },
+  P2O5: { key: "phosphorus", low: 10, high: 25 },
+  K2O: { key: "potassium", low: 110, high: 280 },
+};
+const SOIL_TEST_ADJUSTMENT = { Low: 1.25, Medium: 1.0, High: 0.75 } as const;
+
+// Nutrient demand does not scale linearly forever - clamp the target to this band around the reference yield
+const MIN_YIELD_RATIO = 0.5;
+const MAX_YIELD_RATIO = 1.5;
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function nutrientRequirement(data: FertilizerRequest, soilTest: SoilTest | null) {
+  const crop = cropNutrientDoses[data.crop];
+  const yieldRatio = Math.min(MAX_YIELD_RATIO, Math.max(MIN_YIELD_RATIO, data.targetYield / crop.referenceYield));
+  const notes: string[] = [];
+
+  if (data.targetYield > crop.referenceYield * MAX_YIELD_RATIO) {
+    notes.push(`Target yield is well above the ${crop.referenceYield} t/ha reference for ${data.crop}; doses are capped at ${MAX_YIELD_RATIO}x the recommended rate`);
+  }
+
+  const adjustments: { nutrient: Nutrient; soilValue: number | null; rating: keyof typeof SOIL_TEST_ADJUSTMENT | null; factor: number }[] = [];
+  const perHectare = {} as Record<Nutrient, number>;
+
+  (Object.keys(crop.dose) as Nutrient[]).forEach(nutrient => {
+    let factor = 1;
+    let rating: keyof typeof SOIL_TEST_ADJUSTMENT | null = null;
+    const limits = soilTestLimits[nutrient];
+    const soilValue = soilTest ? soilTest[limits.key] ?? null : null;
+
+    if (typeof soilValue === "number") {
+      rating = soilValue < limits.low ? "Low" : soilValue <= limits.high ? "Medium" : "High";
+      factor = SOIL_TEST_ADJUSTMENT[rating];
+      // Legumes fix their own nitrogen - keep the starter dose whatever the soil N
+      if (nutrient === "N" && crop.legume) factor = 1;
+    }
+
+    perHectare[nutrient] = round(crop.dose[nutrient] * yieldRatio * factor, 1);
+    adjustments.push({ nutrient, soilValue, rating, factor });
+  });
+
+  if (!soilTest) {
+    notes.push("No soil test supplied - the general recommended dose is used; a Soil Health Card can cut or raise it by 25%");
+  }
+  if (crop.legume) {
+    notes.push(`${data.crop} is a legume - treat seed with Rhizobium culture; only a starter N dose is applied`);
+  }
+  if (soilTest?.organicCarbon !== undefined && soilTest.organicCarbon < 0.5) {
+    notes.push("Organic carbon is low - add 5-10 t/ha FYM or compost alongside the fertilizer");
+  }
+  if (soilTest?.ph !== undefined && soilTest.ph < 5.5) {
+    notes.push("Soil is acidic - prefer SSP or DAP over urea-heavy plans and apply lime before sowing");
+  }
+  notes.push("Apply all P and K and one-third of N at sowing; top-dress the remaining N in two splits");
+
+  return { perHectare, adjustments, referenceYield: crop.referenceYield, notes };
+}
+
+// Greedy conversion of a nutrient requirement into product quantities (kg/ha)
+function buildPlan(requirement: Record<Nutrient, number>, sources: ProductId[]): Partial<Record<ProductId, number>> {
+  const remaining = { ...requirement };
+  const plan: Partial<Record<ProductId, number>> = {};
+
+  const supply = (id: ProductId, kg: number) => {
+    if (kg <= 0) return;
+    plan[id] = (plan[id] || 0) + kg;
+    (Object.keys(remaining) as Nutrient[]).forEach(n => {
+      remaining[n] = Math.max(0, remaining[n] - kg * products[id].content[n]);
+    });
+  };
+
+  // Complex fertilizer first, limited by whichever of P or K is needed less
+  if (sources.includes("npk102626")) {
+    supply("npk102626", Math.min(remaining.P2O5, remaining.K2O) / products.npk102626.content.P2O5);
+  }
+  if (sources.includes("dap")) supply("dap", remaining.P2O5 / products.dap.content.P2O5);
+  if (sources.includes("ssp")) supply("ssp", remaining.P2O5 / products.ssp.content.P2O5);
+  if (sources.includes("mop")) supply("mop", remaining.K2O / products.mop.content.K2O);
+  if (sources.includes("urea")) supply("urea", remaining.N / products.urea.content.N);
+
+  return plan;
+}
+
+const planDefinitions: { id: string; name: string; sources: ProductId[] }[] = [
+  { id: "urea-dap-mop", name: "Urea + DAP + MOP", sources: ["dap", "mop", "urea"] },
+  { id: "urea-ssp-mop", name: "Urea + SSP + MOP", sources: ["ssp", "mop", "urea"] },
+  { id: "npk-urea", name: "10:26:26 + Urea (+ DAP/MOP top-up)", sources: ["npk102626", "dap", "mop", "urea"] },
+];
+
+function costPlans(requirement: Record<Nutrient, number>, area: number, prices: Partial<Record<ProductId, number>>) {
+  return planDefinitions.map(definition => {
+    const plan = buildPlan(requirement, definition.sources);
+
+    const lines: ProductLine[] = (Object.entries(plan) as [ProductId, number][]).map(([id, kgPerHectare]) => {
+      const product = products[id];
+      const pricePerBag = prices[id] ?? product.pricePerBag;
+      const totalKg = kgPerHectare * area;
+      return {
+        product: id,
+        name: product.name,
+        grade: product.grade,
+        kgPerHectare: round(kgPerHectare),
+        totalKg: round(totalKg),
+        bags: round(totalKg / product.bagSizeKg, 1),
+        bagSizeKg: product.bagSizeKg,
+        pricePerBag,
+        cost: Math.round(totalKg / product.bagSizeKg * pricePerBag),
+      };
+    });
+
+    const totalCost = lines.reduce((s, l) => s + l.cost, 0);
+    const supplied = { N: 0, P2O5: 0, K2O: 0 };
+    lines.forEach(l => {
+      (Object.keys(supplied) as Nutrient[]).forEach(n => {
+        supplied[n] += l.kgPerHectare * products[l.product].content[n];
+      });
+    });
+
+    return {
+      id: definition.id,
+      name: definition.name,
+      products: lines,
+      totalCost,
+      costPerHectare: Math.round(totalCost / area),
+      nutrientsSupplied: { N: round(supplied.N), P2O5: round(supplied.P2O5), K2O: round(supplied.K2O) },
+    };
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Authentication check
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authentication' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const data: FertilizerRequest = await req.json();
+
+    // Validate required fields
+    if (!data.crop || !cropNutrientDoses[data.crop]) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported crop. Choose one of: ${Object.keys(cropNutrientDoses).join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (typeof data.targetYield !== "number" || data.targetYield <= 0 || data.targetYield > 500) {
+      return new Response(
+        JSON.stringify({ error: 'Target yield must be between 0 and 500 tons/hectare' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (typeof data.area !== "number" || data.area <= 0 || data.area > 100000) {
+      return new Response(
+        JSON.stringify({ error: 'Area must be between 0 and 100,000 hectares' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A saved farm's Soil Health Card takes precedence over values typed into the form
+    let soilTest: SoilTest | null = data.soilTest ?? null;
+    let soilTestSource: "farm" | "input" | null = soilTest ? "input" : null;
+    if (data.farmId) {
+      const { data: farm, error: farmError } = await supabase
+        .from('user_farms')
+        .select('soil_test_results')
+        .eq('id', data.farmId)
+        .maybeSingle();
+
+      if (farmError || !farm) {
+        return new Response(
+          JSON.stringify({ error: 'Farm not found' }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const stored = farm.soil_test_results as SoilTest | null;
+      if (stored && typeof stored.nitrogen === "number" && typeof stored.phosphorus === "number" && typeof stored.potassium === "number") {
+        soilTest = stored;
+        soilTestSource = "farm";
+      }
+    }
+
+    if (soilTest && [soilTest.nitrogen, soilTest.phosphorus, soilTest.potassium].some(v => typeof v !== "number" || v < 0)) {
+      return new Response(
+        JSON.stringify({ error: 'Soil test needs non-negative nitrogen, phosphorus and potassium values (kg/ha)' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { perHectare, adjustments, referenceYield, notes } = nutrientRequirement(data, soilTest);
+    const plans = costPlans(perHectare, data.area, data.prices || {});
+    const recommended = plans.reduce((best, plan) => plan.totalCost < best.totalCost ? plan : best, plans[0]);
+
+    console.log(`Fertilizer plan for ${data.crop} @ ${data.targetYield} t/ha over ${data.area} ha: ${recommended.name} ₹${recommended.totalCost}`);
+
+    return new Response(JSON.stringify({
+      crop: data.crop,
+      targetYield: data.targetYield,
+      area: data.area,
+      referenceYield,
+      requirement: {
+        perHectare,
+        total: {
+          N: round(perHectare.N * data.area),
+          P2O5: round(perHectare.P2O5 * data.area),
+          K2O: round(perHectare.K2O * data.area),
+        },
+      },
+      adjustments,
+      soilTestSource,
+      plans,
+      recommendedPlanId: recommended.id,
+      notes,
+      timestamp: new Date().toISOString(),
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error('Error in fertilizer-calculator function:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to calculate fertilizer dose',
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
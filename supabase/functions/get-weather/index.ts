@@ -29,12 +29,161 @@ function checkRateLimit(clientIP: string): boolean {
   return true;
 }
 
-// Input validation schema
+// Input validation schema; crop, sowing date and area turn on the irrigation schedule
 const requestSchema = z.object({
   latitude: z.number().min(-90).max(90),
-  longitude: z.number().min(-180).max(180)
+  longitude: z.number().min(-180).max(180),
+  crop: z.string().min(1).max(50).optional(),
+  sowingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  area: z.number().positive().max(100000).optional(),
+  irrigationType: z.string().max(50).optional()
 });
 
+// FAO-56 crop coefficients: initial, mid-season and end of season
+const CROP_COEFFICIENTS: Record<string, [number, number, number]> = {
+  "Rice": [1.05, 1.2, 0.9],
+  "Wheat": [0.4, 1.15, 0.3],
+  "Cotton": [0.35, 1.15, 0.6],
+  "Sugarcane": [0.4, 1.25, 0.75],
+  "Maize": [0.3, 1.2, 0.5],
+  "Barley": [0.3, 1.15, 0.25],
+  "Gram": [0.4, 1.0, 0.35],
+  "Groundnut": [0.4, 1.15, 0.6],
+  "Soybean": [0.4, 1.15, 0.5],
+  "Sunflower": [0.35, 1.1, 0.35],
+  "Potato": [0.5, 1.15, 0.75],
+  "Onion": [0.7, 1.05, 0.75],
+  "Tomato": [0.6, 1.15, 0.8],
+  "Mustard": [0.35, 1.1, 0.35],
+  "Turmeric": [0.5, 1.05, 0.75],
+  "Chilli": [0.6, 1.05, 0.9],
+  "Watermelon": [0.4, 1.0, 0.75],
+  "Muskmelon": [0.5, 0.85, 0.6],
+  "Cucumber": [0.6, 1.0, 0.75],
+  "Moong": [0.4, 1.05, 0.35],
+  "Fodder Sorghum": [0.4, 1.0, 0.9]
+};
+const DEFAULT_CROP_COEFFICIENTS: [number, number, number] = [0.4, 1.1, 0.6];
+
+// Growth stage calendar from reference_crops, the same one predict-yield's phenology uses
+interface CropCalendar {
+  growingDays: number;
+  stageFractions: number[];
+  stageNames: string[];
+}
+
+// Application efficiency and the root-zone deficit (mm) at which each method irrigates
+const IRRIGATION_METHODS: Record<string, { efficiency: number; triggerDeficit: number }> = {
+  "Drip": { efficiency: 0.9, triggerDeficit: 8 },
+  "Sprinkler": { efficiency: 0.75, triggerDeficit: 20 },
+  "Canal": { efficiency: 0.6, triggerDeficit: 40 },
+  "Tube Well": { efficiency: 0.65, triggerDeficit: 35 },
+  "Flood": { efficiency: 0.55, triggerDeficit: 45 }
+};
+const DEFAULT_IRRIGATION_METHOD = "Tube Well";
+
+// Topsoil moisture (m³/m³) at field capacity and at wilting point
+const FIELD_CAPACITY = 0.35;
+const WILTING_POINT = 0.12;
+// Daily rain below this is lost to interception and evaporation; 80% of the rest reaches the roots
+const MIN_EFFECTIVE_RAIN_MM = 5;
+const EFFECTIVE_RAIN_FRACTION = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Growth stage and Kc on a given day after sowing; Kc rises through the vegetative stage and falls during grain fill
+function stageOnDay(crop: string, dayAfterSowing: number, calendar: CropCalendar) {
+  const [kcInitial, kcMid, kcEnd] = CROP_COEFFICIENTS[crop] || DEFAULT_CROP_COEFFICIENTS;
+  const fractions = calendar.stageFractions;
+  const progress = dayAfterSowing / calendar.growingDays;
+
+  let start = 0;
+  for (let i = 0; i < fractions.length; i++) {
+    const end = i === fractions.length - 1 ? 1 : start + fractions[i];
+    if (progress < end) {
+      const within = (progress - start) / (end - start);
+      const kc = i === 0 ? kcInitial
+        : i === 1 ? kcInitial + (kcMid - kcInitial) * within
+        : i === 2 ? kcMid
+        : i === 3 ? kcMid + (kcEnd - kcMid) * within
+        : kcEnd;
+      return { stage: calendar.stageNames[i], kc: Math.round(kc * 100) / 100 };
+    }
+    start = end;
+  }
+  return null;
+}
+
+// Day-by-day water balance over the forecast: ETc = ET0 × Kc, less effective rain, irrigating when the deficit reaches the method's trigger
+function buildIrrigationSchedule(
+  crop: string,
+  sowingDate: string,
+  calendar: CropCalendar,
+  area: number,
+  irrigationType: string | undefined,
+  daily: { time?: string[]; et0_fao_evapotranspiration?: number[]; precipitation_sum?: number[] },
+  soilMoisture: number
+) {
+  const rainfed = irrigationType === "Rain-fed";
+  const methodName = irrigationType && IRRIGATION_METHODS[irrigationType] ? irrigationType : DEFAULT_IRRIGATION_METHOD;
+  const method = IRRIGATION_METHODS[methodName];
+  const sown = new Date(`${sowingDate}T00:00:00Z`).getTime();
+
+  // Start from the measured topsoil moisture: dry soil begins part-way to the trigger
+  const dryness = Math.min(1, Math.max(0, (FIELD_CAPACITY - soilMoisture) / (FIELD_CAPACITY - WILTING_POINT)));
+  let deficit = dryness * method.triggerDeficit;
+
+  const days = (daily.time || []).map((date, i) => {
+    const dayAfterSowing = Math.round((new Date(`${date}T00:00:00Z`).getTime() - sown) / DAY_MS);
+    const stage = dayAfterSowing >= 0 ? stageOnDay(crop, dayAfterSowing, calendar) : null;
+    const et0 = daily.et0_fao_evapotranspiration?.[i] || 0;
+    const rainfall = daily.precipitation_sum?.[i] || 0;
+    const effectiveRainfall = rainfall >= MIN_EFFECTIVE_RAIN_MM ? rainfall * EFFECTIVE_RAIN_FRACTION : 0;
+    const etc = stage ? et0 * stage.kc : 0;
+
+    deficit = Math.max(0, deficit + etc - effectiveRainfall);
+
+    let netDepth = 0;
+    if (stage && !rainfed && deficit >= method.triggerDeficit) {
+      netDepth = deficit;
+      deficit = 0;
+    }
+    const grossDepth = netDepth / method.efficiency;
+
+    return {
+      date,
+      day_after_sowing: dayAfterSowing,
+      stage: stage?.stage || (dayAfterSowing < 0 ? "Not sown" : "Harvested"),
+      kc: stage?.kc || 0,
+      et0: Math.round(et0 * 10) / 10,
+      etc: Math.round(etc * 10) / 10,
+      rainfall: Math.round(rainfall * 10) / 10,
+      effective_rainfall: Math.round(effectiveRainfall * 10) / 10,
+      deficit_mm: Math.round(deficit * 10) / 10,
+      irrigation_mm: Math.round(netDepth * 10) / 10,
+      gross_irrigation_mm: Math.round(grossDepth * 10) / 10,
+      // 1 mm over 1 ha is 10 m³
+      volume_m3: Math.round(grossDepth * area * 10)
+    };
+  });
+
+  const irrigationDays = days.filter(d => d.irrigation_mm > 0);
+  return {
+    crop,
+    sowing_date: sowingDate,
+    area,
+    irrigation_type: rainfed ? "Rain-fed" : methodName,
+    efficiency: method.efficiency,
+    trigger_deficit_mm: method.triggerDeficit,
+    days,
+    total_etc_mm: Math.round(days.reduce((sum, d) => sum + d.etc, 0) * 10) / 10,
+    total_effective_rainfall_mm: Math.round(days.reduce((sum, d) => sum + d.effective_rainfall, 0) * 10) / 10,
+    total_irrigation_mm: Math.round(irrigationDays.reduce((sum, d) => sum + d.gross_irrigation_mm, 0) * 10) / 10,
+    total_volume_m3: irrigationDays.reduce((sum, d) => sum + d.volume_m3, 0),
+    next_irrigation: irrigationDays[0] || null
+  };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -93,7 +242,7 @@ serve(async (req) => {
       );
     }
     
-    const { latitude, longitude } = validationResult.data;
+    const { latitude, longitude, crop, sowingDate, area, irrigationType } = validationResult.data;
     console.log(`Weather request for coordinates: ${latitude}, ${longitude} from user: ${userId}`);
 
     // Fetch location name using reverse geocoding
@@ -171,6 +320,49 @@ serve(async (req) => {
       irrigationRecommendation = `Skip irrigation. Expected rainfall: ${next3DaysPrecip.toFixed(1)}mm in next 3 days.`;
     }
 
+    // Crop-aware schedule when the crop and sowing date are known; it replaces the generic advice above
+    let irrigationSchedule = null;
+    if (crop && sowingDate) {
+      const { data: cropRow, error: cropError } = await supabase
+        .from("reference_crops")
+        .select("crop, growing_days, stage_fractions, stage_names")
+        // Case-insensitive match on the name itself, so % and _ in the input are not wildcards
+        .ilike("crop", crop.replace(/[\\%_]/g, "\\$&"))
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (cropError || !cropRow) {
+        console.warn(`No crop profile for ${crop}:`, cropError?.message);
+      } else {
+        irrigationSchedule = buildIrrigationSchedule(
+          cropRow.crop,
+          sowingDate,
+          { growingDays: cropRow.growing_days, stageFractions: cropRow.stage_fractions.map(Number), stageNames: cropRow.stage_names },
+          area ?? 1,
+          irrigationType,
+          daily,
+          avgSoilMoisture
+        );
+        const today = irrigationSchedule.days[0];
+        const next = irrigationSchedule.next_irrigation;
+        const daysAway = next ? irrigationSchedule.days.indexOf(next) : -1;
+
+        if (!today || today.kc === 0) {
+          irrigationPriority = "None";
+          irrigationRecommendation = `${cropRow.crop} is not in the field on ${today?.date || "this date"} (${today?.stage || "outside the season"}).`;
+        } else if (irrigationSchedule.irrigation_type === "Rain-fed") {
+          irrigationRecommendation = `Rain-fed ${cropRow.crop} (${today.stage}, Kc ${today.kc}) will use ${irrigationSchedule.total_etc_mm}mm over ${irrigationSchedule.days.length} days against ${irrigationSchedule.total_effective_rainfall_mm}mm of effective rain.`;
+          irrigationPriority = irrigationSchedule.days[irrigationSchedule.days.length - 1].deficit_mm > 40 ? "High" : "Low";
+        } else if (next) {
+          irrigationPriority = daysAway === 0 ? "High" : daysAway <= 2 ? "Medium" : "Low";
+          irrigationRecommendation = `${cropRow.crop} (${today.stage}, Kc ${today.kc}): apply ${next.gross_irrigation_mm}mm (${next.volume_m3} m³) ${daysAway === 0 ? "today" : `on ${next.date}`}.`;
+        } else {
+          irrigationPriority = "None";
+          irrigationRecommendation = `${cropRow.crop} (${today.stage}, Kc ${today.kc}): no irrigation needed in the next ${irrigationSchedule.days.length} days.`;
+        }
+      }
+    }
+
     // Crop stress analysis
     const maxTemp = daily.temperature_2m_max?.[0] || 0;
     const minTemp = daily.temperature_2m_min?.[0] || 0;
@@ -294,7 +486,8 @@ serve(async (req) => {
           priority: irrigationPriority,
           recommendation: irrigationRecommendation,
           soil_moisture: avgSoilMoisture,
-          evapotranspiration: todayET
+          evapotranspiration: todayET,
+          schedule: irrigationSchedule
         },
         crop_stress: {
           level: cropStressLevel,
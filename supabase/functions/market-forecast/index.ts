@@ -7,13 +7,42 @@ const corsHeaders = {
 };
 
 interface ForecastRequest {
+  // 'backtest' replays mandi_timeseries instead of forecasting (admins only); 'reconcile' scores
+  // stored forecasts against the prices seen on their target dates (cron or admins)
+  action?: 'forecast' | 'backtest' | 'reconcile';
   state: string;
   district: string;
   market: string;
   commodity: string;
   variety?: string;
   horizon: number;
+  // MODEL_REGISTRY key; defaults to 'external' when ml_api_url is given, otherwise DEFAULT_MODEL
+  model?: string;
   ml_api_url?: string;
+  // YYYY-MM-DD expected harvest; forecasts the selling window around it instead of the next `horizon` days
+  harvest_date?: string;
+}
+
+// Options for action 'backtest'
+interface BacktestOptions {
+  // MODEL_REGISTRY keys; defaults to every model that runs in-process
+  models?: string[];
+  horizons?: number[];
+  // Number of forecast origins and the observations between consecutive origins
+  origins?: number;
+  step?: number;
+}
+
+interface HorizonScore {
+  horizon_days: number;
+  sample_size: number;
+  mae: number;
+  rmse: number;
+  mape: number;
+  // Mean of predicted minus actual; positive means the model over-forecasts
+  bias: number;
+  // Share of actuals inside the forecast's confidence interval, 0-1
+  interval_coverage: number;
 }
 
 interface HistoricalData {
@@ -31,6 +60,61 @@ interface HistoricalData {
   volatility_30?: number;
 }
 
+interface ForecastPoint {
+  target_date: string;
+  horizon_days: number;
+  predicted_min: number;
+  predicted_modal: number;
+  predicted_max: number;
+  confidence_lower: number;
+  confidence_upper: number;
+  confidence_level: number;
+}
+
+interface PriceDriver {
+  driver: string;
+  impact: 'positive' | 'negative' | 'uncertain';
+  strength: number;
+}
+
+// Engineered features for one market day (mandi_features)
+type MarketFeatures = Record<string, number | boolean | string | null> & { arrival_date: string };
+
+interface ModelInput {
+  request: ForecastRequest;
+  history: HistoricalData[];
+  horizon: number;
+  config: CommodityConfig;
+  // mandi_features rows over the history, oldest first; empty when none have been computed
+  features: MarketFeatures[];
+  // Mean backtest MAE per MODEL_REGISTRY key from the market's latest stored backtest
+  backtest_errors?: Record<string, number>;
+}
+
+interface ModelOutput {
+  forecasts: ForecastPoint[];
+  feature_importance: Record<string, number>;
+  top_drivers: PriceDriver[];
+  // Component models of an ensemble and their predictions at the last horizon
+  model_weights?: Record<string, number>;
+  model_predictions?: Record<string, number>;
+  // Set by models whose version is only known at run time, e.g. an external service
+  model_version?: string;
+}
+
+interface ForecastModel {
+  name: string;
+  version: string;
+  description: string;
+  // Loads mandi_features for the history before the model runs
+  usesFeatures?: boolean;
+  // Reads the market's stored backtest errors before the model runs
+  usesBacktests?: boolean;
+  // Calls out to another service, so it is left out of backtests
+  remote?: boolean;
+  forecast: (input: ModelInput) => ModelOutput | Promise<ModelOutput>;
+}
+
 // Seeded random number generator for deterministic results
 function seededRandom(seed: number): () => number {
   return function() {
@@ -48,32 +132,28 @@ function hashString(str: string): number {
   return Math.abs(hash);
 }
 
-// Commodity base prices (₹/quintal) - realistic MSP-aligned values
-const COMMODITY_CONFIG: Record<string, { basePrice: number; minRatio: number; maxRatio: number; volatility: number; seasonalStrength: number }> = {
-  'Paddy': { basePrice: 2203, minRatio: 0.92, maxRatio: 1.08, volatility: 0.03, seasonalStrength: 0.04 },
-  'Rice': { basePrice: 3550, minRatio: 0.93, maxRatio: 1.07, volatility: 0.025, seasonalStrength: 0.03 },
-  'Wheat': { basePrice: 2275, minRatio: 0.94, maxRatio: 1.06, volatility: 0.02, seasonalStrength: 0.035 },
-  'Cotton': { basePrice: 6620, minRatio: 0.90, maxRatio: 1.10, volatility: 0.05, seasonalStrength: 0.06 },
-  'Maize': { basePrice: 2090, minRatio: 0.91, maxRatio: 1.09, volatility: 0.04, seasonalStrength: 0.05 },
-  'Onion': { basePrice: 2800, minRatio: 0.75, maxRatio: 1.25, volatility: 0.12, seasonalStrength: 0.15 },
-  'Potato': { basePrice: 1800, minRatio: 0.80, maxRatio: 1.20, volatility: 0.08, seasonalStrength: 0.10 },
-  'Tomato': { basePrice: 3200, minRatio: 0.70, maxRatio: 1.30, volatility: 0.15, seasonalStrength: 0.18 },
-  'Soybean': { basePrice: 4600, minRatio: 0.92, maxRatio: 1.08, volatility: 0.035, seasonalStrength: 0.04 },
-  'Groundnut': { basePrice: 5850, minRatio: 0.91, maxRatio: 1.09, volatility: 0.04, seasonalStrength: 0.05 },
-  'Chilli': { basePrice: 13000, minRatio: 0.85, maxRatio: 1.15, volatility: 0.08, seasonalStrength: 0.10 },
-  'Turmeric': { basePrice: 9500, minRatio: 0.88, maxRatio: 1.12, volatility: 0.06, seasonalStrength: 0.07 },
-  'Sugarcane': { basePrice: 315, minRatio: 0.95, maxRatio: 1.05, volatility: 0.015, seasonalStrength: 0.02 },
-  'Mustard': { basePrice: 5650, minRatio: 0.92, maxRatio: 1.08, volatility: 0.035, seasonalStrength: 0.04 },
-  'Jowar': { basePrice: 3180, minRatio: 0.91, maxRatio: 1.09, volatility: 0.04, seasonalStrength: 0.05 },
-  'Bajra': { basePrice: 2500, minRatio: 0.90, maxRatio: 1.10, volatility: 0.045, seasonalStrength: 0.055 }
+// Price simulation parameters for a commodity (reference_commodities)
+interface CommodityConfig {
+  basePrice: number;
+  minRatio: number;
+  maxRatio: number;
+  volatility: number;
+  seasonalStrength: number;
+}
+
+// Used for commodities without a reference row
+const DEFAULT_COMMODITY_CONFIG: CommodityConfig = {
+  basePrice: 2500, minRatio: 0.90, maxRatio: 1.10, volatility: 0.05, seasonalStrength: 0.05
 };
 
+// Days either side of the harvest date that make up the selling window
+const HARVEST_WINDOW_DAYS = 7;
+// Furthest ahead a harvest window can end
+const MAX_HARVEST_HORIZON = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 // Generate deterministic simulated data based on market/commodity combination
-function generateDeterministicData(state: string, market: string, commodity: string): HistoricalData[] {
-  const config = COMMODITY_CONFIG[commodity] || { 
-    basePrice: 2500, minRatio: 0.90, maxRatio: 1.10, volatility: 0.05, seasonalStrength: 0.05 
-  };
-  
+function generateDeterministicData(state: string, market: string, commodity: string, config: CommodityConfig): HistoricalData[] {  
   // Create deterministic seed from market+commodity+state
   const seedString = `${state}-${market}-${commodity}`;
   const seed = hashString(seedString);
@@ -143,19 +223,61 @@ function generateDeterministicData(state: string, market: string, commodity: str
   return historicalData;
 }
 
-// Precise statistical forecasting
-function statisticalForecast(history: HistoricalData[], horizon: number, commodity: string) {
-  if (history.length < 7) {
-    throw new Error("Insufficient historical data for forecasting (minimum 7 days required)");
+// Commodity parameters from the reference tables; without a base price the latest MSP anchors the simulation
+async function loadCommodityConfig(
+  supabase: ReturnType<typeof createClient> | null,
+  commodity: string
+): Promise<{ config: CommodityConfig; source: string }> {
+  try {
+    if (supabase) {
+      const { data: commodities, error: commoditiesError } = await supabase
+        .from('reference_commodities')
+        .select('commodity, aliases, base_price, min_ratio, max_ratio, volatility, seasonal_strength')
+        .eq('is_active', true);
+
+      if (commoditiesError) throw commoditiesError;
+
+      const name = commodity.toLowerCase();
+      const row = (commodities || []).find(c =>
+        c.commodity.toLowerCase() === name || (c.aliases || []).some((alias: string) => alias.toLowerCase() === name)
+      );
+
+      if (row) {
+        let basePrice = row.base_price === null ? null : Number(row.base_price);
+        if (basePrice === null) {
+          const { data: msp } = await supabase
+            .from('reference_msp')
+            .select('msp')
+            .eq('commodity', row.commodity)
+            .order('marketing_year', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+          basePrice = msp ? Number(msp.msp) : null;
+        }
+
+        return {
+          config: {
+            basePrice: basePrice ?? DEFAULT_COMMODITY_CONFIG.basePrice,
+            minRatio: Number(row.min_ratio),
+            maxRatio: Number(row.max_ratio),
+            volatility: Number(row.volatility),
+            seasonalStrength: Number(row.seasonal_strength)
+          },
+          source: 'reference_commodities'
+        };
+      }
+    }
+  } catch (referenceError) {
+    console.warn('Reference data query error, using default commodity parameters:', referenceError);
   }
 
-  const config = COMMODITY_CONFIG[commodity] || { 
-    basePrice: 2500, minRatio: 0.90, maxRatio: 1.10, volatility: 0.05, seasonalStrength: 0.05 
-  };
-  
-  const prices = history.map(h => h.modal_price);
+  return { config: DEFAULT_COMMODITY_CONFIG, source: 'default' };
+}
+
+// Trend, momentum and volatility of a price series, shared by the models and the response summary
+function historyStatistics(prices: number[]) {
   const n = prices.length;
-  
+
   // Calculate precise statistics
   const mean = prices.reduce((a, b) => a + b, 0) / n;
   const variance = prices.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (n - 1); // Sample variance
@@ -177,6 +299,44 @@ function statisticalForecast(history: HistoricalData[], horizon: number, commodi
   const ssTot = prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0);
   const rSquared = ssTot > 0 ? 1 - (ssRes / ssTot) : 0;
   
+  // Recent momentum (7-day)
+  const recent7 = prices.slice(-7);
+  const recent7Mean = recent7.reduce((a, b) => a + b, 0) / 7;
+  const older7 = prices.slice(-14, -7);
+  const older7Mean = older7.length >= 7 ? older7.reduce((a, b) => a + b, 0) / 7 : mean;
+  const momentum = (recent7Mean - older7Mean) / older7Mean;
+  
+  // Recent volatility (7-day)
+  const recent7Variance = recent7.reduce((sum, p) => sum + Math.pow(p - recent7Mean, 2), 0) / 6;
+  const recentVolatility = Math.sqrt(recent7Variance) / recent7Mean;
+
+  return { mean, std, coefficientOfVariation, slope, intercept, sumXX, rSquared, momentum, recentVolatility };
+}
+
+// Rounded history statistics for the response
+function summarizeHistory(history: HistoricalData[]) {
+  const stats = historyStatistics(history.map(h => h.modal_price));
+  return {
+    historical_mean: Math.round(stats.mean),
+    historical_std: Math.round(stats.std),
+    trend_per_day: Math.round(stats.slope * 100) / 100,
+    trend_r_squared: Math.round(stats.rSquared * 100) / 100,
+    momentum_7d: Math.round(stats.momentum * 1000) / 10,
+    volatility_7d: Math.round(stats.recentVolatility * 1000) / 10,
+    coefficient_of_variation: Math.round(stats.coefficientOfVariation * 1000) / 10
+  };
+}
+
+// OLS trend + 7-day seasonal decomposition + decaying momentum
+function statisticalForecast({ history, horizon, config }: ModelInput): ModelOutput {
+  if (history.length < 7) {
+    throw new Error("Insufficient historical data for forecasting (minimum 7 days required)");
+  }
+
+  const prices = history.map(h => h.modal_price);
+  const n = prices.length;
+  const { mean, std, slope, intercept, sumXX, rSquared, momentum, recentVolatility } = historyStatistics(prices);
+
   // Calculate 7-day seasonality pattern
   const seasonality = new Array(7).fill(0);
   const seasonCount = new Array(7).fill(0);
@@ -190,19 +350,8 @@ function statisticalForecast(history: HistoricalData[], horizon: number, commodi
     seasonality[i] = seasonCount[i] > 0 ? seasonality[i] / seasonCount[i] : 0;
   }
   
-  // Recent momentum (7-day)
-  const recent7 = prices.slice(-7);
-  const recent7Mean = recent7.reduce((a, b) => a + b, 0) / 7;
-  const older7 = prices.slice(-14, -7);
-  const older7Mean = older7.length >= 7 ? older7.reduce((a, b) => a + b, 0) / 7 : mean;
-  const momentum = (recent7Mean - older7Mean) / older7Mean;
-  
-  // Recent volatility (7-day)
-  const recent7Variance = recent7.reduce((sum, p) => sum + Math.pow(p - recent7Mean, 2), 0) / 6;
-  const recentVolatility = Math.sqrt(recent7Variance) / recent7Mean;
-  
   // Generate forecasts
-  const forecasts = [];
+  const forecasts: ForecastPoint[] = [];
   const lastPrice = prices[n - 1];
   const lastDate = new Date(history[n - 1].date);
   
@@ -266,7 +415,7 @@ function statisticalForecast(history: HistoricalData[], horizon: number, commodi
   }
   
   // Generate insights/drivers
-  const topDrivers = [];
+  const topDrivers: PriceDriver[] = [];
   
   if (rSquared > 0.1 && slope > 0) {
     topDrivers.push({ 
@@ -315,22 +464,761 @@ function statisticalForecast(history: HistoricalData[], horizon: number, commodi
   
   return {
     forecasts,
-    model_used: "Statistical Ensemble (OLS Trend + Seasonal Decomposition + Momentum)",
-    model_version: "2.0.0",
     feature_importance: featureImportance,
-    top_drivers: topDrivers.slice(0, 4), // Top 4 drivers
-    statistics: {
-      historical_mean: Math.round(mean),
-      historical_std: Math.round(std),
-      trend_per_day: Math.round(slope * 100) / 100,
-      trend_r_squared: Math.round(rSquared * 100) / 100,
-      momentum_7d: Math.round(momentum * 1000) / 10,
-      volatility_7d: Math.round(recentVolatility * 1000) / 10,
-      coefficient_of_variation: Math.round(coefficientOfVariation * 1000) / 10
+    top_drivers: topDrivers.slice(0, 4) // Top 4 drivers
+  };
+}
+
+// Solves A·x = b by Gauss-Jordan elimination with partial pivoting; a singular column gets a zero coefficient
+function solveLinear(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) continue;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+
+  return m.map((row, i) => Math.abs(row[i]) < 1e-12 ? 0 : row[n] / row[i]);
+}
+
+// Least squares where column 0 of X is the intercept; `ridge` penalises every other coefficient
+function fitLeastSquares(X: number[][], y: number[], ridge = 0) {
+  const k = X[0].length;
+  const xtx = Array.from({ length: k }, () => new Array(k).fill(0));
+  const xty = new Array(k).fill(0);
+
+  for (let i = 0; i < X.length; i++) {
+    for (let a = 0; a < k; a++) {
+      xty[a] += X[i][a] * y[i];
+      for (let b = 0; b < k; b++) xtx[a][b] += X[i][a] * X[i][b];
+    }
+  }
+  for (let a = 1; a < k; a++) xtx[a][a] += ridge;
+
+  const coef = solveLinear(xtx, xty);
+  const sse = X.reduce((sum, row, i) => sum + Math.pow(y[i] - row.reduce((s, x, j) => s + x * coef[j], 0), 2), 0);
+  return { coef, sse };
+}
+
+// Forecast row from a modal estimate and the half-width of its 95% interval
+function forecastPoint(lastDate: string, h: number, modal: number, halfWidth: number, config: CommodityConfig): ForecastPoint {
+  const targetDate = new Date(`${lastDate}T00:00:00Z`);
+  targetDate.setUTCDate(targetDate.getUTCDate() + h);
+  const predictedModal = Math.round(modal);
+
+  return {
+    target_date: targetDate.toISOString().split('T')[0],
+    horizon_days: h,
+    predicted_min: Math.round(predictedModal * config.minRatio),
+    predicted_modal: predictedModal,
+    predicted_max: Math.round(predictedModal * config.maxRatio),
+    confidence_lower: Math.round(modal - halfWidth),
+    confidence_upper: Math.round(modal + halfWidth),
+    confidence_level: 0.95
+  };
+}
+
+const SEASON_LENGTH = 7;
+
+// Smoothing constants searched for Holt-Winters; phi < 1 damps the trend so 30-day forecasts don't run away
+const HW_ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9];
+const HW_BETAS = [0, 0.05, 0.1, 0.2];
+const HW_GAMMAS = [0, 0.1, 0.3];
+const HW_PHIS = [0.9, 0.98];
+
+// One pass of additive Holt-Winters over the series, returning the final state and the one-step squared error
+function holtWintersPass(prices: number[], alpha: number, beta: number, gamma: number, phi: number) {
+  const m = SEASON_LENGTH;
+  const seasonal = prices.length >= 2 * m;
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  let level = seasonal ? average(prices.slice(0, m)) : prices[0];
+  let trend = seasonal
+    ? (average(prices.slice(m, 2 * m)) - average(prices.slice(0, m))) / m
+    : prices.length > 1 ? prices[1] - prices[0] : 0;
+  const season = seasonal ? prices.slice(0, m).map(p => p - level) : new Array(m).fill(0);
+
+  let sse = 0;
+  let count = 0;
+  for (let t = seasonal ? m : 1; t < prices.length; t++) {
+    const s = season[t % m];
+    const error = prices[t] - (level + phi * trend + s);
+    sse += error * error;
+    count++;
+
+    const previousLevel = level;
+    level = alpha * (prices[t] - s) + (1 - alpha) * (previousLevel + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    if (seasonal) season[t % m] = gamma * (prices[t] - level) + (1 - gamma) * s;
+  }
+
+  return { level, trend, season, seasonal, sse, count };
+}
+
+// Damped additive trend with a weekly season; the smoothing constants with the lowest one-step error win
+function holtWintersForecast({ history, horizon, config }: ModelInput): ModelOutput {
+  if (history.length < 7) {
+    throw new Error("Insufficient historical data for forecasting (minimum 7 days required)");
+  }
+
+  const prices = history.map(h => h.modal_price);
+  const n = prices.length;
+
+  // gamma only matters once there are two full seasons to seed the seasonal terms
+  const gammas = n >= 2 * SEASON_LENGTH ? HW_GAMMAS : [0];
+
+  let best: (ReturnType<typeof holtWintersPass> & { alpha: number; beta: number; gamma: number; phi: number }) | null = null;
+  for (const alpha of HW_ALPHAS) {
+    for (const beta of HW_BETAS) {
+      for (const gamma of gammas) {
+        for (const phi of HW_PHIS) {
+          const pass = holtWintersPass(prices, alpha, beta, gamma, phi);
+          if (!best || pass.sse < best.sse) best = { ...pass, alpha, beta, gamma, phi };
+        }
+      }
+    }
+  }
+  const fit = best!;
+  const sigma = Math.sqrt(fit.sse / Math.max(fit.count, 1));
+
+  // h-step variance σ²(1 + Σ c_j²) with c_j the weight of a one-step error j steps back
+  const forecasts: ForecastPoint[] = [];
+  let dampedSum = 0;
+  let varianceFactor = 1;
+  for (let h = 1; h <= horizon; h++) {
+    dampedSum += Math.pow(fit.phi, h);
+    const modal = fit.level + dampedSum * fit.trend + fit.season[(n - 1 + h) % SEASON_LENGTH];
+    forecasts.push(forecastPoint(history[n - 1].date, h, modal, 1.96 * sigma * Math.sqrt(varianceFactor), config));
+
+    const c = fit.alpha * (1 + fit.beta * dampedSum) + (fit.seasonal && h % SEASON_LENGTH === 0 ? fit.gamma * (1 - fit.alpha) : 0);
+    varianceFactor += c * c;
+  }
+
+  const seasonRange = Math.max(...fit.season) - Math.min(...fit.season);
+  const trendMove = Math.abs(dampedSum * fit.trend);
+  const levelMove = Math.abs(fit.level - prices[n - 1]);
+  const total = seasonRange + trendMove + levelMove + 0.001;
+  const featureImportance = {
+    level: Math.round(levelMove / total * 100),
+    trend: Math.round(trendMove / total * 100),
+    seasonality: Math.round(seasonRange / total * 100)
+  };
+  featureImportance.level += 100 - (featureImportance.level + featureImportance.trend + featureImportance.seasonality);
+
+  const topDrivers: PriceDriver[] = [];
+  if (trendMove > prices[n - 1] * 0.01) {
+    topDrivers.push({
+      driver: fit.trend > 0 ? "Smoothed upward trend" : "Smoothed downward trend",
+      impact: fit.trend > 0 ? "positive" : "negative",
+      strength: Math.round(Math.min(trendMove / prices[n - 1] * 1000, 90))
+    });
+  }
+  if (fit.seasonal && seasonRange > prices[n - 1] * 0.01) {
+    const nextSeason = fit.season[n % SEASON_LENGTH];
+    topDrivers.push({
+      driver: "Weekly seasonal pattern",
+      impact: nextSeason >= 0 ? "positive" : "negative",
+      strength: Math.round(Math.min(seasonRange / prices[n - 1] * 1000, 60))
+    });
+  }
+
+  return { forecasts, feature_importance: featureImportance, top_drivers: topDrivers };
+}
+
+const MAX_AR_ORDER = 7;
+
+// ARIMA(p,1,0): least-squares autoregression on day-to-day price changes, p chosen by AIC.
+// Series too short for p = 1 become a random walk with drift.
+function arimaForecast({ history, horizon, config }: ModelInput): ModelOutput {
+  if (history.length < 7) {
+    throw new Error("Insufficient historical data for forecasting (minimum 7 days required)");
+  }
+
+  const prices = history.map(h => h.modal_price);
+  const n = prices.length;
+  const diffs = prices.slice(1).map((p, i) => p - prices[i]);
+
+  // Every order is scored on the same rows so the AIC values are comparable
+  const maxOrder = Math.min(MAX_AR_ORDER, Math.floor(diffs.length / 4));
+  let order = 0;
+  let coef = [diffs.reduce((a, b) => a + b, 0) / diffs.length];
+  let sigma = historyStatistics(diffs.length > 1 ? diffs : [0, 0]).std || prices[n - 1] * config.volatility;
+  let bestAic = Infinity;
+
+  for (let p = 1; p <= maxOrder; p++) {
+    const X: number[][] = [];
+    const y: number[] = [];
+    for (let t = maxOrder; t < diffs.length; t++) {
+      X.push([1, ...Array.from({ length: p }, (_, j) => diffs[t - 1 - j])]);
+      y.push(diffs[t]);
+    }
+    const fit = fitLeastSquares(X, y);
+    const aic = y.length * Math.log(fit.sse / y.length + 1e-9) + 2 * (p + 1);
+    if (aic < bestAic) {
+      bestAic = aic;
+      order = p;
+      coef = fit.coef;
+      sigma = Math.sqrt(fit.sse / Math.max(y.length - p - 1, 1));
+    }
+  }
+  const phi = coef.slice(1);
+
+  // ψ weights of the AR on differences; the level's h-step error sums their running totals
+  const psi = [1];
+  for (let j = 1; j < horizon; j++) {
+    psi.push(phi.reduce((sum, p, i) => sum + (j - 1 - i >= 0 ? p * psi[j - 1 - i] : 0), 0));
+  }
+
+  const forecasts: ForecastPoint[] = [];
+  const path = [...diffs];
+  let level = prices[n - 1];
+  let cumulativePsi = 0;
+  let variance = 0;
+  for (let h = 1; h <= horizon; h++) {
+    const change = coef[0] + phi.reduce((sum, p, i) => sum + p * (path[path.length - 1 - i] ?? 0), 0);
+    path.push(change);
+    level += change;
+
+    cumulativePsi += psi[h - 1];
+    variance += cumulativePsi * cumulativePsi;
+    forecasts.push(forecastPoint(history[n - 1].date, h, level, 1.96 * sigma * Math.sqrt(variance), config));
+  }
+
+  // Share of the last-horizon move explained by drift versus the recent changes fed through the lags
+  const drift = Math.abs(coef[0] * horizon);
+  const lagged = Math.abs(level - prices[n - 1] - coef[0] * horizon);
+  const total = drift + lagged + 0.001;
+  const featureImportance: Record<string, number> = {
+    drift: Math.round(drift / total * 100),
+    [`lagged_changes_p${order}`]: Math.round(lagged / total * 100)
+  };
+  featureImportance.drift += 100 - Object.values(featureImportance).reduce((a, b) => a + b, 0);
+
+  const move = level - prices[n - 1];
+  const topDrivers: PriceDriver[] = Math.abs(move) > prices[n - 1] * 0.005 ? [{
+    driver: order > 0 ? `Autoregressive momentum (AR(${order}) on daily changes)` : "Average daily drift",
+    impact: move > 0 ? "positive" : "negative",
+    strength: Math.round(Math.min(Math.abs(move) / prices[n - 1] * 1000, 90))
+  }] : [];
+
+  return { forecasts, feature_importance: featureImportance, top_drivers: topDrivers };
+}
+
+// mandi_features columns the regression adds when the market has them for most days
+const MARKET_FEATURE_COLUMNS: Record<string, string> = {
+  arrivals_zscore: "Arrivals vs normal",
+  msp_gap_pct: "Gap to MSP",
+  cumulative_rainfall_30: "Rainfall (30 days)",
+  is_harvest: "Harvest season",
+  is_sowing: "Sowing season",
+  is_festival: "Festival period"
+};
+const MARKET_FEATURE_MIN_COVERAGE = 0.8;
+const REGRESSION_WARMUP = 7;
+const REGRESSION_MIN_ROWS = 15;
+const REGRESSION_RIDGE = 1;
+
+// Direct multi-horizon ridge regression: for each h, the h-day price change regressed on the day's
+// standardised price signals and mandi_features columns. Horizons beyond the fitted ones hold the
+// furthest fitted change with a wider interval.
+function regressionForecast({ history, horizon, config, features }: ModelInput): ModelOutput {
+  const prices = history.map(h => h.modal_price);
+  const n = prices.length;
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const columns: Record<string, Array<number | null>> = {
+    "Last day change": prices.map((p, t) => t > 0 ? p / prices[t - 1] - 1 : 0),
+    "Price vs 7-day average": prices.map((p, t) => p / average(prices.slice(Math.max(0, t - 6), t + 1)) - 1),
+    "Price vs 30-day average": prices.map((p, t) => p / average(prices.slice(Math.max(0, t - 29), t + 1)) - 1),
+    "7-day volatility": prices.map((_, t) => {
+      const window = prices.slice(Math.max(0, t - 6), t + 1);
+      return window.length > 1 ? historyStatistics(window).std / average(window) : 0;
+    })
+  };
+
+  const featuresByDate = new Map(features.map(f => [f.arrival_date, f]));
+  for (const [key, label] of Object.entries(MARKET_FEATURE_COLUMNS)) {
+    const values = history.map(h => {
+      const value = featuresByDate.get(h.date)?.[key];
+      return typeof value === 'boolean' ? (value ? 1 : 0) : typeof value === 'number' ? value : null;
+    });
+    if (values.filter(v => v !== null).length >= n * MARKET_FEATURE_MIN_COVERAGE) {
+      columns[label] = values;
+    }
+  }
+
+  // Standardise each column, filling gaps with its mean; constant columns carry no signal
+  const names: string[] = [];
+  const standardized: number[][] = [];
+  for (const [name, values] of Object.entries(columns)) {
+    const present = values.filter((v): v is number => v !== null);
+    const mean = average(present);
+    const std = Math.sqrt(present.reduce((s, v) => s + Math.pow(v - mean, 2), 0) / present.length);
+    if (!(std > 1e-9)) continue;
+    names.push(name);
+    standardized.push(values.map(v => ((v ?? mean) - mean) / std));
+  }
+  const row = (t: number) => [1, ...standardized.map(column => column[t])];
+  const latest = row(n - 1);
+
+  const forecasts: ForecastPoint[] = [];
+  const importance = new Array(names.length).fill(0);
+  let fitted: { h: number; change: number; halfWidth: number; coef: number[] } | null = null;
+
+  for (let h = 1; h <= horizon; h++) {
+    const X: number[][] = [];
+    const y: number[] = [];
+    for (let t = REGRESSION_WARMUP; t + h < n; t++) {
+      X.push(row(t));
+      y.push(prices[t + h] / prices[t] - 1);
+    }
+
+    if (X.length >= REGRESSION_MIN_ROWS && (!fitted || fitted.h === h - 1)) {
+      const { coef, sse } = fitLeastSquares(X, y, REGRESSION_RIDGE);
+      const sigma = Math.sqrt(sse / Math.max(X.length - coef.length, 1));
+      fitted = {
+        h,
+        change: latest.reduce((sum, x, j) => sum + x * coef[j], 0),
+        halfWidth: 1.96 * sigma * Math.sqrt(1 + 1 / X.length),
+        coef
+      };
+      coef.slice(1).forEach((c, j) => { importance[j] += Math.abs(c); });
+    }
+
+    if (!fitted) {
+      throw new Error(`Insufficient history for the regression model (at least ${REGRESSION_WARMUP + REGRESSION_MIN_ROWS + 1} days required)`);
+    }
+
+    const stretch = Math.sqrt(h / fitted.h);
+    forecasts.push(forecastPoint(
+      history[n - 1].date, h,
+      prices[n - 1] * (1 + fitted.change),
+      prices[n - 1] * fitted.halfWidth * stretch,
+      config
+    ));
+  }
+
+  // Importance is the mean absolute standardised coefficient across the fitted horizons
+  const importanceTotal = importance.reduce((a, b) => a + b, 0) || 1;
+  const featureImportance: Record<string, number> = {};
+  names.forEach((name, j) => { featureImportance[name] = Math.round(importance[j] / importanceTotal * 100); });
+  const largest = names.reduce((a, b) => featureImportance[a] >= featureImportance[b] ? a : b, names[0]);
+  if (largest) {
+    featureImportance[largest] += 100 - Object.values(featureImportance).reduce((a, b) => a + b, 0);
+  }
+
+  // Drivers are today's feature values times their coefficients at the furthest fitted horizon
+  const contributions = names.map((name, j) => ({ name, value: fitted!.coef[j + 1] * latest[j + 1] }));
+  const contributionTotal = contributions.reduce((s, c) => s + Math.abs(c.value), 0) || 1;
+  const topDrivers: PriceDriver[] = contributions
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+    .slice(0, 4)
+    .filter(c => Math.abs(c.value) > 0)
+    .map(c => ({
+      driver: c.name,
+      impact: c.value > 0 ? "positive" : "negative",
+      strength: Math.round(Math.abs(c.value) / contributionTotal * 100)
+    }));
+
+  return { forecasts, feature_importance: featureImportance, top_drivers: topDrivers };
+}
+
+// Components of the ensemble; each is weighted by the inverse of its backtest MAE
+const ENSEMBLE_COMPONENTS = ['holt-winters', 'arima', 'regression'];
+// A quick backtest on the request's own history when no stored backtest covers the market
+const ENSEMBLE_WEIGHT_ORIGINS = 8;
+const ENSEMBLE_WEIGHT_STEP = 3;
+
+async function ensembleForecast(input: ModelInput): Promise<ModelOutput> {
+  const outputs: Record<string, ModelOutput> = {};
+  for (const id of ENSEMBLE_COMPONENTS) {
+    try {
+      outputs[id] = await MODEL_REGISTRY[id].forecast(input);
+    } catch (componentError) {
+      console.warn(`Ensemble component ${id} failed:`, componentError);
+    }
+  }
+
+  const ids = Object.keys(outputs);
+  if (ids.length === 0) {
+    throw new Error("No ensemble component could forecast this history");
+  }
+
+  const errors: Record<string, number> = {};
+  for (const id of ids) {
+    const stored = input.backtest_errors?.[id];
+    if (stored !== undefined) {
+      errors[id] = stored;
+      continue;
+    }
+    const horizons = [...new Set([1, Math.min(7, input.horizon)])];
+    const { scores } = await runBacktest(
+      MODEL_REGISTRY[id], input.history, input.features, input.request, input.config,
+      horizons, ENSEMBLE_WEIGHT_ORIGINS, ENSEMBLE_WEIGHT_STEP
+    );
+    const scored = scores.filter(s => s.sample_size > 0);
+    errors[id] = scored.length > 0 ? scored.reduce((s, score) => s + score.mae, 0) / scored.length : NaN;
+  }
+
+  // Components without a usable error share equally with each other when nothing else is known
+  const inverse = ids.map(id => errors[id] > 0 && Number.isFinite(errors[id]) ? 1 / errors[id] : 0);
+  const inverseTotal = inverse.reduce((a, b) => a + b, 0);
+  const weights: Record<string, number> = {};
+  ids.forEach((id, i) => { weights[id] = inverseTotal > 0 ? inverse[i] / inverseTotal : 1 / ids.length; });
+
+  const lastDate = input.history[input.history.length - 1].date;
+  const forecasts = outputs[ids[0]].forecasts.map(point => {
+    let modal = 0;
+    let halfWidth = 0;
+    for (const id of ids) {
+      const component = outputs[id].forecasts.find(f => f.horizon_days === point.horizon_days) ?? point;
+      modal += weights[id] * component.predicted_modal;
+      halfWidth += weights[id] * (component.confidence_upper - component.confidence_lower) / 2;
+    }
+    return forecastPoint(lastDate, point.horizon_days, modal, halfWidth, input.config);
+  });
+
+  const modelPredictions: Record<string, number> = {};
+  for (const id of ids) {
+    const last = outputs[id].forecasts[outputs[id].forecasts.length - 1];
+    modelPredictions[`${id.replace('-', '_')}_prediction`] = last.predicted_modal;
+  }
+  modelPredictions.ensemble_prediction = forecasts[forecasts.length - 1].predicted_modal;
+
+  // Feature attributions come from the regression, the only component that sees market features
+  const explained = outputs.regression ?? outputs[ids[0]];
+  return {
+    forecasts,
+    feature_importance: explained.feature_importance,
+    top_drivers: explained.top_drivers,
+    model_weights: Object.fromEntries(Object.entries(weights).map(([id, w]) => [id, Math.round(w * 1000) / 1000])),
+    model_predictions: modelPredictions
+  };
+}
+
+// Forwards the request to a caller-supplied forecasting service; it may answer with a `forecasts`
+// array in this contract or with a single ensemble prediction for the requested horizon
+async function externalForecast({ request, history, horizon, config, features }: ModelInput): Promise<ModelOutput> {
+  if (!request.ml_api_url) {
+    throw new Error("The external model needs ml_api_url");
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+  try {
+    const { state, district, market, commodity, variety, harvest_date } = request;
+    const mlResponse = await fetch(request.ml_api_url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        state, district, market, commodity, variety, horizon, harvest_date,
+        features: features[features.length - 1] ?? null,
+        history: history.slice(-30)
+      }),
+      signal: controller.signal
+    });
+
+    if (!mlResponse.ok) {
+      throw new Error(`ML API returned status ${mlResponse.status}`);
+    }
+
+    const mlData = await mlResponse.json();
+    let forecasts: ForecastPoint[] = Array.isArray(mlData.forecasts) ? mlData.forecasts : [];
+
+    if (forecasts.length === 0 && typeof mlData.ensemble_prediction === 'number') {
+      const targetDate = new Date(history[history.length - 1].date);
+      targetDate.setDate(targetDate.getDate() + horizon);
+      const predictedModal = Math.round(mlData.ensemble_prediction);
+      forecasts = [{
+        target_date: targetDate.toISOString().split('T')[0],
+        horizon_days: horizon,
+        predicted_min: Math.round(predictedModal * config.minRatio),
+        predicted_modal: predictedModal,
+        predicted_max: Math.round(predictedModal * config.maxRatio),
+        confidence_lower: Math.round(mlData.confidence_lower ?? predictedModal),
+        confidence_upper: Math.round(mlData.confidence_upper ?? predictedModal),
+        confidence_level: 0.95
+      }];
+    }
+
+    if (forecasts.length === 0) {
+      throw new Error("ML API response has no forecasts");
+    }
+
+    return {
+      forecasts,
+      feature_importance: mlData.feature_importance || {},
+      top_drivers: Array.isArray(mlData.top_drivers) ? mlData.top_drivers : [],
+      model_weights: mlData.model_weights,
+      model_predictions: mlData.model_predictions ?? (typeof mlData.ensemble_prediction === 'number' ? {
+        arima_prediction: mlData.arima_prediction,
+        xgboost_prediction: mlData.xgboost_prediction,
+        lstm_prediction: mlData.lstm_prediction,
+        ensemble_prediction: mlData.ensemble_prediction
+      } : undefined),
+      model_version: typeof mlData.model_version === 'string' ? mlData.model_version : undefined
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Every forecasting model the service can run, keyed by the `model` request field
+const MODEL_REGISTRY: Record<string, ForecastModel> = {
+  statistical: {
+    name: "Statistical Ensemble (OLS Trend + Seasonal Decomposition + Momentum)",
+    version: "2.0.0",
+    description: "Linear trend, day-of-week seasonality and decaying 7-day momentum fitted to the price history",
+    forecast: statisticalForecast
+  },
+  'holt-winters': {
+    name: "Holt-Winters Exponential Smoothing",
+    version: "1.0.0",
+    description: "Damped additive trend with a weekly season; smoothing constants chosen by one-step error",
+    forecast: holtWintersForecast
+  },
+  arima: {
+    name: "ARIMA(p,1,0)",
+    version: "1.0.0",
+    description: "Autoregression on daily price changes with the order (up to 7) chosen by AIC",
+    forecast: arimaForecast
+  },
+  regression: {
+    name: "Ridge Regression on Market Features",
+    version: "1.0.0",
+    description: "Per-horizon ridge regression of price change on price signals, arrivals, MSP gap, rainfall and season flags",
+    usesFeatures: true,
+    forecast: regressionForecast
+  },
+  ensemble: {
+    name: "Inverse-Error Ensemble (Holt-Winters + ARIMA + Regression)",
+    version: "1.0.0",
+    description: "Holt-Winters, ARIMA and the feature regression weighted by the inverse of their backtest MAE",
+    usesFeatures: true,
+    usesBacktests: true,
+    forecast: ensembleForecast
+  },
+  external: {
+    name: "External ML API",
+    version: "external",
+    description: "Caller-supplied forecasting service at ml_api_url; falls back to the default model on failure",
+    usesFeatures: true,
+    remote: true,
+    forecast: externalForecast
+  }
+};
+
+const DEFAULT_MODEL = 'statistical';
+
+// Reconcile scores forecasts whose target date passed within the lookback; older ones fell on market holidays
+const RECONCILE_LOOKBACK_DAYS = 30;
+// Page size when reading due forecasts
+const RECONCILE_BATCH = 500;
+
+// Horizon bands for the track record returned with each forecast
+const TRACK_RECORD_BANDS = [
+  { label: '1-3 days', from: 1, to: 3 },
+  { label: '4-7 days', from: 4, to: 7 },
+  { label: '8-14 days', from: 8, to: 14 },
+  { label: '15+ days', from: 15, to: Infinity }
+];
+const TRACK_RECORD_LIMIT = 500;
+
+interface ReconciledForecast {
+  target_date: string;
+  horizon_days: number;
+  predicted_modal: number;
+  actual_modal: number;
+  absolute_error: number | null;
+  percentage_error: number | null;
+  confidence_lower: number | null;
+  confidence_upper: number | null;
+}
+
+// Accuracy of a model's past forecasts for a market, overall and by horizon band, newest first
+function summarizeTrackRecord(rows: ReconciledForecast[]) {
+  const score = (subset: ReconciledForecast[]) => {
+    const n = subset.length;
+    const mean = (values: number[]) => n > 0 ? values.reduce((a, b) => a + b, 0) / n : 0;
+    const withInterval = subset.filter(r => r.confidence_lower !== null && r.confidence_upper !== null);
+    return {
+      evaluated: n,
+      mae: Math.round(mean(subset.map(r => Math.abs(Number(r.predicted_modal) - Number(r.actual_modal)))) * 100) / 100,
+      mape: Math.round(mean(subset.map(r => Math.abs(Number(r.predicted_modal) - Number(r.actual_modal)) / Number(r.actual_modal) * 100)) * 100) / 100,
+      bias: Math.round(mean(subset.map(r => Number(r.predicted_modal) - Number(r.actual_modal))) * 100) / 100,
+      interval_coverage: withInterval.length > 0
+        ? Math.round(withInterval.filter(r =>
+            Number(r.actual_modal) >= Number(r.confidence_lower) && Number(r.actual_modal) <= Number(r.confidence_upper)
+          ).length / withInterval.length * 1000) / 1000
+        : null
+    };
+  };
+
+  return {
+    ...score(rows),
+    by_horizon: TRACK_RECORD_BANDS
+      .map(band => ({ label: band.label, ...score(rows.filter(r => r.horizon_days >= band.from && r.horizon_days <= band.to)) }))
+      .filter(band => band.evaluated > 0),
+    recent: rows.slice(0, 10).map(r => ({
+      target_date: r.target_date,
+      horizon_days: r.horizon_days,
+      predicted_modal: Number(r.predicted_modal),
+      actual_modal: Number(r.actual_modal),
+      percentage_error: r.percentage_error === null ? null : Math.round(Number(r.percentage_error) * 10) / 10
+    }))
+  };
+}
+
+// Rolling-origin backtests fit each origin on the same trailing window live forecasts use
+const TRAIN_WINDOW = 90;
+const BACKTEST_MIN_TRAIN = 30;
+const BACKTEST_HISTORY_LIMIT = 730;
+const BACKTEST_HORIZONS = [1, 3, 7, 14, 30];
+const BACKTEST_DEFAULT_ORIGINS = 30;
+const BACKTEST_MAX_ORIGINS = 60;
+const BACKTEST_DEFAULT_STEP = 7;
+
+// Replay a model over the series from rolling origins and score each horizon against the observed prices.
+// Origins walk back from the second-to-last observation; target dates without an observation are skipped.
+async function runBacktest(
+  model: ForecastModel,
+  series: HistoricalData[],
+  featureRows: MarketFeatures[],
+  request: ForecastRequest,
+  config: CommodityConfig,
+  horizons: number[],
+  originCount: number,
+  step: number
+) {
+  const actualByDate = new Map(series.map(h => [h.date, h.modal_price]));
+  const maxHorizon = Math.max(...horizons);
+  const errors = new Map<number, Array<{ predicted: number; actual: number; covered: boolean }>>(
+    horizons.map(h => [h, []])
+  );
+  const originDates: string[] = [];
+
+  for (let k = 0; k < originCount; k++) {
+    const origin = series.length - 2 - k * step;
+    if (origin < BACKTEST_MIN_TRAIN - 1) break;
+
+    const history = series.slice(Math.max(0, origin + 1 - TRAIN_WINDOW), origin + 1);
+    const features = featureRows.filter(f => f.arrival_date >= history[0].date && f.arrival_date <= series[origin].date);
+
+    let output: ModelOutput;
+    try {
+      output = await model.forecast({ request: { ...request, horizon: maxHorizon }, history, horizon: maxHorizon, config, features });
+    } catch (modelError) {
+      console.warn(`Backtest origin ${series[origin].date} failed:`, modelError);
+      continue;
     }
+    originDates.push(series[origin].date);
+
+    for (const f of output.forecasts) {
+      const actual = actualByDate.get(f.target_date);
+      const bucket = errors.get(f.horizon_days);
+      if (actual === undefined || !bucket) continue;
+      bucket.push({
+        predicted: f.predicted_modal,
+        actual,
+        covered: actual >= f.confidence_lower && actual <= f.confidence_upper
+      });
+    }
+  }
+
+  const scores: HorizonScore[] = horizons.map(horizon => {
+    const rows = errors.get(horizon) || [];
+    const n = rows.length;
+    const mean = (values: number[]) => n > 0 ? values.reduce((a, b) => a + b, 0) / n : 0;
+    return {
+      horizon_days: horizon,
+      sample_size: n,
+      mae: Math.round(mean(rows.map(r => Math.abs(r.predicted - r.actual))) * 100) / 100,
+      rmse: Math.round(Math.sqrt(mean(rows.map(r => Math.pow(r.predicted - r.actual, 2)))) * 100) / 100,
+      mape: Math.round(mean(rows.map(r => Math.abs(r.predicted - r.actual) / r.actual * 100)) * 100) / 100,
+      bias: Math.round(mean(rows.map(r => r.predicted - r.actual)) * 100) / 100,
+      interval_coverage: Math.round(mean(rows.map(r => r.covered ? 1 : 0)) * 1000) / 1000
+    };
+  });
+
+  return { originDates: originDates.reverse(), scores };
+}
+
+// get_market_catalog reads the materialized catalog, paged through because PostgREST caps each response
+const CATALOG_PAGE = 1000;
+const CATALOG_MAX_ROWS = 20000;
+
+// One state/district/market/commodity/variety combination with recorded prices
+interface CatalogRow {
+  state: string;
+  district: string;
+  market: string;
+  commodity: string;
+  variety: string | null;
+  record_count: number;
+  mandi_prices_count: number;
+  mandi_timeseries_count: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+// Record count and date range of a group of catalog rows
+function catalogSummary(rows: CatalogRow[]) {
+  return {
+    records: rows.reduce((sum, r) => sum + Number(r.record_count), 0),
+    first_seen: rows.reduce((min, r) => r.first_seen < min ? r.first_seen : min, rows[0].first_seen),
+    last_seen: rows.reduce((max, r) => r.last_seen > max ? r.last_seen : max, rows[0].last_seen)
   };
 }
 
+function groupRows(rows: CatalogRow[], key: (row: CatalogRow) => string) {
+  const groups = new Map<string, CatalogRow[]>();
+  for (const row of rows) {
+    const name = key(row);
+    groups.set(name, [...(groups.get(name) || []), row]);
+  }
+  return [...groups];
+}
+
+// State → district → market → commodity → variety tree; rows arrive sorted from get_market_catalog
+function buildCatalog(rows: CatalogRow[]) {
+  return groupRows(rows, r => r.state).map(([state, stateRows]) => ({
+    state,
+    ...catalogSummary(stateRows),
+    districts: groupRows(stateRows, r => r.district).map(([district, districtRows]) => ({
+      district,
+      ...catalogSummary(districtRows),
+      markets: groupRows(districtRows, r => r.market).map(([market, marketRows]) => ({
+        market,
+        ...catalogSummary(marketRows),
+        commodities: groupRows(marketRows, r => r.commodity).map(([commodity, commodityRows]) => ({
+          commodity,
+          ...catalogSummary(commodityRows),
+          varieties: commodityRows.map(r => ({
+            variety: r.variety,
+            records: Number(r.record_count),
+            mandi_prices_records: Number(r.mandi_prices_count),
+            mandi_timeseries_records: Number(r.mandi_timeseries_count),
+            first_seen: r.first_seen,
+            last_seen: r.last_seen
+          }))
+        }))
+      }))
+    }))
+  }));
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -346,25 +1234,351 @@ serve(async (req) => {
       );
     }
 
-    const supabaseAuth = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
+    // The scheduled reconcile (pg_cron) posts the service role key itself. It is not a user session,
+    // so it is recognised here rather than by getClaims.
     const token = authHeader.replace('Bearer ', '');
-    const { data: claimsData, error: claimsError } = await supabaseAuth.auth.getClaims(token);
-    if (claimsError || !claimsData?.claims) {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const scheduled = serviceRoleKey !== '' && token === serviceRoleKey;
+
+    let userId: string | null = null;
+    if (!scheduled) {
+      const supabaseAuth = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data: claimsData, error: claimsError } = await supabaseAuth.auth.getClaims(token);
+      if (claimsError || !claimsData?.claims) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid authentication' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      userId = claimsData.claims.sub;
+    }
+
+    // GET ?view=catalog lists the combinations with recorded prices for the market selectors
+    if (req.method === 'GET' && new URL(req.url).searchParams.get('view') === 'catalog') {
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL')!,
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+      );
+
+      const rows: CatalogRow[] = [];
+      for (let from = 0; from < CATALOG_MAX_ROWS; from += CATALOG_PAGE) {
+        const { data, error } = await supabase
+          .rpc('get_market_catalog')
+          .range(from, from + CATALOG_PAGE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < CATALOG_PAGE) break;
+      }
+
       return new Response(
-        JSON.stringify({ success: false, error: 'Invalid authentication' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({
+          success: true,
+          combinations: rows.length,
+          states: buildCatalog(rows)
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // GET lists the registered models for model selectors
+    if (req.method === 'GET') {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          default_model: DEFAULT_MODEL,
+          models: Object.entries(MODEL_REGISTRY).map(([id, model]) => ({
+            id,
+            name: model.name,
+            version: model.version,
+            description: model.description
+          }))
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json() as ForecastRequest & BacktestOptions;
+
+    // Of the POST actions, the service role key is only accepted for the scheduled reconcile
+    if (scheduled && body.action !== 'reconcile') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'The service role can only run the scheduled reconcile' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const body = await req.json() as ForecastRequest;
-    const { state, district, market, commodity, variety, horizon = 7, ml_api_url } = body;
+    // Reconcile - fill actual prices and errors into stored forecasts whose target date has passed.
+    // Runs daily from pg_cron with the service role key; admins can also trigger it.
+    if (body.action === 'reconcile') {
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL')!,
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+      );
+
+      if (!scheduled) {
+        const { data: isAdmin, error: roleError } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+        if (roleError || !isAdmin) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'Admin access required' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
+      const today = new Date().toISOString().split('T')[0];
+      const lookback = new Date(Date.now() - RECONCILE_LOOKBACK_DAYS * DAY_MS).toISOString().split('T')[0];
+
+      // Read every due row before updating any, so the pages don't shift underneath the loop.
+      // Dates without a price (market holidays) stay pending until they leave the lookback.
+      const pending: Array<{
+        id: string; state: string; market: string; commodity: string; variety: string | null;
+        target_date: string; predicted_modal: number; data_source: string | null;
+      }> = [];
+      for (let from = 0; ; from += RECONCILE_BATCH) {
+        const { data: page, error: fetchError } = await supabase
+          .from('price_forecasts')
+          .select('id, state, market, commodity, variety, target_date, predicted_modal, data_source')
+          .lte('target_date', today)
+          .gte('target_date', lookback)
+          .is('actual_modal', null)
+          .order('target_date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + RECONCILE_BATCH - 1);
+
+        if (fetchError) throw fetchError;
+        pending.push(...(page || []));
+        if (!page || page.length < RECONCILE_BATCH) break;
+      }
+
+      // One price lookup per series, against the table the forecast was fitted on
+      const series = new Map<string, typeof pending>();
+      for (const row of pending) {
+        const key = JSON.stringify([row.data_source, row.state, row.market, row.commodity, row.variety]);
+        series.set(key, [...(series.get(key) || []), row]);
+      }
+
+      let updated = 0;
+      for (const rows of series.values()) {
+        const { data_source, state, market, commodity, variety } = rows[0];
+        let actualQuery = supabase
+          .from(data_source === 'mandi_prices' ? 'mandi_prices' : 'mandi_timeseries')
+          .select('arrival_date, modal_price')
+          .eq('state', state)
+          .eq('market', market)
+          .eq('commodity', commodity)
+          .in('arrival_date', [...new Set(rows.map(r => r.target_date))]);
+        // Forecasts without a variety match only prices recorded without one, so varieties can't collide by date
+        actualQuery = variety ? actualQuery.eq('variety', variety) : actualQuery.is('variety', null);
+
+        const { data: actuals, error: actualError } = await actualQuery;
+        if (actualError) {
+          console.warn(`Actual price lookup failed for ${commodity} at ${market}:`, actualError);
+          continue;
+        }
+
+        const actualByDate = new Map<string, number>((actuals || []).map(a => [a.arrival_date, Number(a.modal_price)]));
+        for (const row of rows) {
+          const actualModal = actualByDate.get(row.target_date);
+          if (!actualModal) continue;
 
-    console.log(`Forecast request: state=${state}, market=${market}, commodity=${commodity}, horizon=${horizon}`);
+          const absoluteError = Math.abs(Number(row.predicted_modal) - actualModal);
+          const { error: updateError } = await supabase
+            .from('price_forecasts')
+            .update({
+              actual_modal: actualModal,
+              absolute_error: absoluteError,
+              percentage_error: (absoluteError / actualModal) * 100,
+            })
+            .eq('id', row.id);
+
+          if (updateError) {
+            console.error(`Failed to reconcile forecast ${row.id}:`, updateError);
+          } else {
+            updated++;
+          }
+        }
+      }
+
+      console.log(`Reconciled ${updated} of ${pending.length} due forecasts`);
+
+      return new Response(
+        JSON.stringify({ success: true, action: 'reconcile', due_count: pending.length, updated_count: updated }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Backtest - replay mandi_timeseries from rolling origins and store per-horizon accuracy
+    if (body.action === 'backtest') {
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL')!,
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+      );
+
+      const { data: isAdmin, error: roleError } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+      if (roleError || !isAdmin) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Admin access required' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { state, district, market, commodity, variety } = body;
+      if (!state || !market || !commodity) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Missing required fields: state, market, commodity" }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const backtestable = Object.keys(MODEL_REGISTRY).filter(id => !MODEL_REGISTRY[id].remote);
+      const modelIds = body.models?.length ? body.models : backtestable;
+      const invalidModel = modelIds.find(id => !backtestable.includes(id));
+      if (invalidModel) {
+        return new Response(
+          JSON.stringify({ 
+            success: false, 
+            error: `Model "${invalidModel}" cannot be backtested. Available models: ${backtestable.join(', ')}` 
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const horizons = body.horizons?.length ? [...new Set(body.horizons)].sort((a, b) => a - b) : BACKTEST_HORIZONS;
+      if (horizons.some(h => !Number.isInteger(h) || h < 1 || h > 30)) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Horizons must be whole days between 1 and 30" }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const originCount = Math.min(Math.max(Math.round(body.origins ?? BACKTEST_DEFAULT_ORIGINS), 1), BACKTEST_MAX_ORIGINS);
+      const step = Math.max(Math.round(body.step ?? BACKTEST_DEFAULT_STEP), 1);
+
+      let seriesQuery = supabase
+        .from('mandi_timeseries')
+        .select('arrival_date, modal_price, min_price, max_price, arrivals_tonnes')
+        .eq('state', state)
+        .eq('market', market)
+        .eq('commodity', commodity)
+        .order('arrival_date', { ascending: false })
+        .limit(BACKTEST_HISTORY_LIMIT);
+      if (variety) seriesQuery = seriesQuery.eq('variety', variety);
+
+      const { data: rows, error: seriesError } = await seriesQuery;
+      if (seriesError) throw seriesError;
+
+      if (!rows || rows.length < BACKTEST_MIN_TRAIN + 1) {
+        return new Response(
+          JSON.stringify({ 
+            success: false, 
+            error: `At least ${BACKTEST_MIN_TRAIN + 1} days of mandi_timeseries are needed to backtest (found ${rows?.length || 0})` 
+          }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const series: HistoricalData[] = rows.reverse().map(row => ({
+        date: row.arrival_date,
+        modal_price: Number(row.modal_price),
+        min_price: Number(row.min_price),
+        max_price: Number(row.max_price),
+        arrivals: row.arrivals_tonnes ? Number(row.arrivals_tonnes) : undefined,
+      }));
+
+      // Each origin sees only the feature rows up to its own date
+      let featureRows: MarketFeatures[] = [];
+      if (modelIds.some(id => MODEL_REGISTRY[id].usesFeatures)) {
+        let featureQuery = supabase
+          .from('mandi_features')
+          .select('*')
+          .eq('state', state)
+          .eq('market', market)
+          .eq('commodity', commodity)
+          .gte('arrival_date', series[0].date)
+          .order('arrival_date', { ascending: true })
+          .limit(BACKTEST_HISTORY_LIMIT);
+        if (variety) featureQuery = featureQuery.eq('variety', variety);
+
+        const { data, error: featureError } = await featureQuery;
+        if (featureError) {
+          console.warn('Feature query error, backtesting from history alone:', featureError);
+        }
+        featureRows = data || [];
+      }
+
+      const { config } = await loadCommodityConfig(supabase, commodity);
+      const request: ForecastRequest = { state, district, market, commodity, variety, horizon: Math.max(...horizons) };
+
+      const results = [];
+      const performanceRows = [];
+      for (const id of modelIds) {
+        const model = MODEL_REGISTRY[id];
+        const { originDates, scores } = await runBacktest(model, series, featureRows, request, config, horizons, originCount, step);
+        results.push({ model: id, name: model.name, version: model.version, origins: originDates.length, scores });
+
+        for (const score of scores.filter(sc => sc.sample_size > 0)) {
+          performanceRows.push({
+            model_name: id,
+            model_version: model.version,
+            commodity,
+            market,
+            horizon_days: score.horizon_days,
+            mae: score.mae,
+            rmse: score.rmse,
+            mape: score.mape,
+            bias: score.bias,
+            interval_coverage: score.interval_coverage,
+            sample_size: score.sample_size,
+            evaluation_method: 'rolling_origin',
+            evaluation_start: originDates[0],
+            evaluation_end: originDates[originDates.length - 1],
+            hyperparameters: {
+              state,
+              variety: variety || null,
+              origins: originDates.length,
+              step,
+              train_window: TRAIN_WINDOW,
+              data_source: 'mandi_timeseries'
+            }
+          });
+        }
+      }
+
+      let stored = 0;
+      if (performanceRows.length > 0) {
+        const { error: insertError } = await supabase.from('ml_model_performance').insert(performanceRows);
+        if (insertError) {
+          console.error('Failed to store backtest results:', insertError);
+        } else {
+          stored = performanceRows.length;
+        }
+      }
+
+      console.log(`Backtest complete: ${modelIds.length} models, ${series.length} observations, ${stored} rows stored`);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          action: 'backtest',
+          data_source: 'mandi_timeseries',
+          request: { state, market, commodity, variety, horizons, origins: originCount, step },
+          series: { records: series.length, start: series[0].date, end: series[series.length - 1].date },
+          results,
+          stored
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { state, district, market, commodity, variety, ml_api_url, harvest_date } = body;
+    const requestedModel = body.model || (ml_api_url ? 'external' : DEFAULT_MODEL);
+    let horizon = body.horizon ?? 7;
+
+    console.log(`Forecast request: state=${state}, market=${market}, commodity=${commodity}, horizon=${horizon}, model=${requestedModel}`);
 
     // Input validation
     if (!state || !market || !commodity) {
@@ -378,93 +1592,118 @@ serve(async (req) => {
       );
     }
 
-    if (horizon < 1 || horizon > 30) {
+    if (!MODEL_REGISTRY[requestedModel]) {
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: "Horizon must be between 1 and 30 days" 
+          error: `Unknown model "${requestedModel}". Available models: ${Object.keys(MODEL_REGISTRY).join(', ')}` 
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Try external ML API first if provided
-    if (ml_api_url) {
-      console.log(`Attempting external ML API: ${ml_api_url}`);
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 10000);
-        
-        const mlResponse = await fetch(ml_api_url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ state, district, market, commodity, variety, horizon }),
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (mlResponse.ok) {
-          const mlData = await mlResponse.json();
-          console.log('External ML API successful');
-          return new Response(
-            JSON.stringify({ success: true, source: 'external_ml', ...mlData }),
-            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-        console.warn(`ML API returned status ${mlResponse.status}, falling back to statistical`);
-      } catch (mlError: unknown) {
-        const err = mlError as Error;
-        const errorMsg = err.name === 'AbortError' 
-          ? 'ML API timeout (10s)' 
-          : `ML API error: ${err.message}`;
-        console.warn(errorMsg);
+    // A harvest window replaces the horizon with the days up to the end of the window
+    let harvestWindow: { harvest_date: string; start: string; end: string } | null = null;
+    if (harvest_date) {
+      const harvest = new Date(`${harvest_date}T00:00:00Z`);
+      const today = new Date(`${new Date().toISOString().split('T')[0]}T00:00:00Z`);
+      const daysToWindowEnd = Math.round((harvest.getTime() - today.getTime()) / DAY_MS) + HARVEST_WINDOW_DAYS;
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(harvest_date) || isNaN(daysToWindowEnd) || daysToWindowEnd < 1 || daysToWindowEnd > MAX_HARVEST_HORIZON) {
+        return new Response(
+          JSON.stringify({ 
+            success: false, 
+            error: `Harvest date must be a YYYY-MM-DD date within the next ${MAX_HARVEST_HORIZON - HARVEST_WINDOW_DAYS} days` 
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
+
+      horizon = daysToWindowEnd;
+      const offset = (days: number) => new Date(harvest.getTime() + days * DAY_MS).toISOString().split('T')[0];
+      harvestWindow = { harvest_date, start: offset(-HARVEST_WINDOW_DAYS), end: offset(HARVEST_WINDOW_DAYS) };
+    } else if (horizon < 1 || horizon > 30) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "Horizon must be between 1 and 30 days" 
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Try to fetch real data from mandi_prices
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || Deno.env.get('SUPABASE_ANON_KEY');
+    const supabase = supabaseUrl && supabaseKey ? createClient(supabaseUrl, supabaseKey) : null;
+
+    const { config, source: configSource } = await loadCommodityConfig(supabase, commodity);
+
+    // Latest 90 days of prices: the cleaned mandi_timeseries first, then the raw mandi_prices feed
     let historicalData: HistoricalData[] = [];
     let dataSource = 'deterministic_simulated';
 
     try {
-      const supabaseUrl = Deno.env.get('SUPABASE_URL');
-      const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || Deno.env.get('SUPABASE_ANON_KEY');
-      
-      if (supabaseUrl && supabaseKey) {
-        const supabase = createClient(supabaseUrl, supabaseKey);
-        
-        const { data, error } = await supabase
-          .from('mandi_prices')
-          .select(`
-            arrival_date, modal_price, min_price, max_price, arrivals_tonnes,
-            price_lag_1, price_lag_7, price_lag_30, rolling_mean_7, rolling_mean_30,
-            momentum_7, volatility_30
-          `)
+      if (supabase) {
+        let timeseriesQuery = supabase
+          .from('mandi_timeseries')
+          .select('arrival_date, modal_price, min_price, max_price, arrivals_tonnes')
           .eq('state', state)
           .eq('market', market)
           .eq('commodity', commodity)
-          .order('arrival_date', { ascending: true })
+          .order('arrival_date', { ascending: false })
           .limit(90);
+        if (variety) timeseriesQuery = timeseriesQuery.eq('variety', variety);
+
+        const { data: timeseries, error: timeseriesError } = await timeseriesQuery;
+        if (timeseriesError) throw timeseriesError;
 
-        if (!error && data && data.length >= 7) {
-          console.log(`Found ${data.length} records in mandi_prices`);
-          historicalData = data.map(row => ({
+        if (timeseries && timeseries.length >= 7) {
+          console.log(`Found ${timeseries.length} records in mandi_timeseries`);
+          historicalData = timeseries.reverse().map(row => ({
             date: row.arrival_date,
             modal_price: Number(row.modal_price),
             min_price: Number(row.min_price),
             max_price: Number(row.max_price),
             arrivals: row.arrivals_tonnes ? Number(row.arrivals_tonnes) : undefined,
-            price_lag_1: row.price_lag_1 ? Number(row.price_lag_1) : undefined,
-            price_lag_7: row.price_lag_7 ? Number(row.price_lag_7) : undefined,
-            price_lag_30: row.price_lag_30 ? Number(row.price_lag_30) : undefined,
-            rolling_mean_7: row.rolling_mean_7 ? Number(row.rolling_mean_7) : undefined,
-            rolling_mean_30: row.rolling_mean_30 ? Number(row.rolling_mean_30) : undefined,
-            momentum_7: row.momentum_7 ? Number(row.momentum_7) : undefined,
-            volatility_30: row.volatility_30 ? Number(row.volatility_30) : undefined,
           }));
-          dataSource = 'mandi_prices';
+          dataSource = 'mandi_timeseries';
         } else {
-          console.log(`Insufficient real data (${data?.length || 0} records), using deterministic simulation`);
+          let pricesQuery = supabase
+            .from('mandi_prices')
+            .select(`
+              arrival_date, modal_price, min_price, max_price, arrivals_tonnes,
+              price_lag_1, price_lag_7, price_lag_30, rolling_mean_7, rolling_mean_30,
+              momentum_7, volatility_30
+            `)
+            .eq('state', state)
+            .eq('market', market)
+            .eq('commodity', commodity)
+            .order('arrival_date', { ascending: false })
+            .limit(90);
+          if (variety) pricesQuery = pricesQuery.eq('variety', variety);
+
+          const { data, error } = await pricesQuery;
+
+          if (!error && data && data.length >= 7) {
+            console.log(`Found ${data.length} records in mandi_prices`);
+            historicalData = data.reverse().map(row => ({
+              date: row.arrival_date,
+              modal_price: Number(row.modal_price),
+              min_price: Number(row.min_price),
+              max_price: Number(row.max_price),
+              arrivals: row.arrivals_tonnes ? Number(row.arrivals_tonnes) : undefined,
+              price_lag_1: row.price_lag_1 ? Number(row.price_lag_1) : undefined,
+              price_lag_7: row.price_lag_7 ? Number(row.price_lag_7) : undefined,
+              price_lag_30: row.price_lag_30 ? Number(row.price_lag_30) : undefined,
+              rolling_mean_7: row.rolling_mean_7 ? Number(row.rolling_mean_7) : undefined,
+              rolling_mean_30: row.rolling_mean_30 ? Number(row.rolling_mean_30) : undefined,
+              momentum_7: row.momentum_7 ? Number(row.momentum_7) : undefined,
+              volatility_30: row.volatility_30 ? Number(row.volatility_30) : undefined,
+            }));
+            dataSource = 'mandi_prices';
+          } else {
+            console.log(`Insufficient real data (${data?.length || 0} records), using deterministic simulation`);
+          }
         }
       }
     } catch (dbError) {
@@ -474,17 +1713,215 @@ serve(async (req) => {
     // Generate deterministic simulated data if needed
     if (historicalData.length < 7) {
       console.log('Generating deterministic historical data');
-      historicalData = generateDeterministicData(state, market, commodity);
+      historicalData = generateDeterministicData(state, market, commodity, config);
     }
 
-    // Run statistical forecast
-    const result = statisticalForecast(historicalData, horizon, commodity);
+    // Engineered features only exist for markets with real data
+    let features: MarketFeatures[] = [];
+    if (MODEL_REGISTRY[requestedModel].usesFeatures && supabase && dataSource !== 'deterministic_simulated') {
+      let featureQuery = supabase
+        .from('mandi_features')
+        .select('*')
+        .eq('state', state)
+        .eq('market', market)
+        .eq('commodity', commodity)
+        .gte('arrival_date', historicalData[0].date)
+        .order('arrival_date', { ascending: true })
+        .limit(TRAIN_WINDOW * 2);
+      if (variety) featureQuery = featureQuery.eq('variety', variety);
+
+      const { data: featureRows, error: featureError } = await featureQuery;
+      if (featureError) {
+        console.warn('Feature query error, forecasting from history alone:', featureError);
+      }
+      features = featureRows || [];
+    }
+
+    // Forecasts step from the last observed price, which may lag today
+    if (harvestWindow) {
+      const lastObserved = new Date(`${historicalData[historicalData.length - 1].date}T00:00:00Z`);
+      const windowEnd = new Date(`${harvestWindow.end}T00:00:00Z`);
+      horizon = Math.max(1, Math.round((windowEnd.getTime() - lastObserved.getTime()) / DAY_MS));
+    }
+
+    // Latest rolling-origin backtest per model for this market, averaged over horizons up to the request's
+    let backtestErrors: Record<string, number> | undefined;
+    if (MODEL_REGISTRY[requestedModel].usesBacktests && supabase) {
+      const { data: performance, error: performanceError } = await supabase
+        .from('ml_model_performance')
+        .select('model_name, horizon_days, mae, evaluated_at, hyperparameters')
+        .eq('market', market)
+        .eq('commodity', commodity)
+        .eq('evaluation_method', 'rolling_origin')
+        .in('model_name', ENSEMBLE_COMPONENTS)
+        .gt('sample_size', 0)
+        .order('evaluated_at', { ascending: false })
+        .limit(BACKTEST_HORIZONS.length * ENSEMBLE_COMPONENTS.length * 4);
+
+      if (performanceError) {
+        console.warn('Model performance query error, ensemble will backtest in-request:', performanceError);
+      }
+
+      const rows = (performance || []).filter(row =>
+        (row.hyperparameters as { state?: string } | null)?.state === state && row.mae !== null
+      );
+      for (const id of ENSEMBLE_COMPONENTS) {
+        const latestRun = rows.filter(row => row.model_name === id);
+        if (latestRun.length === 0) continue;
+        const runRows = latestRun.filter(row => row.evaluated_at === latestRun[0].evaluated_at);
+        const inHorizon = runRows.filter(row => (row.horizon_days ?? 0) <= horizon);
+        const used = inHorizon.length > 0 ? inHorizon : runRows;
+        backtestErrors = backtestErrors ?? {};
+        backtestErrors[id] = used.reduce((sum, row) => sum + Number(row.mae), 0) / used.length;
+      }
+    }
+
+    // Run the requested model; a failing model falls back to the default so the caller still gets a forecast
+    const input: ModelInput = { request: body, history: historicalData, horizon, config, features, backtest_errors: backtestErrors };
+    let modelId = requestedModel;
+    let result: ModelOutput;
+
+    try {
+      result = await MODEL_REGISTRY[modelId].forecast(input);
+    } catch (modelError) {
+      if (modelId === DEFAULT_MODEL) throw modelError;
+      const err = modelError as Error;
+      console.warn(`Model ${modelId} failed (${err.name === 'AbortError' ? 'timeout' : err.message}), falling back to ${DEFAULT_MODEL}`);
+      modelId = DEFAULT_MODEL;
+      result = await MODEL_REGISTRY[modelId].forecast(input);
+    }
+
+    const model = {
+      id: modelId,
+      name: MODEL_REGISTRY[modelId].name,
+      version: result.model_version ?? MODEL_REGISTRY[modelId].version,
+      ...(modelId !== requestedModel && { fallback_from: requestedModel })
+    };
+
+    // Each forecast carries the model and data it came from
+    let forecasts = result.forecasts.map(f => ({
+      ...f,
+      model: model.id,
+      model_version: model.version,
+      data_source: dataSource
+    }));
+
+    // Store every generated horizon so reconcile can score it once the target date has a price.
+    // Forecasts from simulated history have nothing to be scored against, and requests for a remote
+    // model are never stored - not even the fallback - since the caller controls what it returns.
+    const forecastDate = new Date().toISOString().split('T')[0];
+    const persistForecasts = dataSource !== 'deterministic_simulated' && !MODEL_REGISTRY[requestedModel].remote;
+    if (supabase && persistForecasts) {
+      const { error: storeError } = await supabase
+        .from('price_forecasts')
+        .upsert(forecasts.map(f => ({
+          state,
+          district: district || '',
+          market,
+          commodity,
+          variety: variety || null,
+          forecast_date: forecastDate,
+          target_date: f.target_date,
+          horizon_days: f.horizon_days,
+          predicted_min: f.predicted_min,
+          predicted_modal: f.predicted_modal,
+          predicted_max: f.predicted_max,
+          confidence_lower: f.confidence_lower,
+          confidence_upper: f.confidence_upper,
+          confidence_level: f.confidence_level,
+          model_used: model.id,
+          model_version: model.version,
+          data_source: dataSource,
+          feature_importance: result.feature_importance,
+          top_drivers: result.top_drivers
+        })), { onConflict: 'state,district,market,commodity,variety,model_used,forecast_date,target_date' });
+
+      if (storeError) {
+        console.error('Failed to store forecasts:', storeError);
+      }
+    }
+
+    // Only the harvest window is returned, summarised for the selling decision
+    let harvestSummary = null;
+    if (harvestWindow) {
+      const { start, end } = harvestWindow;
+      forecasts = forecasts.filter(f => f.target_date >= start && f.target_date <= end);
+      const modals = forecasts.map(f => f.predicted_modal);
+      harvestSummary = {
+        ...harvestWindow,
+        days: forecasts.length,
+        average_modal: Math.round(modals.reduce((a, b) => a + b, 0) / Math.max(modals.length, 1)),
+        lowest_modal: modals.length ? Math.min(...modals) : null,
+        highest_modal: modals.length ? Math.max(...modals) : null,
+        confidence_lower: modals.length ? Math.min(...forecasts.map(f => f.confidence_lower)) : null,
+        confidence_upper: modals.length ? Math.max(...forecasts.map(f => f.confidence_upper)) : null
+      };
+    }
+
+    // Record the furthest forecast in ml_predictions so ml-monitor can score it once actuals arrive
+    const furthest = forecasts[forecasts.length - 1];
+    if (supabase && furthest && persistForecasts) {
+      const { error: insertError } = await supabase
+        .from('ml_predictions')
+        .insert({
+          state,
+          district: district || '',
+          market,
+          commodity,
+          variety: variety || null,
+          prediction_date: forecastDate,
+          target_date: furthest.target_date,
+          horizon_days: furthest.horizon_days,
+          arima_prediction: result.model_predictions?.arima_prediction ?? null,
+          xgboost_prediction: result.model_predictions?.xgboost_prediction ?? null,
+          lstm_prediction: result.model_predictions?.lstm_prediction ?? null,
+          ensemble_prediction: furthest.predicted_modal,
+          confidence_lower: furthest.confidence_lower,
+          confidence_upper: furthest.confidence_upper,
+          confidence_level: furthest.confidence_level,
+          feature_importance: result.feature_importance,
+          top_drivers: result.top_drivers,
+          model_name: model.id,
+          model_version: model.version,
+          model_weights: result.model_weights ?? null,
+          data_source: dataSource
+        });
+
+      if (insertError) {
+        console.error('Failed to store prediction:', insertError);
+      }
+    }
+
+    // The model's reconciled forecasts for this market, for the track record
+    let trackRecord = null;
+    if (supabase) {
+      let trackQuery = supabase
+        .from('price_forecasts')
+        .select('target_date, horizon_days, predicted_modal, actual_modal, absolute_error, percentage_error, confidence_lower, confidence_upper')
+        .eq('state', state)
+        .eq('market', market)
+        .eq('commodity', commodity)
+        .eq('model_used', model.id)
+        .not('actual_modal', 'is', null)
+        .order('target_date', { ascending: false })
+        .limit(TRACK_RECORD_LIMIT);
+      if (variety) trackQuery = trackQuery.eq('variety', variety);
+
+      const { data: reconciled, error: trackError } = await trackQuery;
+      if (trackError) {
+        console.warn('Track record query error:', trackError);
+      } else if (reconciled && reconciled.length > 0) {
+        trackRecord = summarizeTrackRecord(reconciled);
+      }
+    }
 
     const response = {
       success: true,
-      source: dataSource === 'mandi_prices' ? 'mandi_prices_statistical' : 'deterministic_statistical',
+      model,
       data_source: dataSource,
-      request: { state, district, market, commodity, variety, horizon },
+      commodity_config_source: configSource,
+      request: { state, district, market, commodity, variety, horizon, harvest_date, model: requestedModel },
+      harvest_window: harvestSummary,
       historical_summary: {
         days_analyzed: historicalData.length,
         latest_price: historicalData[historicalData.length - 1].modal_price,
@@ -494,10 +1931,16 @@ serve(async (req) => {
           max: Math.max(...historicalData.map(h => h.modal_price))
         }
       },
-      ...result
+      forecasts,
+      feature_importance: result.feature_importance,
+      top_drivers: result.top_drivers,
+      statistics: summarizeHistory(historicalData),
+      model_weights: result.model_weights,
+      model_predictions: result.model_predictions,
+      track_record: trackRecord
     };
 
-    console.log(`Forecast generated successfully: ${result.forecasts.length} predictions`);
+    console.log(`Forecast generated successfully: ${forecasts.length} predictions from ${model.id}`);
 
     return new Response(
       JSON.stringify(response),
@@ -0,0 +1,148 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Methods": "GET,PATCH,DELETE,OPTIONS",
+};
+
+const MAX_LIMIT = 100;
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    console.log(`notifications request: method=${req.method}`);
+    // Validate auth header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized - No valid auth token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Create Supabase client with user's auth so RLS scopes every query
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.error("JWT verification failed:", userError);
+      return new Response(
+        JSON.stringify({ error: "Unauthorized - Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userId = user.id;
+    const params = new URL(req.url).searchParams;
+    const id = params.get("id");
+
+    // GET - Newest notifications first, with the unread count
+    if (req.method === "GET") {
+      const limit = Math.min(Math.max(parseInt(params.get("limit") || "20") || 20, 1), MAX_LIMIT);
+
+      const [list, unread] = await Promise.all([
+        supabase
+          .from("user_notifications")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false })
+          .limit(limit),
+        supabase
+          .from("user_notifications")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", userId)
+          .eq("is_read", false),
+      ]);
+
+      if (list.error || unread.error) {
+        console.error("Error fetching notifications:", list.error || unread.error);
+        return new Response(
+          JSON.stringify({ error: "Failed to fetch notifications" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: list.data || [], unread: unread.count || 0 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // PATCH - Mark one notification (?id=) or all of them as read
+    if (req.method === "PATCH") {
+      let query = supabase
+        .from("user_notifications")
+        .update({ is_read: true, read_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("is_read", false);
+      if (id) query = query.eq("id", id);
+
+      const { error } = await query;
+
+      if (error) {
+        console.error("Error marking notifications read:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to update notifications" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ message: id ? "Notification marked as read" : "All notifications marked as read" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // DELETE - Dismiss a notification
+    if (req.method === "DELETE") {
+      if (!id) {
+        return new Response(
+          JSON.stringify({ error: "Missing notification id" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error } = await supabase
+        .from("user_notifications")
+        .delete()
+        .eq("user_id", userId)
+        .eq("id", id);
+
+      if (error) {
+        console.error("Error deleting notification:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to delete notification" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ message: "Notification deleted" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -18,10 +18,43 @@ interface PredictionRequest {
   irrigationType?: string;
   fertilizerUsage?: string;
   previousCrop?: string;
+  // "recommend" ranks every crop for the field instead of predicting one
+  mode?: "predict" | "recommend" | "sensitivity" | "batch" | "nowcast";
+  rows?: PredictionRequest[]; // batch mode: one plot per row
+  // nowcast mode: the saved prediction to re-estimate now; without it every due prediction is
+  predictionId?: string;
+  // Farm whose Soil Health Card results replace the soil type multiplier
+  farmId?: string;
+  // YYYY-MM-DD; drives the stage calendar and the harvest date used for pricing
+  sowingDate?: string;
 }
 
-// Comprehensive crop database with scientific yield data (tons/hectare)
-const cropDatabase: Record<string, {
+// Soil Health Card values as stored on user_farms.soil_test_results
+interface SoilTest {
+  nitrogen: number;        // available N, kg/ha
+  phosphorus: number;      // available P, kg/ha
+  potassium: number;       // available K, kg/ha
+  ph: number;
+  organicCarbon?: number;  // %
+  ec?: number;             // dS/m
+  sulphur?: number;        // ppm
+  zinc?: number;           // ppm
+  iron?: number;           // ppm
+  manganese?: number;      // ppm
+  copper?: number;         // ppm
+  boron?: number;          // ppm
+  testDate?: string;
+}
+
+interface NutrientStatus {
+  nutrient: string;
+  value: number;
+  unit: string;
+  rating: "Low" | "Medium" | "High" | "Deficient" | "Sufficient" | "Acidic" | "Neutral" | "Alkaline" | "Normal" | "Saline";
+  advice?: string;
+}
+
+interface CropProfile {
   baseYield: number;
   optimalTemp: [number, number];
   optimalRainfall: [number, number];
@@ -30,7 +63,136 @@ const cropDatabase: Record<string, {
   waterRequirement: number;
   bestSoils: string[];
   bestSeasons: string[];
-}> = {
+  // Ranges that differ when the crop is grown in another season, e.g. summer (Zaid) maize
+  seasonConditions?: Record<string, SeasonConditions>;
+  // Stage calendar from reference_crops (PHENOLOGY_STAGES order); built-in profiles use the tables below
+  stageFractions?: number[];
+  stageNames?: string[];
+}
+
+interface SeasonConditions {
+  optimalTemp?: [number, number];
+  optimalRainfall?: [number, number];
+  optimalHumidity?: [number, number];
+}
+
+// Crop profiles, prices and costs in use for a request
+interface ReferenceData {
+  crops: Record<string, CropProfile>;
+  prices: Record<string, number>;
+  costs: Record<string, number>; // ₹/ha keyed "Crop|State"
+  marketPrices: Record<string, MarketPrice>; // keyed by priceKey()
+  source: "database" | "built-in";
+}
+
+// Price the harvest is valued at, and where it came from
+interface MarketPrice {
+  pricePerQuintal: number;
+  source: "forecast" | "mandi_district" | "mandi_state" | "msp" | "reference";
+  date: string | null;   // forecast target date, arrival date or MSP marketing year
+  market: string | null;
+  harvestDate: string;
+}
+
+interface MandiPriceRow {
+  commodity: string;
+  state: string;
+  district: string;
+  market: string;
+  modal_price: number;
+  arrival_date: string;
+}
+
+interface ForecastPriceRow {
+  commodity: string;
+  state: string;
+  district: string;
+  market: string;
+  predicted_modal: number;
+  target_date: string;
+  model_used: string;
+}
+
+interface ReferenceCropRow {
+  crop: string;
+  base_yield: number;
+  optimal_temp_min: number;
+  optimal_temp_max: number;
+  optimal_rainfall_min: number;
+  optimal_rainfall_max: number;
+  optimal_humidity_min: number;
+  optimal_humidity_max: number;
+  growing_days: number;
+  water_requirement: number;
+  best_soils: string[];
+  best_seasons: string[];
+  price_per_quintal: number;
+  // { "Zaid": { "temp": [min, max], "rainfall": [min, max], "humidity": [min, max] } }
+  season_conditions: Record<string, { temp?: [number, number]; rainfall?: [number, number]; humidity?: [number, number] }> | null;
+  stage_fractions: number[] | null;
+  stage_names: string[] | null;
+}
+
+interface CalibratedCoefficient {
+  coefficient: number;
+  rows: number;
+}
+
+// Fitted yield response to season weather; the crop's mean recorded season gives a factor of 1
+interface CalibratedWeather {
+  rainfallMean: number;
+  temperatureMean: number;
+  rainfallEffect: number;
+  temperatureEffect: number;
+  rows: number;
+}
+
+// Coefficients fitted by calibrate-yield-model from historical_yields
+interface YieldModel {
+  model_version: string;
+  training_rows: number;
+  trained_at: string;
+  coefficients: {
+    crops: Record<string, {
+      baseYield: number;
+      rows: number;
+      residualCv: number;
+      states: Record<string, CalibratedCoefficient>;
+      districts?: Record<string, CalibratedCoefficient>; // keyed "State|district", relative to the state
+      weather?: CalibratedWeather;
+    }>;
+    states: Record<string, CalibratedCoefficient>;
+    districts?: Record<string, CalibratedCoefficient>;
+    soils: Record<string, CalibratedCoefficient>;
+  };
+}
+
+// Built-in model used until a calibrated one is activated
+const STATIC_MODEL_VERSION = "AgriYield-v2.0-Advanced";
+
+// Weather simulation - a fixed seed keeps the distribution reproducible for the same inputs
+const SIMULATION_DRAWS = 1000;
+const SIMULATION_SEED = 20240601;
+const MIN_WEATHER_HISTORY = 3;
+// Fallback spreads when a state has too little history in historical_yields
+const DEFAULT_RAINFALL_CV = 0.2;
+const DEFAULT_TEMPERATURE_SD = 1.5;
+const DEFAULT_HUMIDITY_SD = 8;
+// Confidence = share of simulated seasons landing within ±20% of the median
+const CONFIDENCE_BAND = 0.2;
+
+interface WeatherSpread {
+  rainfallCv: number;
+  temperatureSd: number;
+  temperatureMean: number | null;
+  rainfallMean: number | null;
+  humiditySd: number;
+  historyRows: number;
+  source: "historical" | "default";
+}
+
+// Built-in crop database with scientific yield data (tons/hectare) - used when reference_crops can't be read
+const cropDatabase: Record<string, CropProfile> = {
   "Rice": {
     baseYield: 4.2,
     optimalTemp: [25, 35],
@@ -79,7 +241,8 @@ const cropDatabase: Record<string, {
     growingDays: 100,
     waterRequirement: 500,
     bestSoils: ["Loamy", "Alluvial", "Red"],
-    bestSeasons: ["Kharif", "Rabi"]
+    bestSeasons: ["Kharif", "Rabi", "Zaid"],
+    seasonConditions: { "Zaid": { optimalTemp: [25, 35], optimalRainfall: [100, 400], optimalHumidity: [35, 60] } }
   },
   "Barley": {
     baseYield: 2.8,
@@ -109,7 +272,8 @@ const cropDatabase: Record<string, {
     growingDays: 120,
     waterRequirement: 500,
     bestSoils: ["Sandy Loam", "Red", "Alluvial"],
-    bestSeasons: ["Kharif", "Rabi"]
+    bestSeasons: ["Kharif", "Rabi", "Zaid"],
+    seasonConditions: { "Zaid": { optimalTemp: [25, 35], optimalRainfall: [100, 400], optimalHumidity: [40, 60] } }
   },
   "Soybean": {
     baseYield: 2.5,
@@ -129,7 +293,8 @@ const cropDatabase: Record<string, {
     growingDays: 90,
     waterRequirement: 400,
     bestSoils: ["Black", "Alluvial", "Red"],
-    bestSeasons: ["Rabi", "Kharif"]
+    bestSeasons: ["Rabi", "Kharif", "Zaid"],
+    seasonConditions: { "Zaid": { optimalTemp: [22, 32], optimalRainfall: [100, 400], optimalHumidity: [35, 55] } }
   },
   "Potato": {
     baseYield: 25,
@@ -159,7 +324,8 @@ const cropDatabase: Record<string, {
     growingDays: 75,
     waterRequirement: 600,
     bestSoils: ["Loamy", "Sandy Loam", "Alluvial"],
-    bestSeasons: ["Rabi", "Zaid"]
+    bestSeasons: ["Rabi", "Zaid"],
+    seasonConditions: { "Zaid": { optimalTemp: [22, 32], optimalRainfall: [50, 300], optimalHumidity: [40, 65] } }
   },
   "Mustard": {
     baseYield: 1.5,
@@ -190,9 +356,69 @@ const cropDatabase: Record<string, {
     waterRequirement: 600,
     bestSoils: ["Loamy", "Black", "Alluvial"],
     bestSeasons: ["Kharif", "Rabi"]
+  },
+  // Zaid (summer, Feb-June) crops are irrigated; their rainfall ranges are for the dry season
+  "Watermelon": {
+    baseYield: 25,
+    optimalTemp: [24, 35],
+    optimalRainfall: [50, 400],
+    optimalHumidity: [30, 60],
+    growingDays: 90,
+    waterRequirement: 450,
+    bestSoils: ["Sandy Loam", "Alluvial", "Loamy"],
+    bestSeasons: ["Zaid"]
+  },
+  "Muskmelon": {
+    baseYield: 15,
+    optimalTemp: [25, 35],
+    optimalRainfall: [50, 400],
+    optimalHumidity: [30, 60],
+    growingDays: 85,
+    waterRequirement: 450,
+    bestSoils: ["Sandy Loam", "Alluvial", "Loamy"],
+    bestSeasons: ["Zaid"]
+  },
+  "Cucumber": {
+    baseYield: 12,
+    optimalTemp: [20, 32],
+    optimalRainfall: [100, 500],
+    optimalHumidity: [50, 70],
+    growingDays: 60,
+    waterRequirement: 400,
+    bestSoils: ["Loamy", "Sandy Loam", "Alluvial"],
+    bestSeasons: ["Zaid", "Kharif"],
+    seasonConditions: { "Kharif": { optimalRainfall: [500, 900], optimalHumidity: [60, 85] } }
+  },
+  "Moong": {
+    baseYield: 0.9,
+    optimalTemp: [25, 35],
+    optimalRainfall: [60, 400],
+    optimalHumidity: [40, 65],
+    growingDays: 65,
+    waterRequirement: 300,
+    bestSoils: ["Loamy", "Sandy Loam", "Alluvial"],
+    bestSeasons: ["Zaid", "Kharif"],
+    seasonConditions: { "Kharif": { optimalRainfall: [400, 800], optimalHumidity: [60, 80] } }
+  },
+  "Fodder Sorghum": {
+    baseYield: 40, // green fodder
+    optimalTemp: [25, 38],
+    optimalRainfall: [100, 600],
+    optimalHumidity: [35, 70],
+    growingDays: 60,
+    waterRequirement: 450,
+    bestSoils: ["Loamy", "Alluvial", "Black", "Sandy Loam"],
+    bestSeasons: ["Zaid", "Kharif"],
+    seasonConditions: { "Kharif": { optimalRainfall: [400, 900], optimalHumidity: [55, 85] } }
   }
 };
 
+// Crop profile with the optimal ranges for the season it is grown in
+function seasonalProfile(cropInfo: CropProfile, season: string): CropProfile {
+  const conditions = cropInfo.seasonConditions?.[season];
+  return conditions ? { ...cropInfo, ...conditions } : cropInfo;
+}
+
 // State-wise yield modifiers based on agricultural conditions
 const stateModifiers: Record<string, number> = {
   "Punjab": 1.25,
@@ -231,6 +457,97 @@ const soilModifiers: Record<string, number> = {
   "Peaty": 0.85
 };
 
+// Botanical families - crops in the same family share pests, diseases and nutrient draw
+const cropFamilies: Record<string, string> = {
+  "Rice": "Cereal",
+  "Wheat": "Cereal",
+  "Maize": "Cereal",
+  "Barley": "Cereal",
+  "Sugarcane": "Cereal",
+  "Gram": "Legume",
+  "Groundnut": "Legume",
+  "Soybean": "Legume",
+  "Cotton": "Malvaceae",
+  "Sunflower": "Asteraceae",
+  "Potato": "Solanaceae",
+  "Tomato": "Solanaceae",
+  "Chilli": "Solanaceae",
+  "Onion": "Allium",
+  "Mustard": "Brassica",
+  "Turmeric": "Zingiber",
+  "Watermelon": "Cucurbit",
+  "Muskmelon": "Cucurbit",
+  "Cucumber": "Cucurbit",
+  "Moong": "Legume",
+  "Fodder Sorghum": "Cereal"
+};
+
+// Pests and diseases that survive in residue or soil and attack the next crop of the same family
+const familyCarryOver: Record<string, string> = {
+  "Cereal": "stem borer and blast inoculum",
+  "Legume": "Fusarium wilt and root rot",
+  "Malvaceae": "pink bollworm",
+  "Asteraceae": "Alternaria blight and Sclerotinia",
+  "Solanaceae": "bacterial wilt, late blight and nematodes",
+  "Allium": "thrips and purple blotch",
+  "Brassica": "aphids and white rust",
+  "Zingiber": "rhizome rot",
+  "Cucurbit": "fruit fly, downy mildew and Fusarium wilt"
+};
+
+// Rotation multipliers
+const ROTATION_LEGUME_CREDIT = 1.08;      // residual N from nodules (~30-40 kg N/ha)
+const ROTATION_LEGUME_CREDIT_CEREAL = 1.10; // cereals are the most N-responsive
+const ROTATION_SAME_CROP = 0.90;
+const ROTATION_SAME_FAMILY = 0.95;
+const ROTATION_FALLOW = 1.03;
+
+// Soil Health Card ratings for macronutrients and organic carbon, with yield factors for Low/Medium/High
+const soilTestRatings: Record<"nitrogen" | "phosphorus" | "potassium" | "organicCarbon", {
+  label: string;
+  unit: string;
+  low: number;
+  high: number;
+  factors: [number, number, number];
+  lowAdvice: string;
+  highAdvice?: string;
+}> = {
+  nitrogen: {
+    label: "Nitrogen (N)", unit: "kg/ha", low: 280, high: 560, factors: [0.88, 0.96, 1.02],
+    lowAdvice: "Nitrogen is low - raise the N dose by 25% and split urea into 3 applications",
+    highAdvice: "Nitrogen is high - cut the N dose by 25% to avoid lodging and save cost"
+  },
+  phosphorus: {
+    label: "Phosphorus (P)", unit: "kg/ha", low: 10, high: 25, factors: [0.92, 0.98, 1.0],
+    lowAdvice: "Phosphorus is low - apply the full P dose as DAP or SSP at sowing",
+    highAdvice: "Phosphorus is high - skip basal DAP this season"
+  },
+  potassium: {
+    label: "Potassium (K)", unit: "kg/ha", low: 110, high: 280, factors: [0.94, 0.99, 1.0],
+    lowAdvice: "Potassium is low - apply MOP as a basal dose"
+  },
+  organicCarbon: {
+    label: "Organic Carbon", unit: "%", low: 0.5, high: 0.75, factors: [0.95, 1.0, 1.03],
+    lowAdvice: "Organic carbon is low - add 5-10 t/ha FYM or compost, or grow a green manure crop"
+  }
+};
+
+// Critical limits (ppm) below which a secondary or micronutrient is deficient
+const micronutrientLimits: Record<"sulphur" | "zinc" | "iron" | "manganese" | "copper" | "boron", {
+  label: string;
+  limit: number;
+  advice: string;
+}> = {
+  sulphur: { label: "Sulphur (S)", limit: 10, advice: "Sulphur is deficient - apply 20-40 kg S/ha through gypsum or SSP" },
+  zinc: { label: "Zinc (Zn)", limit: 0.6, advice: "Zinc is deficient - apply 25 kg/ha zinc sulphate at sowing" },
+  iron: { label: "Iron (Fe)", limit: 4.5, advice: "Iron is deficient - spray 0.5% ferrous sulphate twice at 15-day intervals" },
+  manganese: { label: "Manganese (Mn)", limit: 2.0, advice: "Manganese is deficient - spray 0.5% manganese sulphate" },
+  copper: { label: "Copper (Cu)", limit: 0.2, advice: "Copper is deficient - apply 5 kg/ha copper sulphate" },
+  boron: { label: "Boron (B)", limit: 0.5, advice: "Boron is deficient - apply 10 kg/ha borax" }
+};
+
+const MICRONUTRIENT_DEFICIENCY_FACTOR = 0.98;
+
 // Irrigation modifiers
 const irrigationModifiers: Record<string, number> = {
   "Drip": 1.25,
@@ -250,6 +567,23 @@ const fertilizerModifiers: Record<string, number> = {
   "None": 0.70
 };
 
+const BEST_SEASON_FACTOR = 1.1;
+const OFF_SEASON_FACTOR = 0.85;
+
+// A calibrated base yield is the observed average of historical_yields: district averages over a mix
+// of irrigation and fertilizer use, recorded in the crop's main season. Practice factors are taken
+// relative to these levels so average practices reproduce the fitted yield.
+const averageOf = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const CALIBRATED_PRACTICE_REFERENCE = {
+  irrigation: averageOf(Object.values(irrigationModifiers)),
+  fertilizer: averageOf(Object.values(fertilizerModifiers)),
+  season: BEST_SEASON_FACTOR
+};
+const UNCALIBRATED_PRACTICE_REFERENCE = { irrigation: 1, fertilizer: 1, season: 1 };
+// Bounds on a fitted weather factor, which is linear in log space and would otherwise extrapolate freely
+const CALIBRATED_WEATHER_FACTOR_MIN = 0.5;
+const CALIBRATED_WEATHER_FACTOR_MAX = 1.5;
+
 function calculateOptimalFactor(value: number, optimalRange: [number, number]): number {
   const [min, max] = optimalRange;
   const optimal = (min + max) / 2;
@@ -270,32 +604,31 @@ function calculateOptimalFactor(value: number, optimalRange: [number, number]):
   }
 }
 
-function calculateConfidence(factors: number[]): number {
-  // Calculate confidence based on how many factors are near optimal
-  const avgFactor = factors.reduce((a, b) => a + b, 0) / factors.length;
-  const variance = factors.reduce((sum, f) => sum + Math.pow(f - avgFactor, 2), 0) / factors.length;
-  
-  // Higher average and lower variance = higher confidence
-  const baseConfidence = 70;
-  const factorBonus = (avgFactor - 0.8) * 50;
-  const variancePenalty = variance * 30;
-  
-  return Math.min(98, Math.max(60, Math.round(baseConfidence + factorBonus - variancePenalty)));
-}
-
 function generateRecommendations(
   data: PredictionRequest,
-  cropInfo: typeof cropDatabase[string],
-  factors: { soil: number; rainfall: number; temp: number; humidity: number; season: number }
+  cropInfo: CropProfile,
+  factors: { soil: number; rainfall: number; temp: number; humidity: number; season: number; rotation: number },
+  rotation: ReturnType<typeof calculateRotationEffect>,
+  soil: SoilAnalysis | null
 ): string[] {
   const recommendations: string[] = [];
   
+  // Soil test (nutrient deficiency) recommendations
+  if (soil) {
+    recommendations.push(...soil.recommendations);
+  }
+  
+  // Rotation recommendations
+  recommendations.push(...rotation.recommendations);
+  
   // Soil recommendations
   if (factors.soil < 0.9) {
     if (!cropInfo.bestSoils.includes(data.soilType)) {
       recommendations.push(`Consider soil amendments - ${cropInfo.bestSoils.slice(0, 2).join(" or ")} soil is optimal for ${data.crop}`);
     }
-    recommendations.push("Conduct comprehensive soil testing for NPK levels and pH balance");
+    if (!soil) {
+      recommendations.push("Conduct comprehensive soil testing for NPK levels and pH balance");
+    }
   }
   
   // Rainfall/Water recommendations
@@ -329,7 +662,7 @@ function generateRecommendations(
   
   // Fertilizer specific
   if (data.fertilizerUsage === "None" || data.fertilizerUsage === "Minimal") {
-    recommendations.push("Implement balanced fertilization based on soil test recommendations");
+    recommendations.push(`Use the Fertilizer Calculator for a soil-test based N-P-K dose and bag plan for ${data.crop}`);
   }
   
   // Irrigation specific
@@ -342,10 +675,12 @@ function generateRecommendations(
 
 function generateRiskAssessment(
   data: PredictionRequest,
-  factors: { soil: number; rainfall: number; temp: number; humidity: number; season: number }
+  factors: { soil: number; rainfall: number; temp: number; humidity: number; season: number; rotation: number },
+  rotation: ReturnType<typeof calculateRotationEffect>,
+  soil: SoilAnalysis | null
 ): { level: string; factors: string[]; mitigation: string[] } {
-  const riskFactors: string[] = [];
-  const mitigation: string[] = [];
+  const riskFactors: string[] = [...rotation.risks, ...(soil?.risks || [])];
+  const mitigation: string[] = [...rotation.mitigation];
   
   if (factors.rainfall < 0.8) {
     if (data.rainfall < 500) {
@@ -377,7 +712,7 @@ function generateRiskAssessment(
     mitigation.push("Use protected cultivation or climate-controlled practices");
   }
   
-  const avgFactor = Object.values(factors).reduce((a, b) => a + b, 0) / 5;
+  const avgFactor = Object.values(factors).reduce((a, b) => a + b, 0) / Object.values(factors).length;
   const level = avgFactor > 0.9 ? "Low" : avgFactor > 0.75 ? "Medium" : "High";
   
   if (riskFactors.length === 0) {
@@ -388,54 +723,201 @@ function generateRiskAssessment(
   return { level, factors: riskFactors, mitigation };
 }
 
+// Market price estimates (INR per quintal) - based on typical MSP and market rates
+const builtInPrices: Record<string, number> = {
+  "Rice": 2300,
+  "Wheat": 2275,
+  "Cotton": 6800,
+  "Sugarcane": 350,
+  "Maize": 2090,
+  "Barley": 1850,
+  "Gram": 5450,
+  "Groundnut": 6550,
+  "Soybean": 4600,
+  "Sunflower": 6760,
+  "Potato": 1200,
+  "Onion": 1500,
+  "Tomato": 2000,
+  "Mustard": 5650,
+  "Turmeric": 8500,
+  "Chilli": 12000,
+  "Watermelon": 1200,
+  "Muskmelon": 1800,
+  "Cucumber": 1500,
+  "Moong": 8682,
+  "Fodder Sorghum": 250
+};
+
+// National cost estimates (INR per hectare)
+const builtInCosts: Record<string, number> = {
+  "Rice": 45000,
+  "Wheat": 35000,
+  "Cotton": 55000,
+  "Sugarcane": 85000,
+  "Maize": 32000,
+  "Barley": 28000,
+  "Gram": 25000,
+  "Groundnut": 40000,
+  "Soybean": 30000,
+  "Sunflower": 28000,
+  "Potato": 120000,
+  "Onion": 75000,
+  "Tomato": 95000,
+  "Mustard": 25000,
+  "Turmeric": 150000,
+  "Chilli": 80000,
+  "Watermelon": 70000,
+  "Muskmelon": 65000,
+  "Cucumber": 60000,
+  "Moong": 22000,
+  "Fodder Sorghum": 20000
+};
+
+// Rows that cost a crop for every state without its own figure
+const NATIONAL_COST_STATE = "All India";
+
+// Reference tables replace the built-in values once they hold any rows
+function referenceDataFrom(
+  cropRows: ReferenceCropRow[] | null,
+  costRows: { crop: string; state: string; cost_per_hectare: number }[] | null
+): ReferenceData {
+  const fromDatabase = !!cropRows && cropRows.length > 0;
+  const crops: Record<string, CropProfile> = fromDatabase ? {} : cropDatabase;
+  const prices: Record<string, number> = fromDatabase ? {} : builtInPrices;
+
+  (fromDatabase ? cropRows : []).forEach(row => {
+    crops[row.crop] = {
+      baseYield: Number(row.base_yield),
+      optimalTemp: [Number(row.optimal_temp_min), Number(row.optimal_temp_max)],
+      optimalRainfall: [Number(row.optimal_rainfall_min), Number(row.optimal_rainfall_max)],
+      optimalHumidity: [Number(row.optimal_humidity_min), Number(row.optimal_humidity_max)],
+      growingDays: Number(row.growing_days),
+      waterRequirement: Number(row.water_requirement),
+      bestSoils: row.best_soils,
+      bestSeasons: row.best_seasons,
+      seasonConditions: Object.fromEntries(Object.entries(row.season_conditions || {}).map(([season, ranges]) => [season, {
+        ...(ranges.temp ? { optimalTemp: ranges.temp } : {}),
+        ...(ranges.rainfall ? { optimalRainfall: ranges.rainfall } : {}),
+        ...(ranges.humidity ? { optimalHumidity: ranges.humidity } : {})
+      }])),
+      ...(row.stage_fractions?.length === PHENOLOGY_STAGES.length ? { stageFractions: row.stage_fractions.map(Number) } : {}),
+      ...(row.stage_names?.length === PHENOLOGY_STAGES.length ? { stageNames: row.stage_names } : {})
+    };
+    prices[row.crop] = Number(row.price_per_quintal);
+  });
+
+  const costs: Record<string, number> = {};
+  if (costRows && costRows.length > 0) {
+    costRows.forEach(row => { costs[`${row.crop}|${row.state}`] = Number(row.cost_per_hectare); });
+  } else {
+    Object.entries(builtInCosts).forEach(([crop, cost]) => { costs[`${crop}|${NATIONAL_COST_STATE}`] = cost; });
+  }
+
+  return { crops, prices, costs, marketPrices: {}, source: fromDatabase ? "database" : "built-in" };
+}
+
+// Farmers sell the unmilled crop, so paddy prices value a rice harvest
+const MARKET_COMMODITY: Record<string, string> = { "Rice": "Paddy" };
+// Mandi prices older than this are not treated as current
+const MANDI_PRICE_MAX_AGE_DAYS = 60;
+// A forecast counts for the harvest if its target date is this close
+const FORECAST_MATCH_DAYS = 15;
+// Built-in market-forecast models whose stored forecasts may price a harvest; a forecast is only
+// preferred over mandi prices once its model has a rolling-origin backtest for that market
+const TRUSTED_FORECAST_MODELS = ["ensemble", "statistical"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const backtestKey = (model: string, market: string, commodity: string) =>
+  `${model}|${market.toLowerCase()}|${commodity.toLowerCase()}`;
+
+const priceKey = (data: { crop: string; state: string; district?: string; sowingDate?: string }) =>
+  `${data.crop}|${data.state}|${(data.district || "").toLowerCase()}|${data.sowingDate || ""}`;
+
+// Expected harvest date from the sowing date, or assuming the crop is sown now
+function harvestDateFor(cropInfo: CropProfile, sowingDate?: string, today = new Date()): string {
+  const sown = sowingDate ? new Date(`${sowingDate}T00:00:00Z`) : today;
+  return new Date(sown.getTime() + cropInfo.growingDays * DAY_MS).toISOString().split("T")[0];
+}
+
+// Backtested forecast for the harvest date, else the latest district then state mandi price, else MSP,
+// else the reference price
+function resolveMarketPrice(
+  data: { crop: string; state: string; district?: string },
+  harvestDate: string,
+  commodityNames: string[],
+  mandiRows: MandiPriceRow[],
+  forecastRows: ForecastPriceRow[],
+  backtested: Set<string>,
+  mspRows: { commodity: string; marketing_year: string; msp: number }[],
+  reference: ReferenceData
+): MarketPrice {
+  const names = commodityNames.map(n => n.toLowerCase());
+  const district = (data.district || "").toLowerCase();
+  const inState = <T extends { commodity: string; state: string }>(rows: T[]) =>
+    rows.filter(r => r.state === data.state && names.includes(r.commodity.toLowerCase()));
+  const districtFirst = <T extends { district: string }>(rows: T[]) => {
+    const local = district ? rows.filter(r => (r.district || "").toLowerCase() === district) : [];
+    return local.length > 0 ? { rows: local, level: "district" as const } : { rows, level: "state" as const };
+  };
+
+  // Rows arrive newest forecast first, so ties go to the most recent run
+  const harvestTime = new Date(harvestDate).getTime();
+  const scored = forecastRows.filter(r =>
+    TRUSTED_FORECAST_MODELS.includes(r.model_used) && backtested.has(backtestKey(r.model_used, r.market, r.commodity))
+  );
+  const forecasts = districtFirst(inState(scored)).rows
+    .map(r => ({ row: r, gap: Math.abs(new Date(r.target_date).getTime() - harvestTime) }))
+    .filter(f => f.gap <= FORECAST_MATCH_DAYS * DAY_MS);
+  if (forecasts.length > 0) {
+    const best = forecasts.reduce((a, b) => b.gap < a.gap ? b : a).row;
+    return {
+      pricePerQuintal: Math.round(Number(best.predicted_modal)),
+      source: "forecast",
+      date: best.target_date,
+      market: best.market,
+      harvestDate
+    };
+  }
+
+  // Average the markets reporting on the latest arrival date
+  const mandi = districtFirst(inState(mandiRows));
+  if (mandi.rows.length > 0) {
+    const latestDate = mandi.rows.reduce((a, b) => b.arrival_date > a ? b.arrival_date : a, mandi.rows[0].arrival_date);
+    const latest = mandi.rows.filter(r => r.arrival_date === latestDate);
+    const markets = [...new Set(latest.map(r => r.market))];
+    return {
+      pricePerQuintal: Math.round(latest.reduce((sum, r) => sum + Number(r.modal_price), 0) / latest.length),
+      source: mandi.level === "district" ? "mandi_district" : "mandi_state",
+      date: latestDate,
+      market: markets.length === 1 ? markets[0] : `${markets.length} markets`,
+      harvestDate
+    };
+  }
+
+  const mspCommodity = (MARKET_COMMODITY[data.crop] || data.crop).toLowerCase();
+  const msp = mspRows
+    .filter(r => r.commodity.toLowerCase() === mspCommodity)
+    .sort((a, b) => b.marketing_year.localeCompare(a.marketing_year))[0];
+  if (msp) {
+    return { pricePerQuintal: Number(msp.msp), source: "msp", date: msp.marketing_year, market: null, harvestDate };
+  }
+
+  return { pricePerQuintal: reference.prices[data.crop] || 3000, source: "reference", date: null, market: null, harvestDate };
+}
+
 function generateFinancialProjection(
-  crop: string,
+  data: PredictionRequest,
   predictedYield: number,
   area: number,
-  totalProduction: number
-): { estimatedRevenue: number; estimatedCost: number; estimatedProfit: number; costBreakdown: Record<string, number>; pricePerQuintal: number } {
-  // Market price estimates (INR per quintal) - based on typical MSP and market rates
-  const pricePerQuintal: Record<string, number> = {
-    "Rice": 2300,
-    "Wheat": 2275,
-    "Cotton": 6800,
-    "Sugarcane": 350,
-    "Maize": 2090,
-    "Barley": 1850,
-    "Gram": 5450,
-    "Groundnut": 6550,
-    "Soybean": 4600,
-    "Sunflower": 6760,
-    "Potato": 1200,
-    "Onion": 1500,
-    "Tomato": 2000,
-    "Mustard": 5650,
-    "Turmeric": 8500,
-    "Chilli": 12000
-  };
-  
-  // Cost estimates (INR per hectare)
-  const costPerHectare: Record<string, number> = {
-    "Rice": 45000,
-    "Wheat": 35000,
-    "Cotton": 55000,
-    "Sugarcane": 85000,
-    "Maize": 32000,
-    "Barley": 28000,
-    "Gram": 25000,
-    "Groundnut": 40000,
-    "Soybean": 30000,
-    "Sunflower": 28000,
-    "Potato": 120000,
-    "Onion": 75000,
-    "Tomato": 95000,
-    "Mustard": 25000,
-    "Turmeric": 150000,
-    "Chilli": 80000
-  };
-  
-  const price = pricePerQuintal[crop] || 3000;
-  const costBase = costPerHectare[crop] || 40000;
+  totalProduction: number,
+  reference: ReferenceData
+): { estimatedRevenue: number; estimatedCost: number; estimatedProfit: number; costBreakdown: Record<string, number>; pricePerQuintal: number; priceSource: MarketPrice | null } {
+  const marketPrice = reference.marketPrices[priceKey(data)];
+  const price = marketPrice?.pricePerQuintal || reference.prices[data.crop] || 3000;
+  // State cost of cultivation where one is recorded, otherwise the national figure
+  const costBase = reference.costs[`${data.crop}|${data.state}`]
+    || reference.costs[`${data.crop}|${NATIONAL_COST_STATE}`]
+    || 40000;
   
   // Convert tons to quintals (1 ton = 10 quintals)
   const productionInQuintals = totalProduction * 10;
@@ -454,7 +936,966 @@ function generateFinancialProjection(
     "Miscellaneous": Math.round(estimatedCost * 0.03)
   };
   
-  return { estimatedRevenue, estimatedCost, estimatedProfit, costBreakdown, pricePerQuintal: price };
+  return { estimatedRevenue, estimatedCost, estimatedProfit, costBreakdown, pricePerQuintal: price, priceSource: marketPrice || null };
+}
+
+// Base yield, state and soil factors - from the active calibrated model where it covers the crop
+function resolveBaseFactors(model: YieldModel | null, data: PredictionRequest, cropInfo: { baseYield: number }) {
+  const calibratedCrop = model?.coefficients.crops?.[data.crop];
+
+  if (!model || !calibratedCrop) {
+    return {
+      baseYield: cropInfo.baseYield,
+      nationalAvgYield: cropInfo.baseYield * 0.85, // National average is typically 85% of optimal
+      stateFactor: stateModifiers[data.state] || 1.0,
+      soilFactor: soilModifiers[data.soilType] || 1.0,
+      practiceReference: UNCALIBRATED_PRACTICE_REFERENCE,
+      weather: null as CalibratedWeather | null,
+      geography: {
+        level: stateModifiers[data.state] ? "state" : "national",
+        state: data.state,
+        district: null as string | null,
+        rows: 0
+      },
+      calibration: {
+        calibrated: false,
+        cropTrainingRows: 0,
+        stateSource: "default",
+        districtSource: "none",
+        soilSource: "default",
+        weatherSource: "optimal_ranges"
+      }
+    };
+  }
+
+  // Crop-specific state history first, then the state's effect across all crops
+  const cropState = calibratedCrop.states?.[data.state];
+  const anyCropState = model.coefficients.states?.[data.state];
+  const soil = model.coefficients.soils?.[data.soilType];
+
+  // District effect on top of the state, where the district has history
+  const districtKey = data.district?.trim() ? `${data.state}|${data.district.trim().toLowerCase()}` : null;
+  const cropDistrict = districtKey ? calibratedCrop.districts?.[districtKey] : undefined;
+  const anyCropDistrict = districtKey ? model.coefficients.districts?.[districtKey] : undefined;
+  const district = cropDistrict ?? anyCropDistrict;
+  const state = cropState ?? anyCropState;
+
+  return {
+    baseYield: calibratedCrop.baseYield,
+    // The fitted base is already the observed average yield, so it is the comparison point as it stands
+    nationalAvgYield: calibratedCrop.baseYield,
+    practiceReference: CALIBRATED_PRACTICE_REFERENCE,
+    weather: calibratedCrop.weather ?? null,
+    stateFactor: (state?.coefficient ?? stateModifiers[data.state] ?? 1.0) * (district?.coefficient ?? 1.0),
+    soilFactor: soil?.coefficient ?? soilModifiers[data.soilType] ?? 1.0,
+    geography: {
+      level: district ? "district" : state || stateModifiers[data.state] ? "state" : "national",
+      state: data.state,
+      district: district ? data.district!.trim() : null,
+      rows: district?.rows ?? state?.rows ?? 0
+    },
+    calibration: {
+      calibrated: true,
+      cropTrainingRows: calibratedCrop.rows,
+      stateSource: cropState ? "crop_state" : anyCropState ? "state" : "default",
+      districtSource: cropDistrict ? "crop_district" : anyCropDistrict ? "district" : "none",
+      soilSource: soil ? "calibrated" : "default",
+      weatherSource: calibratedCrop.weather ? "calibrated" : "optimal_ranges"
+    }
+  };
+}
+
+// Seeded PRNG (mulberry32) so simulations are reproducible
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draws via Box-Muller
+function createNormal(random: () => number) {
+  return () => {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function sampleStd(values: number[]): number {
+  const avg = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((s, v) => s + Math.pow(v - avg, 2), 0) / Math.max(values.length - 1, 1));
+}
+
+// Year-to-year weather spread for the state, from the seasons recorded in historical_yields
+function weatherSpreadFrom(history: { rainfall_mm: number | null; temperature: number | null }[] | null): WeatherSpread {
+  const fallback: WeatherSpread = {
+    rainfallCv: DEFAULT_RAINFALL_CV,
+    temperatureSd: DEFAULT_TEMPERATURE_SD,
+    temperatureMean: null,
+    rainfallMean: null,
+    humiditySd: DEFAULT_HUMIDITY_SD,
+    historyRows: 0,
+    source: "default"
+  };
+
+  if (!history) return fallback;
+
+  const rainfall = history.map(r => Number(r.rainfall_mm)).filter(v => v > 0);
+  const temperature = history.map(r => Number(r.temperature)).filter(v => v > 0);
+
+  const hasRainfall = rainfall.length >= MIN_WEATHER_HISTORY;
+  const hasTemperature = temperature.length >= MIN_WEATHER_HISTORY;
+  if (!hasRainfall && !hasTemperature) return fallback;
+
+  const rainfallMean = hasRainfall ? rainfall.reduce((a, b) => a + b, 0) / rainfall.length : 0;
+
+  return {
+    rainfallCv: hasRainfall ? sampleStd(rainfall) / rainfallMean : DEFAULT_RAINFALL_CV,
+    temperatureSd: hasTemperature ? sampleStd(temperature) : DEFAULT_TEMPERATURE_SD,
+    temperatureMean: hasTemperature ? temperature.reduce((a, b) => a + b, 0) / temperature.length : null,
+    rainfallMean: hasRainfall ? rainfallMean : null,
+    humiditySd: DEFAULT_HUMIDITY_SD,
+    historyRows: Math.max(rainfall.length, temperature.length),
+    source: "historical"
+  };
+}
+
+type WeatherFactors = (rainfall: number, temperature: number | null, humidity: number | null) =>
+  { rainfall: number; temperature: number; humidity: number };
+
+// Rainfall, temperature and humidity factors for one season. The static model scores distance from the
+// optimal ranges and discounts unknown readings; a calibrated crop uses its fitted rainfall and temperature
+// response where it has one and treats unknown readings as an average season.
+function weatherFactorsFor(cropInfo: CropProfile, calibrated: boolean, weather: CalibratedWeather | null): WeatherFactors {
+  const unknown = calibrated ? 1 : 0.95;
+  const bounded = (factor: number) =>
+    Math.min(CALIBRATED_WEATHER_FACTOR_MAX, Math.max(CALIBRATED_WEATHER_FACTOR_MIN, factor));
+
+  return (rainfall, temperature, humidity) => ({
+    rainfall: weather
+      ? bounded(Math.exp(weather.rainfallEffect * (rainfall / weather.rainfallMean - 1)))
+      : calculateOptimalFactor(rainfall, cropInfo.optimalRainfall),
+    temperature: temperature === null ? unknown
+      : weather ? bounded(Math.exp(weather.temperatureEffect * (temperature - weather.temperatureMean)))
+      : calculateOptimalFactor(temperature, cropInfo.optimalTemp),
+    humidity: humidity === null ? unknown : calculateOptimalFactor(humidity, cropInfo.optimalHumidity)
+  });
+}
+
+// Monte Carlo over rainfall, temperature and humidity around the entered conditions
+function simulateYield(
+  data: PredictionRequest,
+  weatherFactors: WeatherFactors,
+  fixedYield: number,
+  spread: WeatherSpread
+) {
+  const normal = createNormal(createRandom(SIMULATION_SEED));
+  // Log-normal rainfall keeps draws positive and skewed like real monsoon totals
+  const rainfallSigma = Math.sqrt(Math.log(1 + spread.rainfallCv * spread.rainfallCv));
+  const temperatureCenter = data.temperature || spread.temperatureMean;
+
+  const yields: number[] = [];
+  for (let i = 0; i < SIMULATION_DRAWS; i++) {
+    const rainfall = data.rainfall * Math.exp(rainfallSigma * normal() - rainfallSigma * rainfallSigma / 2);
+    const temperature = temperatureCenter ? temperatureCenter + spread.temperatureSd * normal() : null;
+    const humidity = data.humidity ? Math.min(100, Math.max(0, data.humidity + spread.humiditySd * normal())) : null;
+
+    const factors = weatherFactors(rainfall, temperature, humidity);
+    yields.push(fixedYield * factors.rainfall * factors.temperature * factors.humidity);
+  }
+
+  yields.sort((a, b) => a - b);
+  const p50 = quantile(yields, 0.5);
+  const withinBand = yields.filter(y => Math.abs(y - p50) <= p50 * CONFIDENCE_BAND).length;
+
+  return {
+    p10: quantile(yields, 0.1),
+    p50,
+    p90: quantile(yields, 0.9),
+    confidence: Math.min(99, Math.round((withinBand / yields.length) * 100))
+  };
+}
+
+// Waterfall from the base yield to the prediction in t/ha. Factors multiply, so each step is the change
+// it makes to the running yield in this order; the last step is the gap between the yield at the
+// entered conditions and the simulated median.
+function buildYieldBreakdown(baseYield: number, factors: { key: string; label: string; factor: number }[], predictedYield: number) {
+  const round = (value: number) => parseFloat(value.toFixed(2));
+  let running = baseYield;
+
+  const steps = factors.map(({ key, label, factor }) => {
+    const contribution = running * (factor - 1);
+    running += contribution;
+    return { key, label, factor: parseFloat(factor.toFixed(3)), contribution: round(contribution), cumulative: round(running) };
+  });
+  steps.push({
+    key: "weatherVariability",
+    label: "Weather variability",
+    factor: parseFloat((predictedYield / running).toFixed(3)),
+    contribution: round(predictedYield - running),
+    cumulative: round(predictedYield)
+  });
+
+  return { base: round(baseYield), steps, final: round(predictedYield), unit: "t/ha" };
+}
+
+// Runs the yield model for one crop - shared by single predictions and recommendation mode
+function predictCrop(
+  data: PredictionRequest,
+  profile: CropProfile,
+  model: YieldModel | null,
+  weatherSpread: WeatherSpread,
+  soilTest: SoilTest | null,
+  reference: ReferenceData
+) {
+  const cropInfo = seasonalProfile(profile, data.season);
+  const base = resolveBaseFactors(model, data, cropInfo);
+  const { baseYield, nationalAvgYield, stateFactor, geography, practiceReference } = base;
+
+  // A soil test replaces the coarse soil type multiplier
+  const soil = soilTest ? analyzeSoilTest(soilTest) : null;
+  const soilFactor = soil ? soil.factor : base.soilFactor;
+  const calibration = { ...base.calibration, soilSource: soil ? "soil_test" : base.calibration.soilSource };
+
+  // Calculate individual factors, relative to the practices the base yield already reflects
+  const irrigationFactor = (irrigationModifiers[data.irrigationType || "Rain-fed"] || 1.0) / practiceReference.irrigation;
+  const fertilizerFactor = (fertilizerModifiers[data.fertilizerUsage || "Mixed"] || 1.0) / practiceReference.fertilizer;
+  
+  // Calculate weather factors
+  const weatherFactors = weatherFactorsFor(cropInfo, base.calibration.calibrated, base.weather);
+  const conditions = weatherFactors(data.rainfall, data.temperature || null, data.humidity || null);
+  const rainfallFactor = conditions.rainfall;
+  const tempFactor = conditions.temperature;
+  const humidityFactor = conditions.humidity;
+  
+  // Season factor
+  const seasonFactor = (cropInfo.bestSeasons.includes(data.season) ? BEST_SEASON_FACTOR : OFF_SEASON_FACTOR) / practiceReference.season;
+
+  // Rotation factor from the previous crop on this field
+  const rotation = calculateRotationEffect(data.crop, data.previousCrop);
+  const rotationFactor = rotation.factor;
+  
+  // Calculate predicted yield
+  const allFactors = [
+    soilFactor,
+    stateFactor,
+    irrigationFactor,
+    fertilizerFactor,
+    rainfallFactor,
+    tempFactor,
+    humidityFactor,
+    seasonFactor,
+    rotationFactor
+  ];
+  
+  // Yield at exactly the entered conditions
+  const conditionsYield = baseYield * allFactors.reduce((a, b) => a * b, 1);
+
+  // Distribution over plausible weather; the median is the headline prediction
+  const fixedYield = baseYield * soilFactor * stateFactor * irrigationFactor * fertilizerFactor * seasonFactor * rotationFactor;
+  const simulation = simulateYield(data, weatherFactors, fixedYield, weatherSpread);
+  const predictedYield = simulation.p50;
+  const totalProduction = predictedYield * data.area;
+  const confidence = simulation.confidence;
+  
+  // Generate recommendations
+  const factorsSummary = {
+    soil: soilFactor,
+    rainfall: rainfallFactor,
+    temp: tempFactor,
+    humidity: humidityFactor,
+    season: seasonFactor,
+    rotation: rotationFactor
+  };
+  
+  const breakdown = buildYieldBreakdown(baseYield, [
+    { key: "state", label: geography.level === "district" ? "District" : "State", factor: stateFactor },
+    { key: "soil", label: soil ? "Soil test" : "Soil", factor: soilFactor },
+    { key: "irrigation", label: "Irrigation", factor: irrigationFactor },
+    { key: "fertilizer", label: "Fertilizer", factor: fertilizerFactor },
+    { key: "rainfall", label: "Rainfall", factor: rainfallFactor },
+    { key: "temperature", label: "Temperature", factor: tempFactor },
+    { key: "humidity", label: "Humidity", factor: humidityFactor },
+    { key: "season", label: "Season", factor: seasonFactor },
+    { key: "rotation", label: "Crop rotation", factor: rotationFactor }
+  ], predictedYield);
+
+  const recommendations = generateRecommendations(data, cropInfo, factorsSummary, rotation, soil);
+  const riskAssessment = generateRiskAssessment(data, factorsSummary, rotation, soil);
+  const financialProjection = {
+    ...generateFinancialProjection(data, predictedYield, data.area, totalProduction, reference),
+    profitQuantiles: {
+      p10: generateFinancialProjection(data, simulation.p10, data.area, simulation.p10 * data.area, reference).estimatedProfit,
+      p50: generateFinancialProjection(data, simulation.p50, data.area, totalProduction, reference).estimatedProfit,
+      p90: generateFinancialProjection(data, simulation.p90, data.area, simulation.p90 * data.area, reference).estimatedProfit
+    }
+  };
+  
+  // Calculate yield comparison
+  const yieldComparison = ((predictedYield / nationalAvgYield) - 1) * 100;
+  
+  return {
+    prediction: {
+      yieldPerHectare: parseFloat(predictedYield.toFixed(2)),
+      totalProduction: parseFloat(totalProduction.toFixed(2)),
+      unit: data.crop === "Sugarcane" || data.crop === "Potato" || data.crop === "Onion" || data.crop === "Tomato" || data.crop === "Turmeric" ? "tons" : "tons",
+      confidence,
+      conditionsYield: parseFloat(conditionsYield.toFixed(2)),
+      yieldQuantiles: {
+        p10: parseFloat(simulation.p10.toFixed(2)),
+        p50: parseFloat(simulation.p50.toFixed(2)),
+        p90: parseFloat(simulation.p90.toFixed(2))
+      },
+      productionQuantiles: {
+        p10: parseFloat((simulation.p10 * data.area).toFixed(2)),
+        p50: parseFloat((simulation.p50 * data.area).toFixed(2)),
+        p90: parseFloat((simulation.p90 * data.area).toFixed(2))
+      },
+      nationalAvgYield: parseFloat(nationalAvgYield.toFixed(2)),
+      yieldComparison: parseFloat(yieldComparison.toFixed(1)),
+      growingDays: cropInfo.growingDays,
+      waterRequirement: cropInfo.waterRequirement
+    },
+    analysis: {
+      factors: {
+        soil: { value: parseFloat((soilFactor * 100).toFixed(1)), status: soilFactor >= 1 ? "optimal" : soilFactor >= 0.9 ? "good" : "suboptimal" },
+        rainfall: { value: parseFloat((rainfallFactor * 100).toFixed(1)), status: rainfallFactor >= 0.95 ? "optimal" : rainfallFactor >= 0.85 ? "good" : "suboptimal" },
+        temperature: { value: parseFloat((tempFactor * 100).toFixed(1)), status: tempFactor >= 0.95 ? "optimal" : tempFactor >= 0.85 ? "good" : "suboptimal" },
+        humidity: { value: parseFloat((humidityFactor * 100).toFixed(1)), status: humidityFactor >= 0.95 ? "optimal" : humidityFactor >= 0.85 ? "good" : "suboptimal" },
+        season: { value: parseFloat((seasonFactor * 100).toFixed(1)), status: seasonFactor >= 1 ? "optimal" : "suboptimal" },
+        rotation: { value: parseFloat((rotationFactor * 100).toFixed(1)), status: rotationFactor > 1 ? "optimal" : rotationFactor === 1 ? "good" : "suboptimal" },
+        location: { value: parseFloat((stateFactor * 100).toFixed(1)), status: stateFactor >= 1 ? "optimal" : stateFactor >= 0.9 ? "good" : "suboptimal" }
+      },
+      breakdown,
+      geography,
+      nutrientAnalysis: soil ? { testDate: soil.testDate, nutrients: soil.nutrients } : null,
+      phenology: data.sowingDate ? buildPhenology(data.crop, cropInfo, data.sowingDate) : null,
+      optimalConditions: {
+        temperature: cropInfo.optimalTemp,
+        rainfall: cropInfo.optimalRainfall,
+        humidity: cropInfo.optimalHumidity,
+        soils: cropInfo.bestSoils,
+        seasons: cropInfo.bestSeasons
+      }
+    },
+    recommendations,
+    riskAssessment,
+    financialProjection,
+    calibration
+  };
+}
+
+// Nutrient-deficiency analysis and soil factor from a Soil Health Card
+function analyzeSoilTest(soilTest: SoilTest) {
+  const nutrients: NutrientStatus[] = [];
+  const recommendations: string[] = [];
+  const risks: string[] = [];
+  let factor = 1.0;
+
+  (Object.keys(soilTestRatings) as (keyof typeof soilTestRatings)[]).forEach(key => {
+    const value = soilTest[key];
+    if (value === undefined || value === null) return;
+
+    const rating = soilTestRatings[key];
+    const level = value < rating.low ? 0 : value <= rating.high ? 1 : 2;
+    const advice = level === 0 ? rating.lowAdvice : level === 2 ? rating.highAdvice : undefined;
+
+    factor *= rating.factors[level];
+    nutrients.push({ nutrient: rating.label, value, unit: rating.unit, rating: (["Low", "Medium", "High"] as const)[level], advice });
+    if (advice) recommendations.push(advice);
+  });
+
+  // pH: most field crops do best between 6.5 and 7.5
+  if (soilTest.ph < 6.5) {
+    const strong = soilTest.ph < 5.5;
+    factor *= strong ? 0.85 : 0.95;
+    const advice = strong
+      ? "Soil is strongly acidic - apply 2-4 t/ha agricultural lime before sowing"
+      : "Soil is slightly acidic - apply lime or dolomite as per lime requirement";
+    nutrients.push({ nutrient: "pH", value: soilTest.ph, unit: "", rating: "Acidic", advice });
+    recommendations.push(advice);
+    if (strong) risks.push("Strong soil acidity limits phosphorus availability and can cause aluminium toxicity");
+  } else if (soilTest.ph > 7.5) {
+    const strong = soilTest.ph > 8.5;
+    factor *= strong ? 0.85 : 0.95;
+    const advice = strong
+      ? "Soil is sodic/strongly alkaline - apply gypsum as per gypsum requirement"
+      : "Soil is slightly alkaline - prefer ammonium sulphate and add organic matter";
+    nutrients.push({ nutrient: "pH", value: soilTest.ph, unit: "", rating: "Alkaline", advice });
+    recommendations.push(advice);
+    if (strong) risks.push("Alkaline soil locks up zinc, iron and phosphorus");
+  } else {
+    nutrients.push({ nutrient: "pH", value: soilTest.ph, unit: "", rating: "Neutral" });
+  }
+
+  // Electrical conductivity (salinity)
+  if (soilTest.ec !== undefined && soilTest.ec !== null) {
+    if (soilTest.ec > 1) {
+      const severe = soilTest.ec > 3;
+      factor *= severe ? 0.75 : 0.9;
+      const advice = "Soil is saline - use salt-tolerant varieties and leach salts with good-quality irrigation water";
+      nutrients.push({ nutrient: "EC", value: soilTest.ec, unit: "dS/m", rating: "Saline", advice });
+      recommendations.push(advice);
+      risks.push(`Soil salinity (EC ${soilTest.ec} dS/m) ${severe ? "is injurious to most crops" : "will stress sensitive crops"}`);
+    } else {
+      nutrients.push({ nutrient: "EC", value: soilTest.ec, unit: "dS/m", rating: "Normal" });
+    }
+  }
+
+  (Object.keys(micronutrientLimits) as (keyof typeof micronutrientLimits)[]).forEach(key => {
+    const value = soilTest[key];
+    if (value === undefined || value === null) return;
+
+    const limit = micronutrientLimits[key];
+    const deficient = value < limit.limit;
+    if (deficient) {
+      factor *= MICRONUTRIENT_DEFICIENCY_FACTOR;
+      recommendations.push(limit.advice);
+    }
+    nutrients.push({
+      nutrient: limit.label,
+      value,
+      unit: "ppm",
+      rating: deficient ? "Deficient" : "Sufficient",
+      advice: deficient ? limit.advice : undefined
+    });
+  });
+
+  return { factor, nutrients, recommendations, risks, testDate: soilTest.testDate || null };
+}
+
+type SoilAnalysis = ReturnType<typeof analyzeSoilTest>;
+
+// Rotation effect of the previous crop on this one: N credit, monocropping penalty, pest carry-over
+function calculateRotationEffect(crop: string, previousCrop?: string) {
+  const none = { factor: 1.0, type: "none", recommendations: [] as string[], risks: [] as string[], mitigation: [] as string[] };
+  if (!previousCrop) return none;
+
+  if (previousCrop === "Fallow") {
+    return {
+      ...none,
+      factor: ROTATION_FALLOW,
+      type: "fallow",
+      recommendations: ["Fallow period has rebuilt soil moisture - incorporate weed biomass before sowing"]
+    };
+  }
+
+  const family = cropFamilies[crop];
+  const previousFamily = cropFamilies[previousCrop];
+  if (!family || !previousFamily) return none;
+
+  if (previousCrop === crop) {
+    return {
+      factor: ROTATION_SAME_CROP,
+      type: "monocrop",
+      recommendations: [`Break the ${crop}-after-${crop} cycle - rotate with a legume such as Gram or Soybean next season`],
+      risks: [`Monocropping ${crop} builds up ${familyCarryOver[family]} and depletes the same nutrients`],
+      mitigation: ["Destroy previous crop residue, use resistant varieties and seed treatment"]
+    };
+  }
+
+  if (family === previousFamily) {
+    return {
+      factor: ROTATION_SAME_FAMILY,
+      type: "same_family",
+      recommendations: [`${previousCrop} and ${crop} are both ${family} crops - include a different family in the rotation`],
+      risks: [`Carry-over of ${familyCarryOver[family]} from the previous ${previousCrop} crop`],
+      mitigation: ["Deep summer ploughing and residue removal to break the pest cycle"]
+    };
+  }
+
+  if (previousFamily === "Legume") {
+    return {
+      ...none,
+      factor: family === "Cereal" ? ROTATION_LEGUME_CREDIT_CEREAL : ROTATION_LEGUME_CREDIT,
+      type: "legume_credit",
+      recommendations: [`Nitrogen credit from the previous ${previousCrop} crop - reduce basal nitrogen by about 25%`]
+    };
+  }
+
+  return none;
+}
+
+// Growth stages in order; each crop splits its growing days across them
+type StageKey = "germination" | "vegetative" | "flowering" | "grainFill" | "maturity";
+
+const PHENOLOGY_STAGES: { key: StageKey; name: string }[] = [
+  { key: "germination", name: "Germination" },
+  { key: "vegetative", name: "Vegetative" },
+  { key: "flowering", name: "Flowering" },
+  { key: "grainFill", name: "Grain fill" },
+  { key: "maturity", name: "Maturity" }
+];
+
+// Share of growingDays spent in each stage (same order as PHENOLOGY_STAGES), used when the
+// reference tables can't be read; reference_crops holds the same calendar
+const DEFAULT_STAGE_FRACTIONS = [0.1, 0.35, 0.2, 0.25, 0.1];
+const cropStageFractions: Record<string, number[]> = {
+  "Rice": [0.1, 0.4, 0.15, 0.25, 0.1],
+  "Wheat": [0.08, 0.42, 0.15, 0.25, 0.1],
+  "Cotton": [0.06, 0.3, 0.24, 0.3, 0.1],
+  "Sugarcane": [0.1, 0.25, 0.4, 0.15, 0.1],
+  "Maize": [0.08, 0.4, 0.15, 0.27, 0.1],
+  "Gram": [0.1, 0.35, 0.2, 0.25, 0.1],
+  "Groundnut": [0.08, 0.27, 0.2, 0.35, 0.1],
+  "Soybean": [0.08, 0.32, 0.2, 0.3, 0.1],
+  "Potato": [0.15, 0.25, 0.15, 0.35, 0.1],
+  "Onion": [0.1, 0.35, 0.15, 0.3, 0.1],
+  "Tomato": [0.1, 0.3, 0.2, 0.3, 0.1],
+  "Turmeric": [0.1, 0.35, 0.15, 0.3, 0.1],
+  "Chilli": [0.1, 0.3, 0.2, 0.3, 0.1],
+  "Watermelon": [0.1, 0.3, 0.2, 0.3, 0.1],
+  "Muskmelon": [0.1, 0.3, 0.2, 0.3, 0.1],
+  "Cucumber": [0.12, 0.33, 0.15, 0.3, 0.1],
+  "Moong": [0.1, 0.3, 0.2, 0.3, 0.1],
+  "Fodder Sorghum": [0.1, 0.5, 0.2, 0.15, 0.05]
+};
+
+// Stage names that read better than the cereal defaults for some crops
+const cropStageNames: Record<string, Partial<Record<StageKey, string>>> = {
+  "Sugarcane": { vegetative: "Tillering", flowering: "Grand growth", grainFill: "Ripening" },
+  "Cotton": { flowering: "Squaring & flowering", grainFill: "Boll development" },
+  "Groundnut": { flowering: "Flowering & pegging", grainFill: "Pod development" },
+  "Soybean": { grainFill: "Pod fill" },
+  "Gram": { grainFill: "Pod fill" },
+  "Mustard": { grainFill: "Siliqua fill" },
+  "Sunflower": { flowering: "Head formation & flowering", grainFill: "Seed fill" },
+  "Potato": { flowering: "Tuber initiation", grainFill: "Tuber bulking" },
+  "Onion": { flowering: "Bulb initiation", grainFill: "Bulb development" },
+  "Tomato": { grainFill: "Fruit development" },
+  "Chilli": { grainFill: "Fruit development" },
+  "Turmeric": { flowering: "Rhizome initiation", grainFill: "Rhizome bulking" },
+  "Watermelon": { vegetative: "Vine growth", grainFill: "Fruit development" },
+  "Muskmelon": { vegetative: "Vine growth", grainFill: "Fruit development" },
+  "Cucumber": { vegetative: "Vine growth", grainFill: "Fruiting and picking" },
+  "Moong": { grainFill: "Pod fill" },
+  "Fodder Sorghum": { flowering: "Boot stage", grainFill: "Flowering (cutting window)", maturity: "Regrowth" }
+};
+
+// Critical operations in each stage; crop-specific ones are listed first
+const stageOperations: Record<StageKey, string[]> = {
+  germination: [
+    "Keep the seedbed moist for even emergence",
+    "Gap-fill missing plants within 10-15 days",
+    "Apply the basal fertilizer dose"
+  ],
+  vegetative: [
+    "Top-dress the first nitrogen split",
+    "Control weeds before the canopy closes",
+    "Scout for early pests"
+  ],
+  flowering: [
+    "Critical irrigation stage - avoid moisture stress",
+    "Monitor pests and diseases; spray only above threshold"
+  ],
+  grainFill: [
+    "Keep soil moisture steady; avoid waterlogging",
+    "Watch for late pests and bird damage"
+  ],
+  maturity: [
+    "Stop irrigation 10-15 days before harvest",
+    "Book harvest labour or machinery and storage",
+    "Check mandi price forecasts for the harvest window"
+  ]
+};
+
+const cropOperations: Record<string, Partial<Record<StageKey, string[]>>> = {
+  "Rice": {
+    germination: ["Raise nursery; transplant 21-25 day old seedlings"],
+    vegetative: ["Keep 2-5 cm standing water through tillering"],
+    flowering: ["Maintain standing water at panicle initiation and flowering"]
+  },
+  "Wheat": {
+    germination: ["Crown root irrigation about 21 days after sowing"],
+    flowering: ["Irrigate at heading and flowering"]
+  },
+  "Cotton": {
+    flowering: ["Watch for pink bollworm; install pheromone traps"]
+  },
+  "Sugarcane": {
+    vegetative: ["Earth up after the final nitrogen dose"],
+    flowering: ["Prop and tie canes to prevent lodging"]
+  },
+  "Groundnut": {
+    flowering: ["Apply gypsum at pegging"]
+  },
+  "Potato": {
+    vegetative: ["Earth up the ridges after top-dressing"]
+  },
+  "Watermelon": {
+    vegetative: ["Train vines and mulch to keep fruit off wet soil"],
+    grainFill: ["Cut irrigation a week before harvest for sweeter fruit"]
+  },
+  "Muskmelon": {
+    vegetative: ["Train vines and mulch to keep fruit off wet soil"],
+    grainFill: ["Cut irrigation a week before harvest for sweeter fruit"]
+  },
+  "Cucumber": {
+    vegetative: ["Stake or trellis vines"],
+    grainFill: ["Pick every 2-3 days to keep vines bearing"]
+  },
+  "Moong": {
+    grainFill: ["Pick mature pods in 2-3 rounds to avoid shattering"]
+  },
+  "Fodder Sorghum": {
+    grainFill: ["Cut at 50% flowering for the best fodder quality"]
+  }
+};
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+
+// Optional sowing dates must be real calendar days
+const validSowingDate = (date?: string) =>
+  !date || (/^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date)) && addDays(date, 0) === date);
+
+// Stage timeline from the sowing date: day ranges, calendar dates and operations per stage
+// (end dates are exclusive, as in iCalendar all-day events)
+function buildPhenology(crop: string, cropInfo: CropProfile, sowingDate: string) {
+  const fractions = cropInfo.stageFractions || cropStageFractions[crop] || DEFAULT_STAGE_FRACTIONS;
+  let elapsed = 0;
+
+  const stages = PHENOLOGY_STAGES.map((stage, index) => {
+    const startDay = Math.round(elapsed * cropInfo.growingDays);
+    elapsed += fractions[index];
+    const endDay = index === PHENOLOGY_STAGES.length - 1
+      ? cropInfo.growingDays
+      : Math.round(elapsed * cropInfo.growingDays);
+    return {
+      key: stage.key,
+      name: cropInfo.stageNames?.[index] || cropStageNames[crop]?.[stage.key] || stage.name,
+      startDay,
+      endDay,
+      startDate: addDays(sowingDate, startDay),
+      endDate: addDays(sowingDate, endDay),
+      operations: [...(cropOperations[crop]?.[stage.key] || []), ...stageOperations[stage.key]]
+    };
+  });
+
+  return {
+    sowingDate,
+    harvestDate: addDays(sowingDate, cropInfo.growingDays),
+    growingDays: cropInfo.growingDays,
+    stages
+  };
+}
+
+// Points on each continuous sensitivity curve
+const SENSITIVITY_POINTS = 21;
+
+// Partial dependence: re-run the model with one input varied and every other input held as entered
+function buildSensitivity(
+  data: PredictionRequest,
+  cropInfo: CropProfile,
+  model: YieldModel | null,
+  weatherSpread: WeatherSpread,
+  soilTest: SoilTest | null,
+  reference: ReferenceData
+) {
+  const run = (overrides: Partial<PredictionRequest>) => {
+    const result = predictCrop({ ...data, ...overrides }, cropInfo, model, weatherSpread, soilTest, reference);
+    return {
+      yieldPerHectare: result.prediction.yieldPerHectare,
+      expectedProfit: result.financialProjection.estimatedProfit
+    };
+  };
+
+  const grid = (from: number, to: number, step: number) =>
+    Array.from({ length: SENSITIVITY_POINTS }, (_, i) => Math.round((from + (to - from) * i / (SENSITIVITY_POINTS - 1)) / step) * step)
+      .filter((value, i, values) => values.indexOf(value) === i);
+
+  const baselineRun = predictCrop(data, cropInfo, model, weatherSpread, soilTest, reference);
+  const baseline = {
+    yieldPerHectare: baselineRun.prediction.yieldPerHectare,
+    expectedProfit: baselineRun.financialProjection.estimatedProfit,
+    inputs: {
+      rainfall: data.rainfall,
+      temperature: data.temperature ?? null,
+      irrigationType: data.irrigationType || "Rain-fed",
+      fertilizerUsage: data.fertilizerUsage || "Mixed"
+    }
+  };
+
+  const [rainLow, rainHigh] = seasonalProfile(cropInfo, data.season).optimalRainfall;
+  const [tempLow, tempHigh] = seasonalProfile(cropInfo, data.season).optimalTemp;
+
+  const curves = {
+    rainfall: grid(Math.max(50, rainLow * 0.5), rainHigh * 1.5, 10).map(value => ({ value, ...run({ rainfall: value }) })),
+    temperature: grid(tempLow - 8, tempHigh + 8, 1).map(value => ({ value, ...run({ temperature: value }) })),
+    irrigationType: Object.keys(irrigationModifiers).map(value => ({ value, ...run({ irrigationType: value }) })),
+    fertilizerUsage: Object.keys(fertilizerModifiers).map(value => ({ value, ...run({ fertilizerUsage: value }) }))
+  };
+
+  // The most profitable setting of each input on its own, best payoff first
+  const bestChanges = (Object.entries(curves) as [keyof typeof curves, { value: number | string; yieldPerHectare: number; expectedProfit: number }[]][])
+    .map(([input, points]) => {
+      const best = points.reduce((a, b) => b.expectedProfit > a.expectedProfit ? b : a);
+      return {
+        input,
+        value: best.value,
+        yieldGain: parseFloat((best.yieldPerHectare - baseline.yieldPerHectare).toFixed(2)),
+        profitGain: best.expectedProfit - baseline.expectedProfit
+      };
+    })
+    .sort((a, b) => b.profitGain - a.profitGain);
+
+  return {
+    baseline,
+    curves,
+    bestChanges,
+    economics: {
+      area: data.area,
+      pricePerQuintal: baselineRun.financialProjection.pricePerQuintal,
+      priceSource: baselineRun.financialProjection.priceSource,
+      estimatedCost: baselineRun.financialProjection.estimatedCost
+    }
+  };
+}
+
+// Upper bound on plots per batch request (each runs the full weather simulation)
+const MAX_BATCH_ROWS = 200;
+
+// Uploaded rows reach this function directly, so each is checked against the same rules as the
+// prediction form (yieldPredictorSchema); returns the first problem, or null for a usable row
+function batchRowError(row: unknown): string | null {
+  if (!row || typeof row !== "object" || Array.isArray(row)) return "Invalid row";
+  const r = row as Record<string, unknown>;
+
+  const text = (value: unknown) => typeof value === "string" && value.trim() !== "";
+  const optionalText = (value: unknown) => value === undefined || value === null || typeof value === "string";
+  const number = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+  const optionalNumber = (value: unknown) => value === undefined || value === null || number(value);
+
+  if (!text(r.crop) || !text(r.state) || !text(r.soilType) || !text(r.season)) return "Missing required fields";
+  if (!number(r.rainfall)) return "Rainfall must be a number";
+  if ((r.rainfall as number) <= 0 || (r.rainfall as number) > 15000) return "Rainfall must be between 0 and 15,000 mm";
+  if (!number(r.area)) return "Area must be a number";
+  if ((r.area as number) <= 0 || (r.area as number) > 100000) return "Area must be between 0 and 100,000 hectares";
+  if (!optionalNumber(r.temperature) || (number(r.temperature) && ((r.temperature as number) < -50 || (r.temperature as number) > 60))) {
+    return "Temperature must be between -50 and 60°C";
+  }
+  if (!optionalNumber(r.humidity) || (number(r.humidity) && ((r.humidity as number) < 0 || (r.humidity as number) > 100))) {
+    return "Humidity must be between 0 and 100%";
+  }
+  if (![r.district, r.irrigationType, r.fertilizerUsage, r.previousCrop, r.farmId, r.sowingDate].every(optionalText)) {
+    return "Invalid row";
+  }
+  if (!validSowingDate((r.sowingDate as string) || undefined)) return "Invalid sowing date";
+  return null;
+}
+
+// Farms without a complete card keep using the soil type multiplier
+function soilTestFrom(results: unknown): SoilTest | null {
+  const soilTest = results as SoilTest | null;
+  return soilTest && typeof soilTest.ph === "number" && typeof soilTest.nitrogen === "number" ? soilTest : null;
+}
+
+// In-season nowcasting: a saved prediction is re-run with the weather observed since sowing, the
+// forecast after today and, for the days beyond the forecast, the rainfall and temperature first entered
+const NOWCAST_INTERVAL_DAYS = 7;
+const NOWCAST_FORECAST_DAYS = 16;
+// Open-Meteo's archive trails real time by a few days; the forecast endpoint's past days fill the gap
+const ARCHIVE_LAG_DAYS = 5;
+// Drop in the estimate since the last notification (or the original prediction) that alerts the user
+const MATERIAL_DROP = 0.1;
+const CRITICAL_DROP = 0.2;
+// Upper bound on predictions re-estimated per scheduled run
+const MAX_NOWCASTS_PER_RUN = 50;
+
+interface DailyWeather {
+  date: string;
+  rainfall: number;
+  temperature: number | null;
+}
+
+interface Nowcast {
+  date: string;
+  yieldPerHectare: number;
+  yieldQuantiles: { p10: number; p50: number; p90: number };
+  changePercent: number; // against the prediction made at sowing
+  rainfall: number;
+  temperature: number | null;
+  observedDays: number;
+  forecastDays: number;
+  remainingDays: number;
+  weatherSource: string;
+  notified: boolean;
+}
+
+// Saved prediction with everything needed to re-run it
+interface NowcastRecord {
+  id: string;
+  user_id: string;
+  crop_type: string;
+  state: string;
+  district: string | null;
+  soil_type: string;
+  rainfall_mm: number;
+  area_hectares: number;
+  season: string;
+  temperature: number | null;
+  humidity: number | null;
+  irrigation_type: string | null;
+  fertilizer_usage: string | null;
+  previous_crop: string | null;
+  farm_id: string | null;
+  predicted_yield: number;
+  analysis: { phenology?: { sowingDate: string; harvestDate: string; growingDays: number } | null } | null;
+  nowcasts: Nowcast[] | null;
+}
+
+function requestFromRecord(record: NowcastRecord): PredictionRequest {
+  return {
+    crop: record.crop_type,
+    state: record.state,
+    district: record.district || undefined,
+    soilType: record.soil_type,
+    rainfall: Number(record.rainfall_mm),
+    area: Number(record.area_hectares),
+    season: record.season,
+    temperature: record.temperature ?? undefined,
+    humidity: record.humidity ?? undefined,
+    irrigationType: record.irrigation_type || undefined,
+    fertilizerUsage: record.fertilizer_usage || undefined,
+    previousCrop: record.previous_crop || undefined,
+    farmId: record.farm_id || undefined,
+    sowingDate: record.analysis?.phenology?.sowingDate
+  };
+}
+
+// A farm's stored coordinates, otherwise the district (or state) geocoded
+async function locateField(location: unknown, district: string | null, state: string) {
+  const stored = location as { latitude?: number; longitude?: number } | null;
+  if (typeof stored?.latitude === "number" && typeof stored?.longitude === "number") {
+    return { latitude: stored.latitude, longitude: stored.longitude };
+  }
+
+  const query = encodeURIComponent([district, state, "India"].filter(Boolean).join(", "));
+  const response = await fetch(`https://nominatim.openstreetmap.org/search?format=json&limit=1&q=${query}`, {
+    headers: { "User-Agent": "AgroSight/1.0" }
+  });
+  if (!response.ok) return null;
+  const [place] = await response.json();
+  return place ? { latitude: Number(place.lat), longitude: Number(place.lon) } : null;
+}
+
+const dailyWeatherFrom = (daily: { time?: string[]; precipitation_sum?: (number | null)[]; temperature_2m_max?: (number | null)[]; temperature_2m_min?: (number | null)[] }) =>
+  (daily.time || []).map((date, i) => {
+    const max = daily.temperature_2m_max?.[i];
+    const min = daily.temperature_2m_min?.[i];
+    return {
+      date,
+      rainfall: daily.precipitation_sum?.[i] ?? 0,
+      temperature: typeof max === "number" && typeof min === "number" ? (max + min) / 2 : null
+    };
+  });
+
+// Daily rainfall and mean temperature from sowing to the end of the forecast, within the season
+async function fetchSeasonWeather(latitude: number, longitude: number, sowingDate: string, harvestDate: string, today: string) {
+  const params = `latitude=${latitude}&longitude=${longitude}&daily=precipitation_sum,temperature_2m_max,temperature_2m_min&timezone=auto`;
+  const archiveEnd = addDays(today, -ARCHIVE_LAG_DAYS - 1);
+
+  const [archive, forecast] = await Promise.all([
+    sowingDate <= archiveEnd
+      ? fetch(`https://archive-api.open-meteo.com/v1/archive?${params}&start_date=${sowingDate}&end_date=${archiveEnd}`)
+      : Promise.resolve(null),
+    fetch(`https://api.open-meteo.com/v1/forecast?${params}&past_days=${ARCHIVE_LAG_DAYS + 1}&forecast_days=${NOWCAST_FORECAST_DAYS}`)
+  ]);
+
+  if (!forecast.ok || (archive && !archive.ok)) {
+    console.error("Open-Meteo error:", forecast.status, archive?.status);
+    return null;
+  }
+
+  // Forecast-endpoint values replace archive values for the days both cover
+  const days = new Map<string, DailyWeather>();
+  if (archive) dailyWeatherFrom((await archive.json()).daily || {}).forEach(d => days.set(d.date, d));
+  dailyWeatherFrom((await forecast.json()).daily || {}).forEach(d => days.set(d.date, d));
+
+  return [...days.values()]
+    .filter(d => d.date >= sowingDate && d.date < harvestDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Season rainfall and mean temperature: covered days as observed or forecast, the rest as first entered
+function nowcastInputs(days: DailyWeather[], data: PredictionRequest, growingDays: number, today: string, fallbackTemperature: number | null) {
+  const observedDays = days.filter(d => d.date < today).length;
+  const forecastDays = days.length - observedDays;
+  const remainingDays = Math.max(0, growingDays - days.length);
+
+  const rainfall = days.reduce((s, d) => s + d.rainfall, 0) + data.rainfall * remainingDays / growingDays;
+
+  const temperatures = days.map(d => d.temperature).filter((t): t is number => t !== null);
+  const expectedTemperature = data.temperature ?? fallbackTemperature;
+  const temperature = temperatures.length === 0
+    ? expectedTemperature
+    : expectedTemperature === null
+      ? temperatures.reduce((s, t) => s + t, 0) / temperatures.length
+      : (temperatures.reduce((s, t) => s + t, 0) + expectedTemperature * remainingDays) / (temperatures.length + remainingDays);
+
+  // Observed days are settled; forecast days count as half known when narrowing the weather spread
+  const unknownShare = Math.min(1, (remainingDays + forecastDays / 2) / growingDays);
+
+  return {
+    rainfall: Math.round(rainfall),
+    temperature: temperature !== null ? parseFloat(temperature.toFixed(1)) : null,
+    observedDays,
+    forecastDays,
+    remainingDays,
+    unknownShare
+  };
+}
+
+// The estimate a new nowcast is compared against: the last one the user was alerted to, or the original
+function notificationReference(record: NowcastRecord) {
+  const notified = (record.nowcasts || []).filter(n => n.notified);
+  return notified.length > 0 ? notified[notified.length - 1].yieldPerHectare : Number(record.predicted_yield);
+}
+
+// crop_predictions row for a completed run
+function predictionRecord(
+  userId: string,
+  data: PredictionRequest,
+  run: Omit<ReturnType<typeof predictCrop>, "calibration">,
+  model: { model: string; trainingRows: number }
+) {
+  return {
+    user_id: userId,
+    crop_type: data.crop,
+    state: data.state,
+    district: data.district || null,
+    soil_type: data.soilType,
+    area_hectares: data.area,
+    rainfall_mm: data.rainfall,
+    season: data.season,
+    temperature: data.temperature ?? null,
+    humidity: data.humidity ?? null,
+    irrigation_type: data.irrigationType || null,
+    fertilizer_usage: data.fertilizerUsage || null,
+    previous_crop: data.previousCrop || null,
+    farm_id: data.farmId || null,
+    predicted_yield: run.prediction.yieldPerHectare,
+    total_production: run.prediction.totalProduction,
+    confidence_score: run.prediction.confidence,
+    recommendations: run.recommendations,
+    risk_assessment: run.riskAssessment,
+    financial_projection: run.financialProjection,
+    prediction_details: run.prediction,
+    analysis: run.analysis,
+    model_version: model.model,
+    model_training_rows: model.trainingRows
+  };
 }
 
 serve(async (req) => {
@@ -472,134 +1913,592 @@ serve(async (req) => {
       );
     }
 
-    const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
+    // The scheduled nowcast (pg_cron) posts the service role key itself. It is not a user session, so it
+    // is recognised here rather than by getClaims, and runs with a service role client.
     const token = authHeader.replace('Bearer ', '');
-    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
-    if (claimsError || !claimsData?.claims) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authentication' }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const scheduled = serviceRoleKey !== '' && token === serviceRoleKey;
+
+    const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
+    const supabase = scheduled
+      ? createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+      : createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
       );
+
+    let userId: string | null = null;
+    if (!scheduled) {
+      const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
+      if (claimsError || !claimsData?.claims) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid authentication' }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      userId = claimsData.claims.sub;
     }
 
     const data: PredictionRequest = await req.json();
     
-    // Validate required fields
-    if (!data.crop || !data.state || !data.soilType || !data.rainfall || !data.area || !data.season) {
+    const recommendMode = data.mode === "recommend";
+    const batchMode = data.mode === "batch";
+    const nowcastMode = data.mode === "nowcast";
+
+    // Everything but the nowcast run is made for, and saved against, a signed-in user
+    if (scheduled && !nowcastMode) {
+      return new Response(
+        JSON.stringify({ error: 'The service role can only run scheduled nowcasts' }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Validate required fields (rainfall can come from state history when ranking crops; batch rows are checked one by one)
+    if (!batchMode && !nowcastMode && (!data.state || !data.soilType || !data.area || !data.season || (!recommendMode && (!data.crop || !data.rainfall)))) {
       return new Response(
         JSON.stringify({ error: "Missing required fields" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+
+    if (!batchMode && !validSowingDate(data.sowingDate)) {
+      return new Response(
+        JSON.stringify({ error: "Sowing date must be a valid YYYY-MM-DD date" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
     
+    // Crop profiles, prices and costs from the reference tables, or the built-in values if they can't be read
+    const [{ data: cropRows, error: cropsError }, { data: costRows, error: costsError }] = await Promise.all([
+      supabase
+        .from("reference_crops")
+        .select("crop, base_yield, optimal_temp_min, optimal_temp_max, optimal_rainfall_min, optimal_rainfall_max, optimal_humidity_min, optimal_humidity_max, growing_days, water_requirement, best_soils, best_seasons, season_conditions, stage_fractions, stage_names, price_per_quintal")
+        .eq("is_active", true),
+      supabase
+        .from("reference_cultivation_costs")
+        .select("crop, state, cost_per_hectare")
+    ]);
+
+    if (cropsError || costsError) {
+      console.error("Failed to load reference data, using built-in values:", cropsError || costsError);
+    }
+
+    let reference = referenceDataFrom(
+      cropsError ? null : cropRows as ReferenceCropRow[] | null,
+      costsError ? null : costRows
+    );
+
+    // Harvest prices for every crop and location this request values, fetched in bulk
+    const loadMarketPrices = async (fields: { crop: string; state: string; district?: string; sowingDate?: string }[]) => {
+      const known = fields.filter(f => reference.crops[f.crop] && f.state);
+      if (known.length === 0) return reference;
+
+      const marketNames = [...new Set(known.map(f => MARKET_COMMODITY[f.crop] || f.crop))];
+      const states = [...new Set(known.map(f => f.state))];
+      const today = new Date();
+      const since = new Date(today.getTime() - MANDI_PRICE_MAX_AGE_DAYS * DAY_MS).toISOString().split("T")[0];
+
+      const { data: commodityRows } = await supabase
+        .from("reference_commodities")
+        .select("commodity, aliases")
+        .in("commodity", marketNames);
+      const aliasesOf = (name: string) => (commodityRows || []).find(c => c.commodity === name)?.aliases || [];
+      const allNames = [...new Set(marketNames.flatMap(name => [name, ...aliasesOf(name)]))];
+
+      const [mandi, forecasts, performance, msp] = await Promise.all([
+        supabase
+          .from("mandi_prices")
+          .select("commodity, state, district, market, modal_price, arrival_date")
+          .in("commodity", allNames)
+          .in("state", states)
+          .gte("arrival_date", since)
+          .order("arrival_date", { ascending: false })
+          .limit(5000),
+        supabase
+          .from("price_forecasts")
+          .select("commodity, state, district, market, predicted_modal, target_date, model_used")
+          .in("commodity", allNames)
+          .in("state", states)
+          .in("model_used", TRUSTED_FORECAST_MODELS)
+          .gte("target_date", today.toISOString().split("T")[0])
+          .order("forecast_date", { ascending: false })
+          .limit(5000),
+        supabase
+          .from("ml_model_performance")
+          .select("model_name, market, commodity")
+          .in("model_name", TRUSTED_FORECAST_MODELS)
+          .in("commodity", allNames)
+          .eq("evaluation_method", "rolling_origin")
+          .gt("sample_size", 0)
+          .limit(5000),
+        supabase
+          .from("reference_msp")
+          .select("commodity, marketing_year, msp")
+          .in("commodity", marketNames)
+      ]);
+
+      [mandi, forecasts, performance, msp].forEach(r => {
+        if (r.error) console.error("Failed to load market prices, falling back:", r.error);
+      });
+
+      const backtested = new Set<string>((performance.error ? [] : performance.data || [])
+        .filter(r => r.market && r.commodity)
+        .map(r => backtestKey(r.model_name, r.market!, r.commodity!)));
+
+      const marketPrices: Record<string, MarketPrice> = {};
+      known.forEach(field => {
+        const marketName = MARKET_COMMODITY[field.crop] || field.crop;
+        marketPrices[priceKey(field)] = resolveMarketPrice(
+          field,
+          harvestDateFor(reference.crops[field.crop], field.sowingDate, today),
+          [marketName, ...aliasesOf(marketName)],
+          (mandi.error ? [] : mandi.data || []) as MandiPriceRow[],
+          (forecasts.error ? [] : forecasts.data || []) as ForecastPriceRow[],
+          backtested,
+          msp.error ? [] : msp.data || [],
+          reference
+        );
+      });
+      return { ...reference, marketPrices };
+    };
+
     // Get crop data
-    const cropInfo = cropDatabase[data.crop];
-    if (!cropInfo) {
+    const cropInfo = reference.crops[data.crop];
+    if (!recommendMode && !batchMode && !nowcastMode && !cropInfo) {
       return new Response(
         JSON.stringify({ error: "Unsupported crop type" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
     
-    // Calculate individual factors
-    const soilFactor = soilModifiers[data.soilType] || 1.0;
-    const stateFactor = stateModifiers[data.state] || 1.0;
-    const irrigationFactor = irrigationModifiers[data.irrigationType || "Rain-fed"] || 1.0;
-    const fertilizerFactor = fertilizerModifiers[data.fertilizerUsage || "Mixed"] || 1.0;
-    
-    // Calculate optimal condition factors
-    const rainfallFactor = calculateOptimalFactor(data.rainfall, cropInfo.optimalRainfall);
-    const tempFactor = data.temperature 
-      ? calculateOptimalFactor(data.temperature, cropInfo.optimalTemp) 
-      : 0.95; // Default if not provided
-    const humidityFactor = data.humidity 
-      ? calculateOptimalFactor(data.humidity, cropInfo.optimalHumidity) 
-      : 0.95;
-    
-    // Season factor
-    const seasonFactor = cropInfo.bestSeasons.includes(data.season) ? 1.1 : 0.85;
-    
-    // Calculate predicted yield
-    const baseYield = cropInfo.baseYield;
-    const allFactors = [
-      soilFactor,
-      stateFactor,
-      irrigationFactor,
-      fertilizerFactor,
-      rainfallFactor,
-      tempFactor,
-      humidityFactor,
-      seasonFactor
-    ];
-    
-    // Apply slight randomization (±3%) for realism
-    const randomFactor = 0.97 + Math.random() * 0.06;
-    
-    const predictedYield = baseYield * allFactors.reduce((a, b) => a * b, 1) * randomFactor;
-    const totalProduction = predictedYield * data.area;
-    
-    // Calculate confidence
-    const confidence = calculateConfidence([soilFactor, rainfallFactor, tempFactor, humidityFactor, seasonFactor]);
-    
-    // Generate recommendations
-    const factorsSummary = {
-      soil: soilFactor,
-      rainfall: rainfallFactor,
-      temp: tempFactor,
-      humidity: humidityFactor,
-      season: seasonFactor
+    // Load the serving model; predictions fall back to the built-in tables without one
+    const { data: activeModel, error: modelError } = await supabase
+      .from("yield_models")
+      .select("model_version, training_rows, trained_at, coefficients")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (modelError) {
+      console.error("Failed to load yield model, using built-in tables:", modelError);
+    }
+
+    const model = (modelError ? null : activeModel) as YieldModel | null;
+
+    // Nowcast mode: re-estimate in-season predictions from the weather so far and alert on material drops.
+    // Users re-estimate their own; the scheduled run (service role) covers every user's due predictions.
+    if (nowcastMode) {
+      // Users can't write notifications themselves, so even their own runs alert through the service role
+      const notifier = scheduled ? supabase : createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+      const today = new Date().toISOString().split("T")[0];
+      const dueBefore = new Date(Date.now() - NOWCAST_INTERVAL_DAYS * DAY_MS).toISOString();
+
+      let query = supabase
+        .from("crop_predictions")
+        .select("id, user_id, crop_type, state, district, soil_type, rainfall_mm, area_hectares, season, temperature, humidity, irrigation_type, fertilizer_usage, previous_crop, farm_id, predicted_yield, analysis, nowcasts")
+        .is("actual_yield", null);
+      if (!scheduled) query = query.eq("user_id", userId);
+      // Due runs only queue in-season predictions of known crops, so predictions without a sowing date or
+      // outside their season can't take up the run ahead of the ones that can be re-estimated
+      query = data.predictionId
+        ? query.eq("id", data.predictionId)
+        : query
+          .lte("analysis->phenology->>sowingDate", today)
+          .gt("analysis->phenology->>harvestDate", today)
+          .in("crop_type", Object.keys(reference.crops))
+          .or(`last_nowcast_at.is.null,last_nowcast_at.lt.${dueBefore}`)
+          .order("last_nowcast_at", { ascending: true, nullsFirst: true })
+          .limit(MAX_NOWCASTS_PER_RUN);
+
+      const { data: records, error: recordsError } = await query;
+      if (recordsError) throw recordsError;
+      if (data.predictionId && (!records || records.length === 0)) {
+        return new Response(
+          JSON.stringify({ error: "Prediction not found or already harvested" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Only predictions with a sowing date whose season is under way can be re-estimated
+      const inSeason = ((records || []) as NowcastRecord[]).filter(r => {
+        const phenology = r.analysis?.phenology;
+        return phenology && phenology.sowingDate <= today && today < phenology.harvestDate && reference.crops[r.crop_type];
+      });
+      if (data.predictionId && inSeason.length === 0) {
+        return new Response(
+          JSON.stringify({ error: "Only predictions with a sowing date can be re-estimated, between sowing and harvest" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const farmIds = [...new Set(inSeason.map(r => r.farm_id).filter((id): id is string => !!id))];
+      const { data: farms } = farmIds.length > 0
+        ? await supabase.from("user_farms").select("id, soil_test_results, location").in("id", farmIds)
+        : { data: [] };
+      const farmById = new Map<string, { soil_test_results: unknown; location: unknown }>(
+        (farms || []).map((f: { id: string; soil_test_results: unknown; location: unknown }) => [f.id, f])
+      );
+
+      const spreads = new Map<string, WeatherSpread>();
+      await Promise.all([...new Set(inSeason.map(r => r.state))].map(async state => {
+        const { data: history, error: historyError } = await supabase
+          .from("historical_yields")
+          .select("rainfall_mm, temperature")
+          .eq("state", state)
+          .limit(1000);
+        spreads.set(state, weatherSpreadFrom(historyError ? null : history));
+      }));
+
+      const results: { predictionId: string; status: "updated" | "failed"; reason?: string; nowcast?: Nowcast }[] = [];
+      // Sequential: geocoding and the weather APIs are rate limited
+      for (const record of inSeason) {
+        const phenology = record.analysis!.phenology!;
+        const recordData = requestFromRecord(record);
+        const farm = record.farm_id ? farmById.get(record.farm_id) : undefined;
+        const spread = spreads.get(record.state) || weatherSpreadFrom(null);
+
+        const coordinates = await locateField(farm?.location, record.district, record.state);
+        const days = coordinates
+          ? await fetchSeasonWeather(coordinates.latitude, coordinates.longitude, phenology.sowingDate, phenology.harvestDate, today)
+          : null;
+        if (!days) {
+          // Stamped anyway so an unlocatable field waits for the next interval instead of heading the queue
+          await supabase.from("crop_predictions").update({ last_nowcast_at: new Date().toISOString() }).eq("id", record.id);
+          results.push({ predictionId: record.id, status: "failed", reason: coordinates ? "Weather data unavailable" : "Location not found" });
+          continue;
+        }
+
+        const inputs = nowcastInputs(days, recordData, phenology.growingDays, today, spread.temperatureMean);
+        const run = predictCrop(
+          { ...recordData, rainfall: inputs.rainfall, temperature: inputs.temperature ?? undefined },
+          reference.crops[record.crop_type],
+          model,
+          { ...spread, rainfallCv: spread.rainfallCv * inputs.unknownShare, temperatureSd: spread.temperatureSd * inputs.unknownShare },
+          soilTestFrom(farm?.soil_test_results),
+          reference
+        );
+
+        const original = Number(record.predicted_yield);
+        const estimate = run.prediction.yieldPerHectare;
+        const compareTo = notificationReference(record);
+        const drop = compareTo > 0 ? (compareTo - estimate) / compareTo : 0;
+        const notify = drop >= MATERIAL_DROP;
+        const nowcast: Nowcast = {
+          date: today,
+          yieldPerHectare: estimate,
+          yieldQuantiles: run.prediction.yieldQuantiles,
+          changePercent: original > 0 ? parseFloat(((estimate / original - 1) * 100).toFixed(1)) : 0,
+          rainfall: inputs.rainfall,
+          temperature: inputs.temperature,
+          observedDays: inputs.observedDays,
+          forecastDays: inputs.forecastDays,
+          remainingDays: inputs.remainingDays,
+          weatherSource: "open-meteo",
+          notified: notify
+        };
+
+        // One entry per day: a re-run on the same day replaces the earlier one
+        const series = [...(record.nowcasts || []).filter(n => n.date !== today), nowcast];
+        const { error: updateError } = await supabase
+          .from("crop_predictions")
+          .update({ nowcasts: series, last_nowcast_at: new Date().toISOString() })
+          .eq("id", record.id);
+        if (updateError) {
+          console.error(`Failed to save nowcast for ${record.id}:`, updateError);
+          results.push({ predictionId: record.id, status: "failed", reason: "Could not save the estimate" });
+          continue;
+        }
+
+        if (notify) {
+          const { error: notifyError } = await notifier.from("user_notifications").insert({
+            user_id: record.user_id,
+            notification_type: "yield_drop",
+            severity: drop >= CRITICAL_DROP ? "critical" : "warning",
+            title: `${record.crop_type} yield estimate down ${(drop * 100).toFixed(0)}%`,
+            message: `Weather since sowing puts your ${record.crop_type} in ${record.district ? `${record.district}, ` : ""}${record.state} at ${estimate} t/ha, down from ${compareTo} t/ha. Season rainfall is now estimated at ${inputs.rainfall} mm.`,
+            prediction_id: record.id,
+            details: { previousYield: compareTo, nowcast }
+          });
+          if (notifyError) console.error(`Failed to notify about ${record.id}:`, notifyError);
+        }
+
+        results.push({ predictionId: record.id, status: "updated", nowcast });
+      }
+
+      const failed = results.find(r => r.status === "failed");
+      if (data.predictionId && failed) {
+        return new Response(
+          JSON.stringify({ error: failed.reason }),
+          { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      console.log(`Nowcast run (${scheduled ? "scheduled" : "user"}): ${results.filter(r => r.status === "updated").length}/${results.length} updated`);
+
+      return new Response(JSON.stringify({
+        mode: "nowcast",
+        results,
+        metadata: {
+          model: model?.model_version || STATIC_MODEL_VERSION,
+          timestamp: new Date().toISOString()
+        }
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+
+    // Batch mode: predict every uploaded plot and save the successful rows in one insert
+    if (batchMode) {
+      const rows = Array.isArray(data.rows) ? data.rows : [];
+      if (rows.length === 0 || rows.length > MAX_BATCH_ROWS) {
+        return new Response(
+          JSON.stringify({ error: `A batch must contain between 1 and ${MAX_BATCH_ROWS} rows` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Rows that fail validation are reported per row below and take no further part
+      const rowErrors = rows.map(row => batchRowError(row));
+      const validRows = rows.filter((_row, index) => !rowErrors[index]);
+
+      // Soil tests for every referenced farm in one query (RLS limits this to the caller's farms)
+      const farmIds = [...new Set(validRows.map(r => r.farmId).filter((id): id is string => !!id))];
+      const soilTests = new Map<string, SoilTest | null>();
+      if (farmIds.length > 0) {
+        const { data: farms, error: farmsError } = await supabase
+          .from("user_farms")
+          .select("id, soil_test_results")
+          .in("id", farmIds);
+
+        if (farmsError) {
+          console.error("Failed to load farms for batch:", farmsError);
+        }
+        (farms || []).forEach(farm => soilTests.set(farm.id, soilTestFrom(farm.soil_test_results)));
+      }
+
+      // One weather history per state in the batch
+      const spreads = new Map<string, WeatherSpread>();
+      await Promise.all([...new Set(validRows.map(r => r.state))].map(async state => {
+        const { data: history, error: historyError } = await supabase
+          .from("historical_yields")
+          .select("rainfall_mm, temperature")
+          .eq("state", state)
+          .limit(1000);
+        spreads.set(state, weatherSpreadFrom(historyError ? null : history));
+      }));
+
+      reference = await loadMarketPrices(validRows);
+
+      const modelInfo = { model: model?.model_version || STATIC_MODEL_VERSION, trainingRows: model?.training_rows || 0, referenceData: reference.source };
+      const runs = rows.map((row, index) => {
+        if (rowErrors[index]) {
+          return { error: rowErrors[index] };
+        }
+        if (!reference.crops[row.crop]) {
+          return { error: "Unsupported crop type" };
+        }
+        if (row.farmId && !soilTests.has(row.farmId)) {
+          return { error: "Farm not found" };
+        }
+        const { calibration: _calibration, ...run } = predictCrop(
+          row,
+          reference.crops[row.crop],
+          model,
+          spreads.get(row.state) || weatherSpreadFrom(null),
+          row.farmId ? soilTests.get(row.farmId) ?? null : null,
+          reference
+        );
+        return { run };
+      });
+
+      const toSave = runs
+        .map((r, index) => ({ index, run: r.run }))
+        .filter((r): r is { index: number; run: NonNullable<typeof r.run> } => !!r.run);
+
+      const predictionIds = new Map<number, string>();
+      if (toSave.length > 0) {
+        const { data: saved, error: saveError } = await supabase
+          .from("crop_predictions")
+          .insert(toSave.map(r => predictionRecord(userId, rows[r.index], r.run, modelInfo)))
+          .select("id");
+
+        if (saveError) {
+          // The predictions are still returned so the results file can be downloaded
+          console.error("Failed to save batch predictions:", saveError);
+        } else {
+          (saved || []).forEach((row, i) => predictionIds.set(toSave[i].index, row.id));
+        }
+      }
+
+      const results = runs.map((r, index) => r.run ? {
+        row: index,
+        yieldPerHectare: r.run.prediction.yieldPerHectare,
+        yieldQuantiles: r.run.prediction.yieldQuantiles,
+        totalProduction: r.run.prediction.totalProduction,
+        confidence: r.run.prediction.confidence,
+        expectedProfit: r.run.financialProjection.estimatedProfit,
+        riskLevel: r.run.riskAssessment.level,
+        predictionId: predictionIds.get(index) || null,
+        error: null
+      } : { row: index, error: r.error });
+
+      console.log(`Batch prediction: ${toSave.length}/${rows.length} rows predicted, ${predictionIds.size} saved`);
+
+      return new Response(JSON.stringify({
+        mode: "batch",
+        results,
+        summary: { rows: rows.length, predicted: toSave.length, saved: predictionIds.size },
+        metadata: {
+          ...modelInfo,
+          timestamp: new Date().toISOString()
+        }
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+
+    // Soil Health Card from the selected farm (RLS limits this to the caller's farms)
+    let soilTest: SoilTest | null = null;
+    if (data.farmId) {
+      const { data: farm, error: farmError } = await supabase
+        .from("user_farms")
+        .select("soil_test_results")
+        .eq("id", data.farmId)
+        .maybeSingle();
+
+      if (farmError || !farm) {
+        return new Response(
+          JSON.stringify({ error: "Farm not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      soilTest = soilTestFrom(farm.soil_test_results);
+    }
+
+    // State weather history sets the spread of the simulated seasons
+    const { data: weatherHistory, error: historyError } = await supabase
+      .from("historical_yields")
+      .select("rainfall_mm, temperature")
+      .eq("state", data.state)
+      .limit(1000);
+
+    if (historyError) {
+      console.error("Failed to load weather history, using default spreads:", historyError);
+    }
+
+    const weatherSpread = weatherSpreadFrom(historyError ? null : weatherHistory);
+
+    const modelMetadata = {
+      model: model?.model_version || STATIC_MODEL_VERSION,
+      trainingRows: model?.training_rows || 0,
+      trainedAt: model?.trained_at || null,
+      referenceData: reference.source,
+      simulation: {
+        draws: SIMULATION_DRAWS,
+        weatherSource: weatherSpread.source,
+        historyRows: weatherSpread.historyRows,
+        rainfallCv: parseFloat(weatherSpread.rainfallCv.toFixed(3)),
+        temperatureSd: parseFloat(weatherSpread.temperatureSd.toFixed(2)),
+        humiditySd: weatherSpread.humiditySd
+      }
     };
-    
-    const recommendations = generateRecommendations(data, cropInfo, factorsSummary);
-    const riskAssessment = generateRiskAssessment(data, factorsSummary);
-    const financialProjection = generateFinancialProjection(data.crop, predictedYield, data.area, totalProduction);
-    
-    // Calculate yield comparison
-    const nationalAvgYield = baseYield * 0.85; // National average is typically 85% of optimal
-    const yieldComparison = ((predictedYield / nationalAvgYield) - 1) * 100;
-    
-    const result = {
-      prediction: {
-        yieldPerHectare: parseFloat(predictedYield.toFixed(2)),
-        totalProduction: parseFloat(totalProduction.toFixed(2)),
-        unit: data.crop === "Sugarcane" || data.crop === "Potato" || data.crop === "Onion" || data.crop === "Tomato" || data.crop === "Turmeric" ? "tons" : "tons",
-        confidence,
-        nationalAvgYield: parseFloat(nationalAvgYield.toFixed(2)),
-        yieldComparison: parseFloat(yieldComparison.toFixed(1)),
-        growingDays: cropInfo.growingDays,
-        waterRequirement: cropInfo.waterRequirement
-      },
-      analysis: {
-        factors: {
-          soil: { value: parseFloat((soilFactor * 100).toFixed(1)), status: soilFactor >= 1 ? "optimal" : soilFactor >= 0.9 ? "good" : "suboptimal" },
-          rainfall: { value: parseFloat((rainfallFactor * 100).toFixed(1)), status: rainfallFactor >= 0.95 ? "optimal" : rainfallFactor >= 0.85 ? "good" : "suboptimal" },
-          temperature: { value: parseFloat((tempFactor * 100).toFixed(1)), status: tempFactor >= 0.95 ? "optimal" : tempFactor >= 0.85 ? "good" : "suboptimal" },
-          humidity: { value: parseFloat((humidityFactor * 100).toFixed(1)), status: humidityFactor >= 0.95 ? "optimal" : humidityFactor >= 0.85 ? "good" : "suboptimal" },
-          season: { value: parseFloat((seasonFactor * 100).toFixed(1)), status: seasonFactor >= 1 ? "optimal" : "suboptimal" }
-        },
-        optimalConditions: {
-          temperature: cropInfo.optimalTemp,
-          rainfall: cropInfo.optimalRainfall,
-          humidity: cropInfo.optimalHumidity,
-          soils: cropInfo.bestSoils,
-          seasons: cropInfo.bestSeasons
+
+    if (!recommendMode) {
+      reference = await loadMarketPrices([data]);
+    }
+
+    // Sensitivity mode: yield and profit curves for each adjustable input, nothing is saved
+    if (data.mode === "sensitivity") {
+      return new Response(JSON.stringify({
+        mode: "sensitivity",
+        ...buildSensitivity(data, cropInfo, model, weatherSpread, soilTest, reference),
+        metadata: {
+          ...modelMetadata,
+          timestamp: new Date().toISOString(),
+          inputData: data
         }
-      },
-      recommendations,
-      riskAssessment,
-      financialProjection,
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+
+    // Recommendation mode: run every crop on this field and rank by expected profit
+    if (recommendMode) {
+      const rainfall = data.rainfall || weatherSpread.rainfallMean;
+      if (!rainfall) {
+        return new Response(
+          JSON.stringify({ error: "Rainfall is required - no rainfall history is available for this state" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const fieldData = { ...data, rainfall: Math.round(rainfall) };
+      reference = await loadMarketPrices(Object.keys(reference.crops).map(crop => ({ ...fieldData, crop })));
+      const ranking = Object.entries(reference.crops)
+        .map(([crop, profile]) => {
+          const run = predictCrop({ ...fieldData, crop }, profile, model, weatherSpread, soilTest, reference);
+          return {
+            crop,
+            yieldPerHectare: run.prediction.yieldPerHectare,
+            yieldQuantiles: run.prediction.yieldQuantiles,
+            totalProduction: run.prediction.totalProduction,
+            expectedRevenue: run.financialProjection.estimatedRevenue,
+            expectedCost: run.financialProjection.estimatedCost,
+            expectedProfit: run.financialProjection.estimatedProfit,
+            profitQuantiles: run.financialProjection.profitQuantiles,
+            priceSource: run.financialProjection.priceSource,
+            riskLevel: run.riskAssessment.level,
+            waterRequirement: profile.waterRequirement,
+            growingDays: profile.growingDays,
+            inSeason: profile.bestSeasons.includes(data.season),
+            soilSuited: profile.bestSoils.includes(data.soilType),
+            confidence: run.prediction.confidence
+          };
+        })
+        // Highest profit first; between equals, the crop that needs less water
+        .sort((a, b) => b.expectedProfit - a.expectedProfit || a.waterRequirement - b.waterRequirement)
+        .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+      return new Response(JSON.stringify({
+        mode: "recommend",
+        ranking,
+        metadata: {
+          ...modelMetadata,
+          rainfallSource: data.rainfall ? "input" : "historical",
+          timestamp: new Date().toISOString(),
+          inputData: fieldData
+        }
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      });
+    }
+
+    const { calibration, ...prediction } = predictCrop(data, cropInfo, model, weatherSpread, soilTest, reference);
+    const result = {
+      ...prediction,
       metadata: {
-        model: "AgriYield-v2.0-Advanced",
+        ...modelMetadata,
+        calibration,
         timestamp: new Date().toISOString(),
-        inputData: data
+        inputData: data,
+        predictionId: null as string | null
       }
     };
+
+    // Persist the run to the user's prediction history (RLS scopes it to the caller)
+    const { data: saved, error: saveError } = await supabase
+      .from("crop_predictions")
+      .insert(predictionRecord(userId, data, prediction, result.metadata))
+      .select("id")
+      .single();
+
+    if (saveError) {
+      // A failed save should not cost the user their prediction
+      console.error("Failed to save prediction:", saveError);
+    } else {
+      result.metadata.predictionId = saved.id;
+    }
     
     return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, "Content-Type": "application/json" }
@@ -0,0 +1,331 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Methods": "GET,POST,PUT,DELETE,OPTIONS",
+};
+
+type FieldType = "text" | "number" | "integer" | "list" | "months" | "boolean" | "seasonRanges";
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+}
+
+// Editable reference tables and the columns an admin may set on each
+const REFERENCE_TABLES: Record<string, { orderBy: string[]; fields: Record<string, FieldRule> }> = {
+  reference_crops: {
+    orderBy: ["crop"],
+    fields: {
+      crop: { type: "text", required: true },
+      base_yield: { type: "number", required: true, min: 0.1, max: 200 },
+      optimal_temp_min: { type: "number", required: true, min: -10, max: 50 },
+      optimal_temp_max: { type: "number", required: true, min: -10, max: 50 },
+      optimal_rainfall_min: { type: "number", required: true, min: 0, max: 5000 },
+      optimal_rainfall_max: { type: "number", required: true, min: 0, max: 5000 },
+      optimal_humidity_min: { type: "number", required: true, min: 0, max: 100 },
+      optimal_humidity_max: { type: "number", required: true, min: 0, max: 100 },
+      growing_days: { type: "integer", required: true, min: 30, max: 400 },
+      water_requirement: { type: "number", required: true, min: 0, max: 5000 },
+      best_soils: { type: "list" },
+      best_seasons: { type: "list" },
+      season_conditions: { type: "seasonRanges" },
+      price_per_quintal: { type: "number", required: true, min: 1, max: 100000 },
+      is_active: { type: "boolean" },
+    },
+  },
+  reference_commodities: {
+    orderBy: ["commodity"],
+    fields: {
+      commodity: { type: "text", required: true },
+      aliases: { type: "list" },
+      base_price: { type: "number", min: 1, max: 100000 },
+      min_ratio: { type: "number", required: true, min: 0.5, max: 1 },
+      max_ratio: { type: "number", required: true, min: 1, max: 2 },
+      volatility: { type: "number", required: true, min: 0, max: 1 },
+      seasonal_strength: { type: "number", required: true, min: 0, max: 1 },
+      sowing_months: { type: "months" },
+      harvest_months: { type: "months" },
+      is_active: { type: "boolean" },
+    },
+  },
+  reference_msp: {
+    orderBy: ["commodity", "marketing_year"],
+    fields: {
+      commodity: { type: "text", required: true },
+      marketing_year: { type: "text", required: true, pattern: /^\d{4}-\d{2}$/ },
+      season: { type: "text" },
+      msp: { type: "number", required: true, min: 1, max: 100000 },
+    },
+  },
+  reference_cultivation_costs: {
+    orderBy: ["crop", "state"],
+    fields: {
+      crop: { type: "text", required: true },
+      state: { type: "text", required: true },
+      cost_per_hectare: { type: "number", required: true, min: 1, max: 10000000 },
+      source: { type: "text" },
+    },
+  },
+};
+
+const AUDIT_LIMIT = 200;
+
+const SEASONS = ["Kharif", "Rabi", "Zaid"];
+const SEASON_RANGES = ["temp", "rainfall", "humidity"];
+
+// { "Zaid": { "temp": [min, max], ... } } with known seasons and ranges only
+function validSeasonRanges(value: unknown): boolean {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  return Object.entries(value).every(([season, ranges]) =>
+    SEASONS.includes(season) &&
+    typeof ranges === "object" && ranges !== null && !Array.isArray(ranges) &&
+    Object.entries(ranges).every(([name, range]) =>
+      SEASON_RANGES.includes(name) &&
+      Array.isArray(range) && range.length === 2 &&
+      range.every(v => typeof v === "number" && Number.isFinite(v)) &&
+      range[0] <= range[1]
+    )
+  );
+}
+
+// Returns the cleaned record, or an error message
+function validateRecord(table: string, body: Record<string, unknown>): { record: Record<string, unknown> } | { error: string } {
+  const { fields } = REFERENCE_TABLES[table];
+  const record: Record<string, unknown> = {};
+
+  for (const [key, rule] of Object.entries(fields)) {
+    const value = body[key];
+    if (value === undefined || value === null || value === "") {
+      if (rule.required) return { error: `${key} is required` };
+      if (value !== undefined && rule.type !== "list" && rule.type !== "months" && rule.type !== "seasonRanges") record[key] = null;
+      continue;
+    }
+
+    if (rule.type === "text") {
+      if (typeof value !== "string" || value.trim().length === 0 || value.length > 100) return { error: `${key} must be text (max 100 characters)` };
+      if (rule.pattern && !rule.pattern.test(value.trim())) return { error: `${key} has an invalid format` };
+      record[key] = value.trim();
+    } else if (rule.type === "number" || rule.type === "integer") {
+      if (typeof value !== "number" || !Number.isFinite(value) || (rule.type === "integer" && !Number.isInteger(value))) {
+        return { error: `${key} must be ${rule.type === "integer" ? "a whole number" : "a number"}` };
+      }
+      if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+        return { error: `${key} must be between ${rule.min} and ${rule.max}` };
+      }
+      record[key] = value;
+    } else if (rule.type === "list") {
+      if (!Array.isArray(value) || value.some(v => typeof v !== "string" || v.trim().length === 0)) return { error: `${key} must be a list of names` };
+      record[key] = value.map(v => (v as string).trim());
+    } else if (rule.type === "months") {
+      if (!Array.isArray(value) || value.some(v => !Number.isInteger(v) || v < 1 || v > 12)) return { error: `${key} must be months between 1 and 12` };
+      record[key] = [...new Set(value)];
+    } else if (rule.type === "boolean") {
+      if (typeof value !== "boolean") return { error: `${key} must be true or false` };
+      record[key] = value;
+    } else if (rule.type === "seasonRanges") {
+      if (!validSeasonRanges(value)) return { error: `${key} must map ${SEASONS.join("/")} to ${SEASON_RANGES.join("/")} [min, max] ranges` };
+      record[key] = value;
+    }
+  }
+
+  // Ranges stored as _min/_max pairs must be ordered
+  for (const key of Object.keys(record)) {
+    const maxKey = key.replace(/_min$/, "_max");
+    if (maxKey !== key && typeof record[key] === "number" && typeof record[maxKey] === "number" && (record[key] as number) > (record[maxKey] as number)) {
+      return { error: `${key} must not exceed ${maxKey}` };
+    }
+  }
+
+  return { record };
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    console.log(`reference-data request: method=${req.method}`);
+    // Validate auth header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized - No valid auth token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Writes run as the admin so RLS applies and the audit trigger records who made them
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.error("JWT verification failed:", userError);
+      return new Response(
+        JSON.stringify({ error: "Unauthorized - Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: isAdmin, error: roleError } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (roleError || !isAdmin) {
+      return new Response(
+        JSON.stringify({ error: "Admin access required" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const params = new URL(req.url).searchParams;
+    const id = params.get("id");
+
+    // GET - Every reference table, or the most recent audit entries (?audit=true)
+    if (req.method === "GET") {
+      if (params.get("audit") === "true") {
+        const { data, error } = await supabase
+          .from("reference_data_audit")
+          .select("*")
+          .order("changed_at", { ascending: false })
+          .limit(AUDIT_LIMIT);
+
+        if (error) {
+          console.error("Error fetching audit trail:", error);
+          return new Response(
+            JSON.stringify({ error: "Failed to fetch audit trail" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ data: data || [] }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const results = await Promise.all(Object.entries(REFERENCE_TABLES).map(async ([table, { orderBy }]) => {
+        let query = supabase.from(table).select("*");
+        orderBy.forEach(column => { query = query.order(column, { ascending: true }); });
+        const { data, error } = await query;
+        return { table, data, error };
+      }));
+
+      const failed = results.find(r => r.error);
+      if (failed) {
+        console.error(`Error fetching ${failed.table}:`, failed.error);
+        return new Response(
+          JSON.stringify({ error: "Failed to fetch reference data" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: Object.fromEntries(results.map(r => [r.table, r.data || []])) }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // POST - Add a row / PUT - Update a row (?id=)
+    if (req.method === "POST" || req.method === "PUT") {
+      const body: { table?: string; record?: Record<string, unknown> } = await req.json();
+      const table = body.table || "";
+
+      if (!REFERENCE_TABLES[table] || !body.record) {
+        return new Response(
+          JSON.stringify({ error: "Unknown reference table" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (req.method === "PUT" && !id) {
+        return new Response(
+          JSON.stringify({ error: "Missing row id" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const validation = validateRecord(table, body.record);
+      if ("error" in validation) {
+        return new Response(
+          JSON.stringify({ error: validation.error }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const result = req.method === "POST"
+        ? await supabase.from(table).insert(validation.record).select().single()
+        : await supabase.from(table).update(validation.record).eq("id", id).select().maybeSingle();
+
+      if (result.error) {
+        console.error(`Error saving ${table}:`, result.error);
+        const duplicate = result.error.code === "23505";
+        return new Response(
+          JSON.stringify({ error: duplicate ? "A row with the same key already exists" : "Failed to save reference data", details: result.error.message }),
+          { status: duplicate ? 409 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!result.data) {
+        return new Response(
+          JSON.stringify({ error: "Row not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: result.data, message: req.method === "POST" ? "Row added" : "Row updated" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // DELETE - Remove a row (?table=&id=)
+    if (req.method === "DELETE") {
+      const table = params.get("table") || "";
+      if (!REFERENCE_TABLES[table] || !id) {
+        return new Response(
+          JSON.stringify({ error: "Missing reference table or row id" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq("id", id);
+
+      if (error) {
+        console.error(`Error deleting from ${table}:`, error);
+        return new Response(
+          JSON.stringify({ error: "Failed to delete reference data" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ message: "Row deleted" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -337,6 +337,14 @@ serve(async (req) => {
         .eq('id', syncLogId);
     }
 
+    // New prices can add markets, commodities or varieties to the forecast selectors
+    if (insertedCount > 0) {
+      const { error: catalogError } = await supabase.rpc('refresh_market_catalog');
+      if (catalogError) {
+        console.error('Failed to refresh market catalog:', catalogError);
+      }
+    }
+
     console.log(`Sync completed: ${insertedCount} inserted, ${errors.length} errors`);
 
     return new Response(
@@ -0,0 +1,242 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Methods": "GET,POST,PUT,DELETE,OPTIONS",
+};
+
+interface SoilTest {
+  nitrogen: number;
+  phosphorus: number;
+  potassium: number;
+  ph: number;
+  organicCarbon?: number;
+  ec?: number;
+  sulphur?: number;
+  zinc?: number;
+  iron?: number;
+  manganese?: number;
+  copper?: number;
+  boron?: number;
+  testDate?: string;
+  cardNumber?: string;
+}
+
+interface FarmData {
+  farm_name: string;
+  state: string;
+  district?: string | null;
+  total_area: number;
+  crops_grown?: string[] | null;
+  soil_test_results?: SoilTest | null;
+}
+
+// Plausible ranges for Soil Health Card parameters
+const SOIL_TEST_RANGES: Record<string, { min: number; max: number; required: boolean }> = {
+  nitrogen: { min: 0, max: 1500, required: true },
+  phosphorus: { min: 0, max: 300, required: true },
+  potassium: { min: 0, max: 2000, required: true },
+  ph: { min: 3, max: 11, required: true },
+  organicCarbon: { min: 0, max: 5, required: false },
+  ec: { min: 0, max: 20, required: false },
+  sulphur: { min: 0, max: 200, required: false },
+  zinc: { min: 0, max: 50, required: false },
+  iron: { min: 0, max: 300, required: false },
+  manganese: { min: 0, max: 200, required: false },
+  copper: { min: 0, max: 50, required: false },
+  boron: { min: 0, max: 20, required: false },
+};
+
+// Returns an error message, or null when the soil test is valid
+function validateSoilTest(soilTest: SoilTest): string | null {
+  for (const [key, range] of Object.entries(SOIL_TEST_RANGES)) {
+    const value = (soilTest as unknown as Record<string, unknown>)[key];
+    if (value === undefined || value === null) {
+      if (range.required) return `Soil test is missing ${key}`;
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < range.min || value > range.max) {
+      return `Soil test ${key} must be between ${range.min} and ${range.max}`;
+    }
+  }
+  if (soilTest.testDate && isNaN(Date.parse(soilTest.testDate))) {
+    return "Soil test date is invalid";
+  }
+  return null;
+}
+
+function validateFarm(body: FarmData): string | null {
+  if (!body.farm_name?.trim() || body.farm_name.length > 100) return "Farm name is required (max 100 characters)";
+  if (!body.state?.trim()) return "State is required";
+  if (typeof body.total_area !== "number" || body.total_area <= 0 || body.total_area > 100000) {
+    return "Total area must be between 0 and 100,000 hectares";
+  }
+  if (body.soil_test_results) return validateSoilTest(body.soil_test_results);
+  return null;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    console.log(`user-farms request: method=${req.method}`);
+    // Validate auth header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized - No valid auth token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Create Supabase client with user's auth so RLS scopes every query
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      console.error("JWT verification failed:", userError);
+      return new Response(
+        JSON.stringify({ error: "Unauthorized - Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userId = user.id;
+    const id = new URL(req.url).searchParams.get("id");
+
+    // GET - List the user's farms
+    if (req.method === "GET") {
+      const { data, error } = await supabase
+        .from("user_farms")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching farms:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to fetch farms" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: data || [] }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // POST - Create a farm / PUT - Update a farm (?id=) including its soil test
+    if (req.method === "POST" || req.method === "PUT") {
+      if (req.method === "PUT" && !id) {
+        return new Response(
+          JSON.stringify({ error: "Missing farm id" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const body: FarmData = await req.json();
+      const validationError = validateFarm(body);
+      if (validationError) {
+        return new Response(
+          JSON.stringify({ error: validationError }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const record = {
+        farm_name: body.farm_name.trim(),
+        state: body.state,
+        district: body.district || null,
+        total_area: body.total_area,
+        crops_grown: body.crops_grown || null,
+        soil_test_results: body.soil_test_results || null,
+      };
+
+      const result = req.method === "POST"
+        ? await supabase
+            .from("user_farms")
+            .insert({ ...record, user_id: userId })
+            .select()
+            .single()
+        : await supabase
+            .from("user_farms")
+            .update(record)
+            .eq("user_id", userId)
+            .eq("id", id)
+            .select()
+            .maybeSingle();
+
+      if (result.error) {
+        console.error("Error saving farm:", result.error);
+        return new Response(
+          JSON.stringify({ error: "Failed to save farm", details: result.error.message }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!result.data) {
+        return new Response(
+          JSON.stringify({ error: "Farm not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ data: result.data, message: req.method === "POST" ? "Farm created" : "Farm updated" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // DELETE - Remove a farm
+    if (req.method === "DELETE") {
+      if (!id) {
+        return new Response(
+          JSON.stringify({ error: "Missing farm id" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error } = await supabase
+        .from("user_farms")
+        .delete()
+        .eq("user_id", userId)
+        .eq("id", id);
+
+      if (error) {
+        console.error("Error deleting farm:", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to delete farm" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ message: "Farm deleted" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
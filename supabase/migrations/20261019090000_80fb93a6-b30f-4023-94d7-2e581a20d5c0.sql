@@ -0,0 +1,18 @@
+-- Persist the full yield prediction context so saved runs can be reopened
+ALTER TABLE public.crop_predictions
+  ADD COLUMN IF NOT EXISTS irrigation_type text,
+  ADD COLUMN IF NOT EXISTS fertilizer_usage text,
+  ADD COLUMN IF NOT EXISTS previous_crop text,
+  ADD COLUMN IF NOT EXISTS prediction_details jsonb,
+  ADD COLUMN IF NOT EXISTS analysis jsonb,
+  ADD COLUMN IF NOT EXISTS model_version text;
+
+-- Users can remove runs from their own prediction history
+CREATE POLICY "Users can delete their own predictions"
+ON public.crop_predictions FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Index for history filtering by crop and season
+CREATE INDEX IF NOT EXISTS idx_crop_predictions_user_crop
+ON public.crop_predictions(user_id, crop_type, season);
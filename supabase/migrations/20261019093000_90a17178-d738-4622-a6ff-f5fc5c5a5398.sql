@@ -0,0 +1,9 @@
+-- Accuracy tracking for yield predictions once the harvest is in
+ALTER TABLE public.crop_predictions
+  ADD COLUMN IF NOT EXISTS actual_recorded_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS absolute_error decimal,
+  ADD COLUMN IF NOT EXISTS percentage_error decimal;
+
+CREATE INDEX IF NOT EXISTS idx_crop_predictions_accuracy
+ON public.crop_predictions(crop_type, state, season)
+WHERE actual_yield IS NOT NULL;
@@ -0,0 +1,30 @@
+-- Versioned yield models calibrated from historical_yields
+CREATE TABLE IF NOT EXISTS public.yield_models (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  model_version TEXT NOT NULL UNIQUE,
+  -- Fitted coefficients: per-crop base yields and state/soil multipliers
+  coefficients JSONB NOT NULL,
+  training_rows INTEGER NOT NULL DEFAULT 0,
+  -- In-sample fit of the calibrated model against the built-in tables
+  metrics JSONB,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  trained_by UUID,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only one model can serve predictions at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_yield_models_single_active
+ON public.yield_models(is_active) WHERE is_active;
+
+ALTER TABLE public.yield_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Yield models are viewable by everyone"
+ON public.yield_models FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage yield models"
+ON public.yield_models FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Record how much history the model behind each saved prediction was fitted on
+ALTER TABLE public.crop_predictions
+  ADD COLUMN IF NOT EXISTS model_training_rows integer;
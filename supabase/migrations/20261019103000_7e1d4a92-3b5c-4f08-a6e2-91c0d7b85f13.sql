@@ -0,0 +1,6 @@
+-- Link predictions to the farm whose soil test was used
+ALTER TABLE public.crop_predictions
+  ADD COLUMN IF NOT EXISTS farm_id uuid REFERENCES public.user_farms(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_crop_predictions_farm_id
+ON public.crop_predictions(farm_id);
@@ -0,0 +1,243 @@
+-- Reference data that the prediction, forecast and ETL functions used to hard-code
+
+-- Agronomic profile and market price for each crop the yield predictor supports
+CREATE TABLE public.reference_crops (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  crop text NOT NULL UNIQUE,
+  base_yield numeric NOT NULL,                 -- tonnes/hectare under good management
+  optimal_temp_min numeric NOT NULL,
+  optimal_temp_max numeric NOT NULL,
+  optimal_rainfall_min numeric NOT NULL,
+  optimal_rainfall_max numeric NOT NULL,
+  optimal_humidity_min numeric NOT NULL,
+  optimal_humidity_max numeric NOT NULL,
+  growing_days integer NOT NULL,
+  water_requirement numeric NOT NULL,          -- mm per season
+  best_soils text[] NOT NULL DEFAULT '{}',
+  best_seasons text[] NOT NULL DEFAULT '{}',
+  price_per_quintal numeric NOT NULL,          -- ₹, typical MSP/market rate
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Mandi commodities: price simulation parameters and crop calendar months
+CREATE TABLE public.reference_commodities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  commodity text NOT NULL UNIQUE,
+  aliases text[] NOT NULL DEFAULT '{}',       -- alternative Agmarknet spellings
+  base_price numeric,                          -- ₹/quintal; falls back to the latest MSP
+  min_ratio numeric NOT NULL DEFAULT 0.90,
+  max_ratio numeric NOT NULL DEFAULT 1.10,
+  volatility numeric NOT NULL DEFAULT 0.05,
+  seasonal_strength numeric NOT NULL DEFAULT 0.05,
+  sowing_months integer[] NOT NULL DEFAULT '{}',
+  harvest_months integer[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Minimum support price by marketing year (e.g. 2024-25)
+CREATE TABLE public.reference_msp (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  commodity text NOT NULL,
+  marketing_year text NOT NULL,
+  season text,
+  msp numeric NOT NULL,                        -- ₹/quintal
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (commodity, marketing_year)
+);
+
+-- Cost of cultivation per hectare; 'All India' rows apply where a state has none
+CREATE TABLE public.reference_cultivation_costs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  crop text NOT NULL,
+  state text NOT NULL DEFAULT 'All India',
+  cost_per_hectare numeric NOT NULL,           -- ₹
+  source text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (crop, state)
+);
+
+-- Audit trail of every change to the reference tables
+CREATE TABLE public.reference_data_audit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  action text NOT NULL,
+  old_data jsonb,
+  new_data jsonb,
+  changed_by uuid,
+  changed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reference_data_audit_changed_at ON public.reference_data_audit(changed_at DESC);
+CREATE INDEX idx_reference_data_audit_record ON public.reference_data_audit(table_name, record_id);
+
+-- Enable RLS
+ALTER TABLE public.reference_crops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reference_commodities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reference_msp ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reference_cultivation_costs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reference_data_audit ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in reads reference data; only admins change it
+CREATE POLICY "Authenticated users can view reference crops"
+ON public.reference_crops FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage reference crops"
+ON public.reference_crops FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view reference commodities"
+ON public.reference_commodities FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage reference commodities"
+ON public.reference_commodities FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view MSP"
+ON public.reference_msp FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage MSP"
+ON public.reference_msp FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view cultivation costs"
+ON public.reference_cultivation_costs FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage cultivation costs"
+ON public.reference_cultivation_costs FOR ALL USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view the reference data audit trail"
+ON public.reference_data_audit FOR SELECT USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Audit rows are written by trigger only, recording the editing user
+CREATE OR REPLACE FUNCTION public.log_reference_data_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.reference_data_audit (table_name, record_id, action, old_data, new_data, changed_by)
+  VALUES (
+    TG_TABLE_NAME,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    TG_OP,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END,
+    auth.uid()
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_reference_crops_updated_at
+  BEFORE UPDATE ON public.reference_crops
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_reference_commodities_updated_at
+  BEFORE UPDATE ON public.reference_commodities
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_reference_msp_updated_at
+  BEFORE UPDATE ON public.reference_msp
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_reference_cultivation_costs_updated_at
+  BEFORE UPDATE ON public.reference_cultivation_costs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_reference_crops
+  AFTER INSERT OR UPDATE OR DELETE ON public.reference_crops
+  FOR EACH ROW EXECUTE FUNCTION public.log_reference_data_change();
+
+CREATE TRIGGER audit_reference_commodities
+  AFTER INSERT OR UPDATE OR DELETE ON public.reference_commodities
+  FOR EACH ROW EXECUTE FUNCTION public.log_reference_data_change();
+
+CREATE TRIGGER audit_reference_msp
+  AFTER INSERT OR UPDATE OR DELETE ON public.reference_msp
+  FOR EACH ROW EXECUTE FUNCTION public.log_reference_data_change();
+
+CREATE TRIGGER audit_reference_cultivation_costs
+  AFTER INSERT OR UPDATE OR DELETE ON public.reference_cultivation_costs
+  FOR EACH ROW EXECUTE FUNCTION public.log_reference_data_change();
+
+-- Seed with the values previously built into the functions
+INSERT INTO public.reference_crops (crop, base_yield, optimal_temp_min, optimal_temp_max, optimal_rainfall_min, optimal_rainfall_max, optimal_humidity_min, optimal_humidity_max, growing_days, water_requirement, best_soils, best_seasons, price_per_quintal) VALUES
+('Rice', 4.2, 25, 35, 1000, 2000, 60, 80, 120, 1500, ARRAY['Alluvial', 'Clayey', 'Black'], ARRAY['Kharif'], 2300),
+  ('Wheat', 3.5, 15, 25, 400, 700, 40, 60, 120, 450, ARRAY['Alluvial', 'Loamy', 'Black'], ARRAY['Rabi'], 2275),
+  ('Cotton', 2, 21, 30, 700, 1200, 50, 70, 180, 700, ARRAY['Black', 'Alluvial'], ARRAY['Kharif'], 6800),
+  ('Sugarcane', 75, 20, 35, 1500, 2500, 70, 85, 365, 2000, ARRAY['Alluvial', 'Loamy', 'Black'], ARRAY['Kharif', 'Rabi'], 350),
+  ('Maize', 5.5, 21, 30, 500, 800, 50, 70, 100, 500, ARRAY['Loamy', 'Alluvial', 'Red'], ARRAY['Kharif', 'Rabi'], 2090),
+  ('Barley', 2.8, 12, 22, 300, 500, 35, 55, 110, 400, ARRAY['Loamy', 'Alluvial'], ARRAY['Rabi'], 1850),
+  ('Gram', 1.2, 15, 25, 400, 600, 40, 60, 100, 350, ARRAY['Loamy', 'Alluvial', 'Black'], ARRAY['Rabi'], 5450),
+  ('Groundnut', 2.2, 25, 30, 500, 700, 50, 60, 120, 500, ARRAY['Sandy Loam', 'Red', 'Alluvial'], ARRAY['Kharif', 'Rabi'], 6550),
+  ('Soybean', 2.5, 20, 30, 600, 1000, 60, 70, 100, 450, ARRAY['Black', 'Alluvial', 'Loamy'], ARRAY['Kharif'], 4600),
+  ('Sunflower', 1.8, 20, 28, 500, 750, 50, 65, 90, 400, ARRAY['Black', 'Alluvial', 'Red'], ARRAY['Rabi', 'Kharif'], 6760),
+  ('Potato', 25, 15, 22, 500, 700, 70, 80, 90, 500, ARRAY['Sandy Loam', 'Loamy', 'Alluvial'], ARRAY['Rabi'], 1200),
+  ('Onion', 18, 15, 25, 600, 750, 60, 70, 130, 400, ARRAY['Loamy', 'Alluvial', 'Sandy Loam'], ARRAY['Rabi', 'Kharif'], 1500),
+  ('Tomato', 30, 20, 27, 400, 600, 60, 80, 75, 600, ARRAY['Loamy', 'Sandy Loam', 'Alluvial'], ARRAY['Rabi', 'Zaid'], 2000),
+  ('Mustard', 1.5, 10, 25, 300, 500, 40, 60, 120, 350, ARRAY['Loamy', 'Alluvial', 'Sandy Loam'], ARRAY['Rabi'], 5650),
+  ('Turmeric', 8, 25, 30, 1500, 2000, 70, 90, 270, 1500, ARRAY['Loamy', 'Alluvial', 'Red'], ARRAY['Kharif'], 8500),
+  ('Chilli', 2.5, 20, 30, 600, 1200, 60, 80, 150, 600, ARRAY['Loamy', 'Black', 'Alluvial'], ARRAY['Kharif', 'Rabi'], 12000);
+
+INSERT INTO public.reference_commodities (commodity, aliases, base_price, min_ratio, max_ratio, volatility, seasonal_strength, sowing_months, harvest_months) VALUES
+  ('Paddy', '{}', 2203, 0.92, 1.08, 0.03, 0.04, ARRAY[6, 7], ARRAY[10, 11, 12]),
+  ('Rice', '{}', 3550, 0.93, 1.07, 0.025, 0.03, '{}', '{}'),
+  ('Wheat', '{}', 2275, 0.94, 1.06, 0.02, 0.035, ARRAY[10, 11], ARRAY[3, 4]),
+  ('Cotton', '{}', 6620, 0.90, 1.10, 0.05, 0.06, ARRAY[4, 5, 6], ARRAY[10, 11, 12]),
+  ('Maize', '{}', 2090, 0.91, 1.09, 0.04, 0.05, ARRAY[6, 7], ARRAY[9, 10]),
+  ('Onion', '{}', 2800, 0.75, 1.25, 0.12, 0.15, ARRAY[6, 7, 10, 11], ARRAY[1, 2, 3, 4, 5]),
+  ('Potato', '{}', 1800, 0.80, 1.20, 0.08, 0.1, ARRAY[10, 11], ARRAY[1, 2, 3]),
+  ('Tomato', '{}', 3200, 0.70, 1.30, 0.15, 0.18, ARRAY[6, 7, 8, 9], ARRAY[10, 11, 12, 1, 2]),
+  ('Soybean', ARRAY['Soyabean'], 4600, 0.92, 1.08, 0.035, 0.04, ARRAY[6, 7], ARRAY[9, 10]),
+  ('Groundnut', '{}', 5850, 0.91, 1.09, 0.04, 0.05, ARRAY[6, 7], ARRAY[10, 11]),
+  ('Chilli', '{}', 13000, 0.85, 1.15, 0.08, 0.1, '{}', '{}'),
+  ('Turmeric', '{}', 9500, 0.88, 1.12, 0.06, 0.07, '{}', '{}'),
+  ('Sugarcane', '{}', 315, 0.95, 1.05, 0.015, 0.02, ARRAY[2, 3, 10], ARRAY[11, 12, 1, 2, 3, 4]),
+  ('Mustard', '{}', 5650, 0.92, 1.08, 0.035, 0.04, ARRAY[9, 10], ARRAY[2, 3]),
+  ('Jowar', '{}', 3180, 0.91, 1.09, 0.04, 0.05, '{}', '{}'),
+  ('Bajra', '{}', 2500, 0.90, 1.10, 0.045, 0.055, '{}', '{}'),
+  ('Ragi', '{}', NULL, 0.90, 1.10, 0.05, 0.05, '{}', '{}'),
+  ('Arhar', '{}', NULL, 0.90, 1.10, 0.05, 0.05, '{}', '{}'),
+  ('Moong', '{}', NULL, 0.90, 1.10, 0.05, 0.05, '{}', '{}'),
+  ('Urad', '{}', NULL, 0.90, 1.10, 0.05, 0.05, '{}', '{}'),
+  ('Sunflower', '{}', NULL, 0.90, 1.10, 0.05, 0.05, '{}', '{}');
+
+INSERT INTO public.reference_msp (commodity, marketing_year, msp) VALUES
+  ('Paddy', '2024-25', 2300),
+  ('Wheat', '2024-25', 2275),
+  ('Jowar', '2024-25', 3180),
+  ('Bajra', '2024-25', 2625),
+  ('Maize', '2024-25', 2225),
+  ('Ragi', '2024-25', 4290),
+  ('Arhar', '2024-25', 7550),
+  ('Moong', '2024-25', 8682),
+  ('Urad', '2024-25', 7400),
+  ('Groundnut', '2024-25', 6783),
+  ('Soybean', '2024-25', 4892),
+  ('Sunflower', '2024-25', 7280),
+  ('Cotton', '2024-25', 7121),
+  ('Sugarcane', '2024-25', 315),
+  ('Mustard', '2024-25', 5650);
+
+INSERT INTO public.reference_cultivation_costs (crop, state, cost_per_hectare) VALUES
+  ('Rice', 'All India', 45000),
+  ('Wheat', 'All India', 35000),
+  ('Cotton', 'All India', 55000),
+  ('Sugarcane', 'All India', 85000),
+  ('Maize', 'All India', 32000),
+  ('Barley', 'All India', 28000),
+  ('Gram', 'All India', 25000),
+  ('Groundnut', 'All India', 40000),
+  ('Soybean', 'All India', 30000),
+  ('Sunflower', 'All India', 28000),
+  ('Potato', 'All India', 120000),
+  ('Onion', 'All India', 75000),
+  ('Tomato', 'All India', 95000),
+  ('Mustard', 'All India', 25000),
+  ('Turmeric', 'All India', 150000),
+  ('Chilli', 'All India', 80000);
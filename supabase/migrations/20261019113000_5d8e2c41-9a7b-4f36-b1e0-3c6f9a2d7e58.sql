@@ -0,0 +1,53 @@
+-- Zaid (summer) season support: season-specific optimal ranges and summer crops
+
+-- Optimal ranges that apply when a crop is grown outside its main season, keyed by season:
+-- { "Zaid": { "temp": [min, max], "rainfall": [min, max], "humidity": [min, max] } }
+ALTER TABLE public.reference_crops
+  ADD COLUMN season_conditions jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Spring maize, summer groundnut, spring sunflower and summer tomato are irrigated in the dry season
+UPDATE public.reference_crops
+SET best_seasons = ARRAY['Kharif', 'Rabi', 'Zaid'],
+    season_conditions = '{"Zaid": {"temp": [25, 35], "rainfall": [100, 400], "humidity": [35, 60]}}'
+WHERE crop = 'Maize';
+
+UPDATE public.reference_crops
+SET best_seasons = ARRAY['Kharif', 'Rabi', 'Zaid'],
+    season_conditions = '{"Zaid": {"temp": [25, 35], "rainfall": [100, 400], "humidity": [40, 60]}}'
+WHERE crop = 'Groundnut';
+
+UPDATE public.reference_crops
+SET best_seasons = ARRAY['Rabi', 'Kharif', 'Zaid'],
+    season_conditions = '{"Zaid": {"temp": [22, 32], "rainfall": [100, 400], "humidity": [35, 55]}}'
+WHERE crop = 'Sunflower';
+
+UPDATE public.reference_crops
+SET season_conditions = '{"Zaid": {"temp": [22, 32], "rainfall": [50, 300], "humidity": [40, 65]}}'
+WHERE crop = 'Tomato';
+
+-- Summer crops; base ranges are for Zaid, with wetter Kharif ranges where they are also grown in the monsoon
+INSERT INTO public.reference_crops (crop, base_yield, optimal_temp_min, optimal_temp_max, optimal_rainfall_min, optimal_rainfall_max, optimal_humidity_min, optimal_humidity_max, growing_days, water_requirement, best_soils, best_seasons, season_conditions, price_per_quintal) VALUES
+  ('Watermelon', 25, 24, 35, 50, 400, 30, 60, 90, 450, ARRAY['Sandy Loam', 'Alluvial', 'Loamy'], ARRAY['Zaid'], '{}', 1200),
+  ('Muskmelon', 15, 25, 35, 50, 400, 30, 60, 85, 450, ARRAY['Sandy Loam', 'Alluvial', 'Loamy'], ARRAY['Zaid'], '{}', 1800),
+  ('Cucumber', 12, 20, 32, 100, 500, 50, 70, 60, 400, ARRAY['Loamy', 'Sandy Loam', 'Alluvial'], ARRAY['Zaid', 'Kharif'], '{"Kharif": {"rainfall": [500, 900], "humidity": [60, 85]}}', 1500),
+  ('Moong', 0.9, 25, 35, 60, 400, 40, 65, 65, 300, ARRAY['Loamy', 'Sandy Loam', 'Alluvial'], ARRAY['Zaid', 'Kharif'], '{"Kharif": {"rainfall": [400, 800], "humidity": [60, 80]}}', 8682),
+  ('Fodder Sorghum', 40, 25, 38, 100, 600, 35, 70, 60, 450, ARRAY['Loamy', 'Alluvial', 'Black', 'Sandy Loam'], ARRAY['Zaid', 'Kharif'], '{"Kharif": {"rainfall": [400, 900], "humidity": [55, 85]}}', 250);
+
+INSERT INTO public.reference_cultivation_costs (crop, state, cost_per_hectare) VALUES
+  ('Watermelon', 'All India', 70000),
+  ('Muskmelon', 'All India', 65000),
+  ('Cucumber', 'All India', 60000),
+  ('Moong', 'All India', 22000),
+  ('Fodder Sorghum', 'All India', 20000);
+
+-- Mandi names and crop calendars for the summer vegetables and moong
+INSERT INTO public.reference_commodities (commodity, aliases, base_price, min_ratio, max_ratio, volatility, seasonal_strength, sowing_months, harvest_months) VALUES
+  ('Watermelon', ARRAY['Water Melon'], 1200, 0.75, 1.25, 0.10, 0.15, ARRAY[2, 3], ARRAY[4, 5, 6]),
+  ('Muskmelon', ARRAY['Karbuja(Musk Melon)', 'Musk Melon'], 1800, 0.75, 1.25, 0.10, 0.15, ARRAY[2, 3], ARRAY[4, 5, 6]),
+  ('Cucumber', ARRAY['Cucumbar(Kheera)', 'Kheera'], 1500, 0.75, 1.25, 0.10, 0.12, ARRAY[2, 3, 6, 7], ARRAY[4, 5, 8, 9]);
+
+UPDATE public.reference_commodities
+SET aliases = ARRAY['Green Gram (Moong)(Whole)', 'Green Gram'],
+    sowing_months = ARRAY[3, 4, 6, 7],
+    harvest_months = ARRAY[5, 6, 9, 10]
+WHERE commodity = 'Moong';
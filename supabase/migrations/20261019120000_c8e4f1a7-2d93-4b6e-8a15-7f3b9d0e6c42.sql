@@ -0,0 +1,58 @@
+-- In-season re-estimates of a saved prediction from observed and forecast weather
+ALTER TABLE public.crop_predictions
+  ADD COLUMN IF NOT EXISTS nowcasts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS last_nowcast_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_crop_predictions_nowcast_due
+ON public.crop_predictions(last_nowcast_at)
+WHERE actual_yield IS NULL;
+
+-- Per-user notifications, e.g. a material drop in a prediction's in-season estimate
+CREATE TABLE IF NOT EXISTS public.user_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  notification_type TEXT NOT NULL,  -- yield_drop
+  severity TEXT NOT NULL DEFAULT 'warning',  -- info, warning, critical
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  prediction_id UUID REFERENCES public.crop_predictions(id) ON DELETE CASCADE,
+  details JSONB,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_notifications_user
+ON public.user_notifications(user_id, is_read, created_at DESC);
+
+ALTER TABLE public.user_notifications ENABLE ROW LEVEL SECURITY;
+
+-- No INSERT policy: only predict-yield writes notifications, with the service role
+CREATE POLICY "Users can view their own notifications"
+ON public.user_notifications FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.user_notifications FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.user_notifications FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Re-estimate every in-season prediction daily at 7:00 AM IST (01:30 UTC); predict-yield skips records
+-- re-estimated within the last week. The service role key is read from Vault so RLS does not limit the run.
+SELECT cron.schedule(
+  'daily-yield-nowcast',
+  '30 1 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://xllpedrhhzoljkfvkgef.supabase.co/functions/v1/predict-yield',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"mode": "nowcast", "source": "cron"}'::jsonb
+  ) AS request_id;
+  $$
+);
@@ -0,0 +1,10 @@
+-- Price forecasts record which registered model produced them and the history it was fitted on
+ALTER TABLE public.ml_predictions
+  ADD COLUMN IF NOT EXISTS model_name TEXT,
+  ADD COLUMN IF NOT EXISTS data_source TEXT;  -- mandi_timeseries, mandi_prices
+
+ALTER TABLE public.price_forecasts
+  ADD COLUMN IF NOT EXISTS data_source TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ml_predictions_model
+ON public.ml_predictions(model_name, model_version);
@@ -0,0 +1,9 @@
+-- Rolling-origin backtests score bias and interval coverage alongside the error metrics
+ALTER TABLE public.ml_model_performance
+  ADD COLUMN IF NOT EXISTS bias NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_coverage NUMERIC,  -- share of actuals inside the forecast interval, 0-1
+  ADD COLUMN IF NOT EXISTS evaluation_method TEXT;  -- rolling_origin, live
+
+CREATE INDEX IF NOT EXISTS idx_ml_model_performance_backtest
+ON public.ml_model_performance(market, commodity, model_name, evaluated_at DESC)
+WHERE evaluation_method = 'rolling_origin';
@@ -0,0 +1,43 @@
+-- market-forecast stores every horizon it generates. Forecasts are unique per model, so the original
+-- key (without the model) is replaced; NULLS NOT DISTINCT lets rows without a variety upsert too.
+DO $$
+DECLARE
+  constraint_name TEXT;
+BEGIN
+  SELECT conname INTO constraint_name
+  FROM pg_constraint
+  WHERE conrelid = 'public.price_forecasts'::regclass AND contype = 'u';
+
+  IF constraint_name IS NOT NULL THEN
+    EXECUTE format('ALTER TABLE public.price_forecasts DROP CONSTRAINT %I', constraint_name);
+  END IF;
+END $$;
+
+ALTER TABLE public.price_forecasts
+  ADD CONSTRAINT price_forecasts_model_target_key
+  UNIQUE NULLS NOT DISTINCT (state, district, market, commodity, variety, model_used, forecast_date, target_date);
+
+CREATE INDEX IF NOT EXISTS idx_price_forecasts_pending
+ON public.price_forecasts(target_date)
+WHERE actual_modal IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_price_forecasts_track_record
+ON public.price_forecasts(market, commodity, model_used, target_date DESC)
+WHERE actual_modal IS NOT NULL;
+
+-- Fill actual prices into forecasts whose target date has passed, daily at 8:00 AM IST (02:30 UTC),
+-- after the morning mandi sync. The service role key is read from Vault so RLS does not limit the run.
+SELECT cron.schedule(
+  'daily-forecast-reconcile',
+  '30 2 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://xllpedrhhzoljkfvkgef.supabase.co/functions/v1/market-forecast',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "reconcile", "source": "cron"}'::jsonb
+  ) AS request_id;
+  $$
+);
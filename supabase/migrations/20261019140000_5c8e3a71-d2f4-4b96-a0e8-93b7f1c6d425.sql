@@ -0,0 +1,67 @@
+-- Markets, commodities and varieties that have recorded prices, for the forecast selectors.
+-- A day present in both mandi_prices and mandi_timeseries counts once in record_count.
+-- Materialized because the aggregate scans both price tables; sync-agmarknet and etl-pipeline
+-- refresh it after writing prices, so the selectors only read the stored result.
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.market_catalog AS
+SELECT
+  observed.state,
+  observed.district,
+  observed.market,
+  observed.commodity,
+  observed.variety,
+  count(DISTINCT observed.arrival_date) AS record_count,
+  count(*) FILTER (WHERE observed.source = 'mandi_prices') AS mandi_prices_count,
+  count(*) FILTER (WHERE observed.source = 'mandi_timeseries') AS mandi_timeseries_count,
+  min(observed.arrival_date) AS first_seen,
+  max(observed.arrival_date) AS last_seen
+FROM (
+  SELECT p.state, p.district, p.market, p.commodity, p.variety, p.arrival_date, 'mandi_prices' AS source
+  FROM public.mandi_prices p
+  UNION ALL
+  SELECT t.state, t.district, t.market, t.commodity, t.variety, t.arrival_date, 'mandi_timeseries'
+  FROM public.mandi_timeseries t
+) observed
+GROUP BY observed.state, observed.district, observed.market, observed.commodity, observed.variety;
+
+-- Required by REFRESH ... CONCURRENTLY, which keeps the catalog readable during a refresh
+CREATE UNIQUE INDEX IF NOT EXISTS idx_market_catalog_combination
+ON public.market_catalog(state, district, market, commodity, variety) NULLS NOT DISTINCT;
+
+-- Materialized views have no RLS; the catalog is served through market-forecast only
+REVOKE ALL ON public.market_catalog FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_market_catalog()
+RETURNS TABLE (
+  state text,
+  district text,
+  market text,
+  commodity text,
+  variety text,
+  record_count bigint,
+  mandi_prices_count bigint,
+  mandi_timeseries_count bigint,
+  first_seen date,
+  last_seen date
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+  SELECT c.state, c.district, c.market, c.commodity, c.variety, c.record_count,
+    c.mandi_prices_count, c.mandi_timeseries_count, c.first_seen, c.last_seen
+  FROM public.market_catalog c
+  ORDER BY c.state, c.district, c.market, c.commodity, c.variety NULLS FIRST;
+$function$;
+
+-- Refreshing needs the view's owner, so the sync functions call this instead of REFRESH directly
+CREATE OR REPLACE FUNCTION public.refresh_market_catalog()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.market_catalog;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_market_catalog() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,19 @@
+-- Make a stored yield model the serving one. Retiring the old model and activating the new one happen
+-- in one transaction, so predict-yield never finds no active model.
+CREATE OR REPLACE FUNCTION public.activate_yield_model(_model_version text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.yield_models WHERE model_version = _model_version) THEN
+    RAISE EXCEPTION 'Unknown yield model %', _model_version;
+  END IF;
+
+  UPDATE public.yield_models SET is_active = false WHERE is_active AND model_version <> _model_version;
+  UPDATE public.yield_models SET is_active = true WHERE model_version = _model_version;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.activate_yield_model(text) FROM PUBLIC, anon, authenticated;
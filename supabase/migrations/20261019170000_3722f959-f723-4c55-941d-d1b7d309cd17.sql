@@ -0,0 +1,53 @@
+-- Growth stage calendar per crop, read by predict-yield's phenology and get-weather's irrigation schedule.
+-- Stages run germination, vegetative, flowering, grain fill, maturity; the fractions split growing_days
+-- and the names replace the cereal defaults where a crop's stages read better under their own names.
+ALTER TABLE public.reference_crops
+  ADD COLUMN stage_fractions numeric[] NOT NULL DEFAULT ARRAY[0.1, 0.35, 0.2, 0.25, 0.1],
+  ADD COLUMN stage_names text[] NOT NULL DEFAULT ARRAY['Germination', 'Vegetative', 'Flowering', 'Grain fill', 'Maturity'];
+
+UPDATE public.reference_crops AS c
+SET stage_fractions = v.fractions
+FROM (VALUES
+  ('Rice', ARRAY[0.1, 0.4, 0.15, 0.25, 0.1]::numeric[]),
+  ('Wheat', ARRAY[0.08, 0.42, 0.15, 0.25, 0.1]::numeric[]),
+  ('Cotton', ARRAY[0.06, 0.3, 0.24, 0.3, 0.1]::numeric[]),
+  ('Sugarcane', ARRAY[0.1, 0.25, 0.4, 0.15, 0.1]::numeric[]),
+  ('Maize', ARRAY[0.08, 0.4, 0.15, 0.27, 0.1]::numeric[]),
+  ('Gram', ARRAY[0.1, 0.35, 0.2, 0.25, 0.1]::numeric[]),
+  ('Groundnut', ARRAY[0.08, 0.27, 0.2, 0.35, 0.1]::numeric[]),
+  ('Soybean', ARRAY[0.08, 0.32, 0.2, 0.3, 0.1]::numeric[]),
+  ('Potato', ARRAY[0.15, 0.25, 0.15, 0.35, 0.1]::numeric[]),
+  ('Onion', ARRAY[0.1, 0.35, 0.15, 0.3, 0.1]::numeric[]),
+  ('Tomato', ARRAY[0.1, 0.3, 0.2, 0.3, 0.1]::numeric[]),
+  ('Turmeric', ARRAY[0.1, 0.35, 0.15, 0.3, 0.1]::numeric[]),
+  ('Chilli', ARRAY[0.1, 0.3, 0.2, 0.3, 0.1]::numeric[]),
+  ('Watermelon', ARRAY[0.1, 0.3, 0.2, 0.3, 0.1]::numeric[]),
+  ('Muskmelon', ARRAY[0.1, 0.3, 0.2, 0.3, 0.1]::numeric[]),
+  ('Cucumber', ARRAY[0.12, 0.33, 0.15, 0.3, 0.1]::numeric[]),
+  ('Moong', ARRAY[0.1, 0.3, 0.2, 0.3, 0.1]::numeric[]),
+  ('Fodder Sorghum', ARRAY[0.1, 0.5, 0.2, 0.15, 0.05]::numeric[])
+) AS v(crop, fractions)
+WHERE c.crop = v.crop;
+
+UPDATE public.reference_crops AS c
+SET stage_names = v.names
+FROM (VALUES
+  ('Sugarcane', ARRAY['Germination', 'Tillering', 'Grand growth', 'Ripening', 'Maturity']),
+  ('Cotton', ARRAY['Germination', 'Vegetative', 'Squaring & flowering', 'Boll development', 'Maturity']),
+  ('Groundnut', ARRAY['Germination', 'Vegetative', 'Flowering & pegging', 'Pod development', 'Maturity']),
+  ('Soybean', ARRAY['Germination', 'Vegetative', 'Flowering', 'Pod fill', 'Maturity']),
+  ('Gram', ARRAY['Germination', 'Vegetative', 'Flowering', 'Pod fill', 'Maturity']),
+  ('Mustard', ARRAY['Germination', 'Vegetative', 'Flowering', 'Siliqua fill', 'Maturity']),
+  ('Sunflower', ARRAY['Germination', 'Vegetative', 'Head formation & flowering', 'Seed fill', 'Maturity']),
+  ('Potato', ARRAY['Germination', 'Vegetative', 'Tuber initiation', 'Tuber bulking', 'Maturity']),
+  ('Onion', ARRAY['Germination', 'Vegetative', 'Bulb initiation', 'Bulb development', 'Maturity']),
+  ('Tomato', ARRAY['Germination', 'Vegetative', 'Flowering', 'Fruit development', 'Maturity']),
+  ('Chilli', ARRAY['Germination', 'Vegetative', 'Flowering', 'Fruit development', 'Maturity']),
+  ('Turmeric', ARRAY['Germination', 'Vegetative', 'Rhizome initiation', 'Rhizome bulking', 'Maturity']),
+  ('Watermelon', ARRAY['Germination', 'Vine growth', 'Flowering', 'Fruit development', 'Maturity']),
+  ('Muskmelon', ARRAY['Germination', 'Vine growth', 'Flowering', 'Fruit development', 'Maturity']),
+  ('Cucumber', ARRAY['Germination', 'Vine growth', 'Flowering', 'Fruiting and picking', 'Maturity']),
+  ('Moong', ARRAY['Germination', 'Vegetative', 'Flowering', 'Pod fill', 'Maturity']),
+  ('Fodder Sorghum', ARRAY['Germination', 'Vegetative', 'Boot stage', 'Flowering (cutting window)', 'Regrowth'])
+) AS v(crop, names)
+WHERE c.crop = v.crop;